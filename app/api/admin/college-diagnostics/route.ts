@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { HttpError, parseBooleanParam, parseDelimitedList, parseIntegerParam, requireAdmin, respondWithError } from "@/lib/api";
+import {
+  COLLEGE_DIAGNOSTIC_REASONS,
+  OVERRIDABLE_COLLEGE_DIAGNOSTIC_REASONS,
+  listCollegeDiagnostics,
+  recordedDiagnosticWeeks,
+  type CollegeDiagnosticReason,
+} from "@/lib/collegeDiagnostics";
+import { loadWeek } from "@/lib/nflverse";
+import { parseScoringParams } from "@/lib/scoringRules";
+import { lastCompletedNflWeek, lastNflWeekForSeason, MAX_NFL_WEEK } from "@/utils/nflWeek";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+/**
+ * Unresolved and low-confidence college lookups for `startWeek`–`endWeek`
+ * (default: the season so far), merged per player and sorted by fantasy
+ * points. Weeks not yet recorded in `format` are loaded first; `refresh=true`
+ * reloads every week in range. `reasons` defaults to the ones an override can
+ * fix; `unregistered-school` rows are listed only when asked for.
+ */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  if (!requireAdmin(req, url)) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+  const input: Record<string, unknown> = {};
+  try {
+    const computed = lastCompletedNflWeek();
+    const season = parseIntegerParam(url, "season", computed.season, { min: 1999, max: 2100 });
+    const lastWeek = season === computed.season ? computed.week : lastNflWeekForSeason(season);
+    const startWeek = parseIntegerParam(url, "startWeek", 1, { min: 1, max: MAX_NFL_WEEK });
+    const endWeek = parseIntegerParam(url, "endWeek", Math.max(startWeek, lastWeek), { min: startWeek, max: MAX_NFL_WEEK });
+    const { format, rules } = parseScoringParams(url);
+    const reasons = parseDelimitedList(url, "reasons", [...OVERRIDABLE_COLLEGE_DIAGNOSTIC_REASONS], {
+      allowed: COLLEGE_DIAGNOSTIC_REASONS,
+      transform: (value) => value.toLowerCase(),
+    }) as CollegeDiagnosticReason[];
+    const limit = parseIntegerParam(url, "limit", 100, { min: 1, max: 500 });
+    const refresh = parseBooleanParam(url, "refresh", false);
+    Object.assign(input, { season, startWeek, endWeek, format, reasons, limit, refresh });
+
+    const weeks = Array.from({ length: endWeek - startWeek + 1 }, (_, index) => startWeek + index);
+    const recorded = new Map(recordedDiagnosticWeeks(season).map((entry) => [entry.week, entry.format]));
+    const failedWeeks: { week: number; error: string }[] = [];
+    for (const week of weeks) {
+      if (!refresh && recorded.get(week) === rules.name) continue;
+      try {
+        await loadWeek({ season, week, format: rules, includeDefense: true });
+      } catch (error) {
+        if (!(error instanceof HttpError)) throw error;
+        failedWeeks.push({ week, error: error.message });
+      }
+    }
+
+    const diagnostics = listCollegeDiagnostics(season, { weeks, reasons });
+    const byReason: Record<string, number> = {};
+    for (const entry of diagnostics) byReason[entry.reason] = (byReason[entry.reason] ?? 0) + 1;
+    return NextResponse.json({
+      season,
+      weeks,
+      format,
+      reasons,
+      count: diagnostics.length,
+      byReason,
+      failedWeeks,
+      diagnostics: diagnostics.slice(0, limit),
+    });
+  } catch (error) {
+    return respondWithError("GET /api/admin/college-diagnostics", error, { input });
+  }
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { HttpError, parseBooleanParam, parseIntegerParam, parseStringParam, requireAdmin, respondWithError } from "@/lib/api";
+import {
+  buildCollegeOverride,
+  collegeOverrideKey,
+  listCollegeOverrides,
+  loadCollegeOverrideHistory,
+  removeCollegeOverride,
+  saveCollegeOverride,
+} from "@/lib/collegeOverrides";
+import { explainPlayerCollege, normalizeTeamAbbreviation } from "@/lib/nflverse";
+import { lastCompletedNflWeek } from "@/utils/nflWeek";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+const parsePlayerParams = (url: URL) => ({
+  gsisId: parseStringParam(url, "gsisId", "", { maxLength: 40 }),
+  name: parseStringParam(url, "name", "", { maxLength: 120 }),
+  team: normalizeTeamAbbreviation(parseStringParam(url, "team", "", { maxLength: 4 })),
+});
+
+/**
+ * Lists overrides, or with `gsisId` / `name`+`team` explains where that
+ * player's college comes from (`season` picks the roster). `history=true`
+ * adds the change log, filtered to `key` when given.
+ */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  if (!requireAdmin(req, url)) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+  const input: Record<string, unknown> = {};
+  try {
+    const player = parsePlayerParams(url);
+    const key = parseStringParam(url, "key", "", { maxLength: 200 });
+    const includeHistory = parseBooleanParam(url, "history", false);
+    Object.assign(input, { player, key, includeHistory });
+    if (player.gsisId || player.name) {
+      if (!player.gsisId && !player.team) throw new HttpError(400, "team is required when looking up by name");
+      const season = parseIntegerParam(url, "season", lastCompletedNflWeek().season, { min: 1999, max: 2100 });
+      input.season = season;
+      const resolution = await explainPlayerCollege(season, player);
+      return NextResponse.json({ season, ...resolution });
+    }
+    const overrides = await listCollegeOverrides();
+    const filtered = key ? overrides.filter((override) => override.key === key) : overrides;
+    return NextResponse.json({
+      count: filtered.length,
+      overrides: filtered,
+      ...(includeHistory ? { history: await loadCollegeOverrideHistory(key || undefined) } : {}),
+    });
+  } catch (error) {
+    return respondWithError("GET /api/admin/college-overrides", error, { input });
+  }
+}
+
+/** Creates or replaces the override for a GSIS id, or for a name + team. */
+export async function POST(req: Request) {
+  const url = new URL(req.url);
+  if (!requireAdmin(req, url)) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+  const input: Record<string, unknown> = {};
+  try {
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      throw new HttpError(400, "Request body must be valid JSON");
+    }
+    input.body = body;
+    if (!body || typeof body !== "object") throw new HttpError(400, "Request body must be a JSON object");
+    const payload = body as Record<string, unknown>;
+    const override = buildCollegeOverride({
+      ...payload,
+      team: typeof payload.team === "string" ? normalizeTeamAbbreviation(payload.team) : payload.team,
+    });
+    const actor = typeof payload.actor === "string" ? payload.actor.trim().slice(0, 80) || undefined : undefined;
+    const result = await saveCollegeOverride(override, actor);
+    return NextResponse.json(result, { status: result.action === "created" ? 201 : 200 });
+  } catch (error) {
+    return respondWithError("POST /api/admin/college-overrides", error, { input });
+  }
+}
+
+/** Removes an override by `key`, or by the same `gsisId` / `name`+`team` used to create it. */
+export async function DELETE(req: Request) {
+  const url = new URL(req.url);
+  if (!requireAdmin(req, url)) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+  const input: Record<string, unknown> = {};
+  try {
+    const player = parsePlayerParams(url);
+    const explicitKey = parseStringParam(url, "key", "", { maxLength: 200 });
+    const actor = parseStringParam(url, "actor", "", { maxLength: 80 }) || undefined;
+    if (!explicitKey && !player.gsisId && !(player.name && player.team)) {
+      throw new HttpError(400, "Provide key, gsisId, or name and team");
+    }
+    const key = explicitKey || collegeOverrideKey(player.gsisId ? { gsisId: player.gsisId } : player);
+    Object.assign(input, { key, actor });
+    const removed = await removeCollegeOverride(key, actor);
+    return NextResponse.json({ action: "removed", override: removed });
+  } catch (error) {
+    return respondWithError("DELETE /api/admin/college-overrides", error, { input });
+  }
+}
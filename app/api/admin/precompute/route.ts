@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 
-import { HttpError, respondWithError } from "@/lib/api";
+import { HttpError, requireAdmin, respondWithError } from "@/lib/api";
 import { computeMatchups, computeSeasonToDate } from "@/utils/compute";
 import {
   detectTargetCfbWeek,
@@ -57,23 +57,6 @@ const parseSeasonType = (value: string | null | undefined, fallback: SeasonType)
   throw new HttpError(400, `seasonType must be regular or postseason`);
 };
 
-const ADMIN_HEADER_NAME = "x-admin-token";
-const ADMIN_QUERY_PARAM = "token";
-
-const extractAdminToken = (req: Request, url?: URL) => {
-  const headerToken = req.headers.get(ADMIN_HEADER_NAME)?.trim();
-  if (headerToken) return headerToken;
-
-  const queryToken = (url ?? new URL(req.url)).searchParams.get(ADMIN_QUERY_PARAM)?.trim();
-  return queryToken && queryToken.length > 0 ? queryToken : null;
-};
-
-const requireAdmin = (req: Request, url: URL) => {
-  const token = extractAdminToken(req, url);
-  const expected = process.env.ADMIN_PRECOMPUTE_TOKEN?.trim();
-  return Boolean(token && expected && token === expected);
-};
-
 const previewMissing = (rows: { player_id: string; name: string; team: string }[], limit = 25) =>
   rows.slice(0, limit);
 
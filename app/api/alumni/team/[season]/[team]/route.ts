@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { kvGet, kvSet } from "@/lib/kv";
-import { getCfbSeasonSlate, type CfbGame } from "@/utils/cfbd";
+import type { CfbGame } from "@/utils/cfbd";
+import { getCfbSeasonSlate } from "@/utils/cfbScheduleProvider";
 import { canonicalTeam, canonicalize, filterTeamGamesFromSlate, normalizeSchool } from "@/utils/schedules";
 import { probeNames } from "@/utils/debugSlate";
 import {
@@ -11,19 +12,33 @@ import {
   getNflSchedule,
 } from "@/utils/datasources";
 import {
+  calendarWeekForNflWeek,
   estimateNflWeekForDate,
   lastCompletedNflWeek,
+  lastNflWeekForSeason,
+  nflWeekLabel,
+  nflWeekWindowUtc,
   preseasonWeekCapForSeason,
-  REGULAR_SEASON_WEEKS,
 } from "@/utils/nflWeek";
 import type { PlayerWeekly } from "@/utils/compute";
 import type { SlateDiagnostics, SlateMatchSample } from "@/types/alumniTeam";
-import { buildNflWeekWindows, mapCfbWeekToSingleNflWeek } from "@/utils/weekMapping";
+import {
+  buildNflWeekWindows,
+  CFB_POSTSEASON_POLICIES,
+  DEFAULT_CFB_POSTSEASON_POLICY,
+  mapCfbPostseasonGame,
+  mapCfbWeekToSingleNflWeek,
+  type CfbPostseasonPolicy,
+  type CfpRound,
+} from "@/utils/weekMapping";
 
 export const runtime = "nodejs";
 
 type ResultRow = {
   cfbWeek: number;
+  cfbSeasonType: "regular" | "postseason";
+  /** Set for College Football Playoff games. */
+  cfpRound: CfpRound | null;
   cfbDate: string;
   homeAway: "Home" | "Away";
   opponent: string;
@@ -33,8 +48,15 @@ type ResultRow = {
   status: "final" | "pending" | "scheduled";
   nflSeason: number;
   nflWeek: number;
+  nflWeekLabel: string;
   nflWindowStart: string;
   nflWindowEnd: string;
+  /**
+   * How the NFL week was picked: the CFB week's aligned NFL week, a CFP round
+   * lined up with an NFL playoff round, the NFL window containing a bowl's
+   * kickoff, or an estimate from the kickoff date when no schedule matched.
+   */
+  nflMapping: "cfb-week" | "cfp-round" | "kickoff-window" | "estimate";
 };
 
 type PendingPayload = {
@@ -69,7 +91,8 @@ const sumForMatchup = (rows: PlayerWeekly[], home: string, away: string) => {
   };
 };
 
-const buildCacheKey = (season: number, team: string) => `alumni:v1:team:${season}:${team}`;
+const buildCacheKey = (season: number, team: string, policy: CfbPostseasonPolicy) =>
+  `alumni:v2:team:${season}:${team}:${policy}`;
 
 const buildHeaders = () => ({ "Cache-Control": "s-maxage=3600, stale-while-revalidate=86400" });
 
@@ -99,8 +122,13 @@ export async function GET(
 
   const url = new URL(req.url);
   const debug = url.searchParams.get("debug") === "1";
+  const policyParam = url.searchParams.get("postseasonPolicy")?.trim() || DEFAULT_CFB_POSTSEASON_POLICY;
+  if (!(CFB_POSTSEASON_POLICIES as readonly string[]).includes(policyParam)) {
+    return NextResponse.json({ error: "invalid_postseason_policy", allowed: CFB_POSTSEASON_POLICIES }, { status: 400 });
+  }
+  const postseasonPolicy = policyParam as CfbPostseasonPolicy;
 
-  const cacheKey = buildCacheKey(season, normalizedTeam);
+  const cacheKey = buildCacheKey(season, normalizedTeam, postseasonPolicy);
   const cached = await kvGet<ResultRow[]>(cacheKey);
 
   try {
@@ -129,7 +157,7 @@ export async function GET(
       requestedTeamOriginal: teamRaw,
       requestedTeam: unsluggedTeam,
       normalizedTeam,
-      provider: "cfbd",
+      provider: regularResult.provider,
       filter: {
         input: teamForFilter,
         normalized: filterNormalized,
@@ -168,12 +196,12 @@ export async function GET(
     if (!games.length) {
       if (cached && cached.length) {
         return NextResponse.json(
-          { team: normalizedTeam, season, rows: cached, cached: true, meta },
+          { team: normalizedTeam, season, postseasonPolicy, rows: cached, cached: true, meta },
           { headers: buildHeaders() },
         );
       }
       return NextResponse.json(
-        { team: normalizedTeam, season, rows: [], meta },
+        { team: normalizedTeam, season, postseasonPolicy, rows: [], meta },
         { headers: buildHeaders() },
       );
     }
@@ -225,7 +253,10 @@ export async function GET(
       const estimate = estimateNflWeekForDate(game.season, kickoff, game.week);
       const isHome = canonicalTeam(game.home) === canonicalNormalized;
       const opponent = isHome ? game.away : game.home;
-      const mapping = mapWeek(game.week);
+      const postseason = game.seasonType === "postseason";
+      const postseasonMapping = postseason ? mapCfbPostseasonGame(game, windows ?? [], postseasonPolicy) : null;
+      const mapping = postseason ? postseasonMapping : mapWeek(game.week);
+      let nflMapping: ResultRow["nflMapping"] = postseasonMapping?.rule ?? (mapping ? "cfb-week" : "estimate");
       let nflSeason = mapping ? mapping.season : game.season;
       let nflWeek = mapping ? mapping.week : estimate.week;
       let nflWindowStart = estimate.startISO;
@@ -262,7 +293,10 @@ export async function GET(
             isFinal = true;
             status = "final";
           } else {
-            const projected = estimateNflWeekForDate(mapping.season, kickoff, mapping.week);
+            const projected =
+              nflMapping === "cfp-round"
+                ? nflWeekWindowUtc(mapping.season, mapping.week)
+                : estimateNflWeekForDate(mapping.season, kickoff, mapping.week);
             nflWindowStart = projected.startISO;
             nflWindowEnd = projected.endISO;
             const startMs = new Date(nflWindowStart).getTime();
@@ -279,11 +313,13 @@ export async function GET(
         }
       }
 
-      if (!shouldFetch) {
+      // A CFP round keeps its NFL playoff week even before that week is played.
+      if (!shouldFetch && nflMapping !== "cfp-round") {
         const maxPreseasonWeek = preseasonWeekCapForSeason(game.season);
         const minSupportedRawWeek = -maxPreseasonWeek;
         const supportedByEstimate = Number.isFinite(rawWeek)
-          ? rawWeek >= minSupportedRawWeek && rawWeek <= REGULAR_SEASON_WEEKS
+          ? rawWeek >= minSupportedRawWeek &&
+            rawWeek <= calendarWeekForNflWeek(game.season, lastNflWeekForSeason(game.season))
           : false;
         const startMs = new Date(nflWindowStart).getTime();
         const endMs = new Date(nflWindowEnd).getTime();
@@ -303,6 +339,7 @@ export async function GET(
           nflWeek = estimate.week;
           nflWindowStart = estimate.startISO;
           nflWindowEnd = estimate.endISO;
+          nflMapping = "estimate";
         } else if (supportedByEstimate && Number.isFinite(startMs) && nowMs >= startMs) {
           shouldFetch = true;
           status = Number.isFinite(endMs) && nowMs >= endMs ? "final" : "pending";
@@ -313,6 +350,7 @@ export async function GET(
           nflWeek = estimate.week;
           nflWindowStart = estimate.startISO;
           nflWindowEnd = estimate.endISO;
+          nflMapping = "estimate";
         }
       }
 
@@ -325,6 +363,9 @@ export async function GET(
         nflWeek,
         nflWindowStart,
         nflWindowEnd,
+        nflMapping,
+        postseason,
+        cfpRound: postseasonMapping?.cfpRound ?? null,
         rawWeek,
         shouldFetch,
         isFinal,
@@ -340,12 +381,12 @@ export async function GET(
       }));
       const cacheIndex = new Map<string, ResultRow>();
       for (const row of normalizedCached) {
-        const signature = `${row.cfbWeek}:${row.homeAway}:${row.opponent}`;
+        const signature = `${row.cfbSeasonType}:${row.cfbWeek}:${row.homeAway}:${row.opponent}`;
         if (!cacheIndex.has(signature)) cacheIndex.set(signature, row);
       }
       const needsRefresh = contexts.some((ctx) => {
         if (!ctx.shouldFetch) return false;
-        const signature = `${ctx.game.week}:${ctx.isHome ? "Home" : "Away"}:${ctx.opponent}`;
+        const signature = `${ctx.game.seasonType}:${ctx.game.week}:${ctx.isHome ? "Home" : "Away"}:${ctx.opponent}`;
         const cachedRow = cacheIndex.get(signature);
         if (!cachedRow) return true;
         if (ctx.status !== "final") return true;
@@ -354,7 +395,7 @@ export async function GET(
       });
       if (!needsRefresh) {
         return NextResponse.json(
-          { team: normalizedTeam, season, rows: normalizedCached, cached: true, meta },
+          { team: normalizedTeam, season, postseasonPolicy, rows: normalizedCached, cached: true, meta },
           { headers: buildHeaders() },
         );
       }
@@ -430,6 +471,8 @@ export async function GET(
 
       rows.push({
         cfbWeek: ctx.game.week,
+        cfbSeasonType: ctx.postseason ? "postseason" : "regular",
+        cfpRound: ctx.cfpRound,
         cfbDate: ctx.game.kickoffISO ? ctx.game.kickoffISO.slice(0, 10) : "",
         homeAway: ctx.isHome ? "Home" : "Away",
         opponent: ctx.opponent,
@@ -439,13 +482,18 @@ export async function GET(
         status,
         nflSeason: ctx.nflSeason,
         nflWeek: ctx.nflWeek,
+        nflWeekLabel: nflWeekLabel(ctx.nflSeason, ctx.nflWeek),
         nflWindowStart: ctx.nflWindowStart,
         nflWindowEnd: ctx.nflWindowEnd,
+        nflMapping: ctx.nflMapping,
       });
       completionFlags.push(ctx.isFinal && usPts !== null && oppPts !== null);
     }
 
-    rows.sort((a, b) => a.cfbWeek - b.cfbWeek || a.cfbDate.localeCompare(b.cfbDate));
+    const seasonTypeOrder = (row: ResultRow) => (row.cfbSeasonType === "postseason" ? 1 : 0);
+    rows.sort(
+      (a, b) => seasonTypeOrder(a) - seasonTypeOrder(b) || a.cfbWeek - b.cfbWeek || a.cfbDate.localeCompare(b.cfbDate),
+    );
 
     const shouldCache = contexts.every((ctx, index) => {
       if (!ctx.shouldFetch) return true;
@@ -456,7 +504,7 @@ export async function GET(
       await kvSet(cacheKey, rows, CACHE_TTL_SECONDS);
     }
 
-    return NextResponse.json({ team: normalizedTeam, season, rows, cached: false, meta }, { headers: buildHeaders() });
+    return NextResponse.json({ team: normalizedTeam, season, postseasonPolicy, rows, cached: false, meta }, { headers: buildHeaders() });
   } catch (error) {
     // eslint-disable-next-line no-console
     console.error("[alumni] team results failed", error);
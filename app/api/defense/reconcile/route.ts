@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { parseIntegerParam, respondWithError } from "@/lib/api";
+import { reconcileTeamDefense } from "@/lib/defenseData";
+import { lastCompletedNflWeek } from "@/utils/nflWeek";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const input: Record<string, unknown> = {
+    query: Object.fromEntries(url.searchParams.entries()),
+  };
+  try {
+    const computed = lastCompletedNflWeek();
+    const season = parseIntegerParam(url, "season", computed.season, { min: 1900, max: 2100 });
+    const week = parseIntegerParam(url, "week", computed.week, { min: 1, max: 30 });
+    Object.assign(input, { season, week });
+    const report = await reconcileTeamDefense(season, week);
+    return NextResponse.json(report);
+  } catch (error) {
+    return respondWithError("GET /api/defense/reconcile", error, { input });
+  }
+}
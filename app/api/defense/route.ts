@@ -1,6 +1,7 @@
 export const runtime = "nodejs";
 import { NextRequest } from "next/server";
-import { DEFENSE_SOURCE, DefenseUnavailableError, fetchDefenseApprox } from "@/lib/defense";
+import { DEFENSE_SOURCE, DefenseUnavailableError } from "@/lib/defense";
+import { loadTeamDefenseWeek } from "@/lib/defenseData";
 
 const normalizeSeason = (value: number): number => {
   if (!Number.isFinite(value) || value <= 0) return 2025;
@@ -21,7 +22,7 @@ export async function GET(req: NextRequest) {
   const week = normalizeWeek(weekParam);
 
   try {
-    const result = await fetchDefenseApprox({ season, week });
+    const result = await loadTeamDefenseWeek(season, week);
     return Response.json(result, {
       headers: { "Cache-Control": "s-maxage=300, stale-while-revalidate=86400" },
     });
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { HttpError, parseStringParam, requireAdmin, respondWithError } from "@/lib/api";
+import { buildLeague, getLeague, loadLeagues, saveLeague } from "@/lib/league";
+import { parsePlayoffOptions } from "@/lib/playoffs";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const input: Record<string, unknown> = {
+    query: Object.fromEntries(url.searchParams.entries()),
+  };
+  try {
+    const id = parseStringParam(url, "id", "", { maxLength: 64, toLowerCase: true });
+    if (id) {
+      input.id = id;
+      const league = await getLeague(id);
+      return NextResponse.json({ league });
+    }
+    const leagues = await loadLeagues();
+    return NextResponse.json({
+      count: leagues.length,
+      leagues: leagues.map((league) => ({
+        id: league.id,
+        name: league.name,
+        season: league.season,
+        format: league.format,
+        scheduleType: league.scheduleType,
+        schools: league.schools,
+        startWeek: league.startWeek,
+        endWeek: league.endWeek,
+      })),
+    });
+  } catch (error) {
+    return respondWithError("GET /api/leagues", error, { input });
+  }
+}
+
+export async function POST(req: Request) {
+  const url = new URL(req.url);
+  if (!requireAdmin(req, url)) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+  const input: Record<string, unknown> = {};
+  try {
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      throw new HttpError(400, "Request body must be valid JSON");
+    }
+    input.body = body;
+    const league = buildLeague(body);
+    const playoffs = (body as { playoffs?: unknown }).playoffs;
+    if (playoffs !== undefined) league.playoffs = parsePlayoffOptions(playoffs);
+    await saveLeague(league);
+    return NextResponse.json({ league }, { status: 201 });
+  } catch (error) {
+    return respondWithError("POST /api/leagues", error, { input });
+  }
+}
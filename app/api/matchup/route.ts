@@ -9,9 +9,15 @@ import {
   parseEnumParam,
   parseIntegerParam,
   parseRequiredString,
-  parseStringParam,
   respondWithError,
 } from "@/lib/api";
+import { parseCollegeAllocationParam } from "@/lib/collegeAllocation";
+import { aggregateByConference, ConferenceNotFoundError, parseConferenceScoringParams } from "@/lib/conferences";
+import { parseDefenseParams } from "@/lib/idp";
+import { parseLineupParam } from "@/lib/lineups";
+import { resolveConference, sameSchool, schoolDisplayName } from "@/lib/schoolRegistry";
+import { parseScoringParams } from "@/lib/scoringRules";
+import { averagingWindowKey, parseAveragingParam } from "@/lib/seasonAverages";
 import { lastCompletedNflWeek } from "@/utils/nflWeek";
 
 export const runtime = "nodejs";
@@ -57,37 +63,96 @@ export async function GET(req: Request) {
         });
       }
     }
-    const format = parseStringParam(url, "format", "ppr", { maxLength: 32, toLowerCase: true });
+    const { format, rules } = parseScoringParams(url);
+    const lineupTemplate = parseLineupParam(url);
+    const lineup = lineupTemplate.name;
     const mode = parseEnumParam(url, "mode", ["weekly", "avg"] as const, "weekly");
+    const averaging = parseAveragingParam(url);
+    const avgWindow = averagingWindowKey(averaging);
+    const allocation = parseCollegeAllocationParam(url);
     const includeK = parseBooleanParam(url, "includeK", true);
-    const defense = parseEnumParam(url, "defense", ["none", "approx"] as const, "approx");
-    const home = parseRequiredString(url, "home", { maxLength: 120 });
-    const away = parseRequiredString(url, "away", { maxLength: 120 });
-    Object.assign(input, { defaults, season, week, format, mode, includeK, defense, home, away });
-    if (home.toLowerCase() === away.toLowerCase()) {
-      throw new HttpError(400, "home and away must be different schools");
+    const { defense, idp } = parseDefenseParams(url);
+    const scope = parseEnumParam(url, "scope", ["school", "conference"] as const, "school");
+    const conferenceScoring = scope === "conference" ? parseConferenceScoringParams(url) : undefined;
+    const resolveSide = (key: "home" | "away") => {
+      const value = parseRequiredString(url, key, { maxLength: 120 });
+      if (scope === "school") return schoolDisplayName(value);
+      const conference = resolveConference(value, season);
+      if (!conference) throw new ConferenceNotFoundError(value, season);
+      return conference;
+    };
+    const home = resolveSide("home");
+    const away = resolveSide("away");
+    Object.assign(input, {
+      defaults,
+      season,
+      week,
+      format,
+      lineup,
+      mode,
+      avgWindow,
+      allocation,
+      includeK,
+      defense,
+      idp,
+      scope,
+      conferenceScoring,
+      home,
+      away,
+    });
+    if (scope === "conference" ? home === away : sameSchool(home, away)) {
+      throw new HttpError(400, `home and away must be different ${scope === "conference" ? "conferences" : "schools"}`);
     }
     const doRecord = parseBooleanParam(url, "record", false);
     input.record = doRecord;
+    if (doRecord && scope === "conference") {
+      throw new HttpError(400, "record is only supported for school matchups");
+    }
     const includeDefense = defense === "approx";
-    const weekPromise = loadWeek({ season, week, format, includeDefense });
+    const weekPromise = loadWeek({ season, week, format: rules, includeDefense, idp: idp?.weights });
     const averagesPromise: Promise<Record<string, number> | undefined> =
-      mode === "avg" && week > 1 ? computeHistoricalAverages(season, week, format) : Promise.resolve(undefined);
+      mode === "avg" && week > 1
+        ? computeHistoricalAverages(season, week, rules, averaging, idp?.weights)
+        : Promise.resolve(undefined);
     const [{ leaders, defenseData, playerStatsSource }, averages] = await Promise.all([weekPromise, averagesPromise]);
-    const bySchool = await aggregateByCollegeMode(leaders, week, format, mode, averages, { includeK, defense, defenseData });
-    const a = bySchool.find((r) => r.school.toLowerCase() === home.toLowerCase());
-    const b = bySchool.find((r) => r.school.toLowerCase() === away.toLowerCase());
-    const homePoints = a?.totalPoints ?? 0;
-    const awayPoints = b?.totalPoints ?? 0;
+    const bySchool = await aggregateByCollegeMode(leaders, week, rules, mode, averages, {
+      includeK,
+      defense,
+      defenseData,
+      lineup: lineupTemplate,
+      allocation,
+      idp,
+    });
+    const conferences = conferenceScoring ? aggregateByConference(bySchool, season, conferenceScoring).rows : null;
+    const a = conferences ? null : bySchool.find((r) => sameSchool(r.school, home));
+    const b = conferences ? null : bySchool.find((r) => sameSchool(r.school, away));
+    const homeConference = conferences?.find((row) => row.conference === home);
+    const awayConference = conferences?.find((row) => row.conference === away);
+    const homePoints = (conferences ? homeConference?.totalPoints : a?.totalPoints) ?? 0;
+    const awayPoints = (conferences ? awayConference?.totalPoints : b?.totalPoints) ?? 0;
     const winner: "home" | "away" | "tie" = homePoints > awayPoints ? "home" : awayPoints > homePoints ? "away" : "tie";
     const payload = {
       season,
       week,
       format,
+      scoring: rules,
+      lineup,
+      lineupSlots: lineupTemplate.slots,
       mode,
+      avgWindow,
+      allocation,
       includeK,
       defense,
+      idp,
       seasonLoaded: playerStatsSource?.seasonLoaded ?? season,
+      scope,
+      ...(conferenceScoring
+        ? {
+            conferenceScoring,
+            homeSchools: homeConference?.schools ?? [],
+            awaySchools: awayConference?.schools ?? [],
+          }
+        : {}),
       home,
       away,
       homePoints,
@@ -109,7 +174,11 @@ export async function GET(req: Request) {
         winner,
         timestamp: Date.now(),
       };
-      await saveRecord(record);
+      const saved = await saveRecord(record, "matchup");
+      return NextResponse.json({
+        ...payload,
+        recorded: { key: saved.key, action: saved.action, previous: saved.previous },
+      });
     }
     return NextResponse.json(payload);
   } catch (error) {
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { HttpError, parseIntegerParam, respondWithError } from "@/lib/api";
+import { parseDefenseParams } from "@/lib/idp";
+import { createStatLineScorer, listAssetHashes, loadPlayerStatsRevision } from "@/lib/nflverse";
+import { parseScoringParams } from "@/lib/scoringRules";
+import { getWeekRevisionHistory, listPointChanges } from "@/lib/statRevisions";
+import { lastCompletedNflWeek } from "@/utils/nflWeek";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const input: Record<string, unknown> = {
+    query: Object.fromEntries(url.searchParams.entries()),
+  };
+  try {
+    const computed = lastCompletedNflWeek();
+    const season = parseIntegerParam(url, "season", computed.season, { min: 1900, max: 2100 });
+    const week = parseIntegerParam(url, "week", computed.week, { min: 1, max: 30 });
+    const { format, rules } = parseScoringParams(url);
+    const { defense, idp } = parseDefenseParams(url);
+    const fromParam = url.searchParams.get("from");
+    const toParam = url.searchParams.get("to");
+    const from = fromParam ? parseIntegerParam(url, "from", 0, { min: 0 }) : undefined;
+    const to = toParam ? parseIntegerParam(url, "to", 1, { min: 1 }) : undefined;
+    Object.assign(input, { season, week, format, defense, from, to });
+
+    const source = await loadPlayerStatsRevision(season, week);
+    const score = await createStatLineScorer(source.seasonLoaded, week, rules, idp?.weights);
+    const [history, diff] = await Promise.all([
+      getWeekRevisionHistory(source.seasonLoaded, week),
+      listPointChanges(source.seasonLoaded, week, score, { from, to }),
+    ]);
+    if (!history || !diff) {
+      throw new HttpError(404, `No stat revisions recorded for ${source.seasonLoaded} week ${week}`);
+    }
+    const assets = listAssetHashes().filter((asset) => asset.hash === source.contentHash);
+    return NextResponse.json({
+      season,
+      seasonLoaded: source.seasonLoaded,
+      week,
+      format,
+      defense,
+      revision: history.revision,
+      contentHash: source.contentHash,
+      asset: assets[0],
+      history: history.history,
+      from: diff.from,
+      to: diff.to,
+      changes: diff.changes,
+    });
+  } catch (error) {
+    return respondWithError("GET /api/nflverse/revisions", error, { input });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { getLeague } from "@/lib/league";
+import {
+  buildPlayoffBracket,
+  DEFAULT_PLAYOFF_OPTIONS,
+  MAX_PLAYOFF_TEAMS,
+  PLAYOFF_TIEBREAKERS,
+  type PlayoffTiebreaker,
+} from "@/lib/playoffs";
+import { parseDelimitedList, parseIntegerParam, parseRequiredString, respondWithError } from "@/lib/api";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const input: Record<string, unknown> = {
+    query: Object.fromEntries(url.searchParams.entries()),
+  };
+  try {
+    const leagueId = parseRequiredString(url, "league", { maxLength: 64, toLowerCase: true });
+    input.league = leagueId;
+    const league = await getLeague(leagueId);
+    const defaults = league.playoffs ?? DEFAULT_PLAYOFF_OPTIONS;
+    const teams = parseIntegerParam(url, "teams", defaults.teams, { min: 2, max: MAX_PLAYOFF_TEAMS });
+    const tiebreakers = parseDelimitedList(url, "tiebreakers", defaults.tiebreakers, {
+      allowed: PLAYOFF_TIEBREAKERS,
+      transform: (value) => value.toLowerCase(),
+      maxItems: PLAYOFF_TIEBREAKERS.length,
+    }) as PlayoffTiebreaker[];
+    Object.assign(input, { teams, tiebreakers });
+    const bracket = await buildPlayoffBracket(league, { teams, tiebreakers });
+    return NextResponse.json({
+      ...bracket,
+      league: { id: league.id, name: league.name, season: league.season, format: league.format, mode: league.mode },
+    });
+  } catch (error) {
+    return respondWithError("GET /api/playoffs", error, { input });
+  }
+}
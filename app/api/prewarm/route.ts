@@ -5,10 +5,11 @@ import {
   HttpError,
   parseBooleanParam,
   parseDelimitedList,
-  parseEnumParam,
   parseIntegerParam,
   respondWithError,
 } from "@/lib/api";
+import { IDP_POSITIONS, parseDefenseParams } from "@/lib/idp";
+import { SCORING_PRESET_NAMES } from "@/lib/scoringRules";
 import { lastCompletedNflWeek } from "@/utils/nflWeek";
 
 export const runtime = "nodejs";
@@ -52,6 +53,7 @@ export async function GET(req: Request) {
     const endWeek = parseIntegerParam(url, "endWeek", defaultEndWeek, { min: startWeek, max: 30 });
     const formats = parseDelimitedList(url, "formats", ["ppr"], {
       transform: (value) => value.toLowerCase(),
+      allowed: SCORING_PRESET_NAMES,
       maxItems: 10,
     });
     const modes = parseDelimitedList(url, "modes", ["weekly"], {
@@ -60,8 +62,8 @@ export async function GET(req: Request) {
       maxItems: 5,
     });
     const includeK = parseBooleanParam(url, "includeK", true);
-    const defense = parseEnumParam(url, "defense", ["none", "approx"] as const, "none");
-    Object.assign(input, { defaults, season, startWeek, endWeek, formats, modes, includeK, defense });
+    const { defense, idp } = parseDefenseParams(url, "none");
+    Object.assign(input, { defaults, season, startWeek, endWeek, formats, modes, includeK, defense, idp });
     const base = `${url.origin}/api/scores`;
     const reqs: string[] = [];
     for (const fmt of formats) {
@@ -75,6 +77,10 @@ export async function GET(req: Request) {
             includeK: String(includeK),
             defense,
           });
+          if (idp) {
+            qs.set("idpSlots", IDP_POSITIONS.map((position) => `${position}:${idp.slots[position]}`).join(","));
+            qs.set("idpWeights", JSON.stringify(idp.weights));
+          }
           qs.set("override", `${season}-${w}`);
           reqs.push(`${base}?${qs.toString()}`);
         }
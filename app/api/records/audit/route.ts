@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { parseIntegerParam, parseStringParam, respondWithError } from "@/lib/api";
+import { loadAuditTrail } from "@/lib/league";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const input: Record<string, unknown> = {
+    query: Object.fromEntries(url.searchParams.entries()),
+  };
+  try {
+    const key = parseStringParam(url, "key", "", { maxLength: 400, toLowerCase: true });
+    const league = parseStringParam(url, "league", "", { maxLength: 64, toLowerCase: true });
+    const limit = parseIntegerParam(url, "limit", 200, { min: 1, max: 5000 });
+    Object.assign(input, { key, league, limit });
+    const entries = await loadAuditTrail({
+      key: key || undefined,
+      keyPrefix: league ? `${league}|` : undefined,
+    });
+    const newestFirst = entries.sort((a, b) => b.timestamp - a.timestamp).slice(0, limit);
+    return NextResponse.json({ count: newestFirst.length, total: entries.length, entries: newestFirst });
+  } catch (error) {
+    return respondWithError("GET /api/records/audit", error, { input });
+  }
+}
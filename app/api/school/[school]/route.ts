@@ -1,16 +1,20 @@
 
 import { NextResponse } from "next/server";
-import { aggregateByCollegeMode } from "@/lib/scoring";
-import { loadWeek, computeHistoricalAverages } from "@/lib/nflverse";
+import { loadSeasonAggregates } from "@/lib/seasonAggregates";
 import {
   HttpError,
   parseBooleanParam,
   parseEnumParam,
   parseIntegerParam,
-  parseStringParam,
   respondWithError,
 } from "@/lib/api";
-import { lastCompletedNflWeek } from "@/utils/nflWeek";
+import { parseCollegeAllocationParam } from "@/lib/collegeAllocation";
+import { parseDefenseParams } from "@/lib/idp";
+import { parseLineupParam } from "@/lib/lineups";
+import { conferenceFor, resolveSchool, sameSchool } from "@/lib/schoolRegistry";
+import { parseScoringParams } from "@/lib/scoringRules";
+import { averagingWindowKey, parseAveragingParam } from "@/lib/seasonAverages";
+import { isPostseasonWeek, lastCompletedNflWeek, nflWeekLabel, regularSeasonWeeksForSeason } from "@/utils/nflWeek";
 
 export const runtime = "nodejs";
 export const revalidate = Number(process.env.CACHE_SECONDS ?? 3600);
@@ -27,34 +31,76 @@ export async function GET(req: Request, { params }: { params: { school: string }
     const startWeek = parseIntegerParam(url, "startWeek", 1, { min: 1, max: 30 });
     const defaultEndWeek = Math.max(defaults.week, startWeek);
     const endWeek = parseIntegerParam(url, "endWeek", defaultEndWeek, { min: startWeek, max: 30 });
-    const format = parseStringParam(url, "format", "ppr", { maxLength: 32, toLowerCase: true });
+    const includePostseason = parseBooleanParam(url, "includePostseason", true);
+    const { format, rules } = parseScoringParams(url);
+    const lineupTemplate = parseLineupParam(url);
+    const lineup = lineupTemplate.name;
     const mode = parseEnumParam(url, "mode", ["weekly", "avg"] as const, "weekly");
+    const averaging = parseAveragingParam(url);
+    const avgWindow = averagingWindowKey(averaging);
+    const allocation = parseCollegeAllocationParam(url);
     const includeK = parseBooleanParam(url, "includeK", true);
-    const defense = parseEnumParam(url, "defense", ["none", "approx"] as const, "approx");
-    Object.assign(input, { defaults, season, startWeek, endWeek, format, mode, includeK, defense });
+    const { defense, idp } = parseDefenseParams(url);
+    Object.assign(input, {
+      defaults,
+      season,
+      startWeek,
+      endWeek,
+      includePostseason,
+      format,
+      lineup,
+      mode,
+      avgWindow,
+      allocation,
+      includeK,
+      defense,
+      idp,
+    });
     const schoolParamRaw = decodeURIComponent(params.school ?? "");
-    const schoolParam = schoolParamRaw.trim();
-    input.school = schoolParam;
-    if (!schoolParam) throw new HttpError(400, "School parameter is required");
-    if (schoolParam.length > 120) throw new HttpError(400, "School parameter is too long");
-    const weeks = Array.from({ length: endWeek - startWeek + 1 }, (_, i) => startWeek + i);
-    const includeDefense = defense === "approx";
+    const requestedSchool = schoolParamRaw.trim();
+    input.school = requestedSchool;
+    if (!requestedSchool) throw new HttpError(400, "School parameter is required");
+    if (requestedSchool.length > 120) throw new HttpError(400, "School parameter is too long");
+    const registryEntry = resolveSchool(requestedSchool);
+    const schoolParam = registryEntry?.name ?? requestedSchool;
+    const weeks = Array.from({ length: endWeek - startWeek + 1 }, (_, i) => startWeek + i).filter(
+      (w) => includePostseason || w <= regularSeasonWeeksForSeason(season),
+    );
     const seasonSources = new Set<number>();
-    const series = await Promise.all(weeks.map(async (w) => {
-      const weekPromise = loadWeek({ season, week: w, format, includeDefense });
-      const averagesPromise: Promise<Record<string, number> | undefined> =
-        mode === "avg" && w > 1 ? computeHistoricalAverages(season, w, format) : Promise.resolve(undefined);
-      const [{ leaders, defenseData, playerStatsSource }, averages] = await Promise.all([weekPromise, averagesPromise]);
-      if (playerStatsSource?.seasonLoaded !== undefined) {
-        seasonSources.add(playerStatsSource.seasonLoaded);
-      }
-      const bySchool = await aggregateByCollegeMode(leaders, w, format, mode, averages, { includeK, defense, defenseData });
-      const match = bySchool.find((r) => r.school.toLowerCase() === schoolParam.toLowerCase());
-      return match ? { week: w, totalPoints: match.totalPoints, performers: match.performers } : { week: w, totalPoints: 0, performers: [] };
-    }));
+    const aggregates = await loadSeasonAggregates(
+      { season, format: rules, mode, includeK, defense, idp, lineup: lineupTemplate, averaging, allocation },
+      weeks,
+    );
+    const series = aggregates.map(({ week: w, rows, seasonLoaded }) => {
+      seasonSources.add(seasonLoaded);
+      const match = rows.find((r) => sameSchool(r.school, schoolParam));
+      const label = nflWeekLabel(season, w, { short: true });
+      const postseason = isPostseasonWeek(season, w);
+      return match
+        ? { week: w, label, postseason, totalPoints: match.totalPoints, performers: match.performers }
+        : { week: w, label, postseason, totalPoints: 0, performers: [] };
+    });
     const seasonLoadedCandidates = Array.from(seasonSources);
     const seasonLoaded = seasonLoadedCandidates.length === 1 ? seasonLoadedCandidates[0] : undefined;
-    return NextResponse.json({ school: schoolParam, season, seasonLoaded: seasonLoaded ?? season, format, mode, includeK, defense, series });
+    return NextResponse.json({
+      school: schoolParam,
+      schoolId: registryEntry?.id ?? null,
+      conference: registryEntry ? conferenceFor(registryEntry, season) : null,
+      season,
+      seasonLoaded: seasonLoaded ?? season,
+      format,
+      scoring: rules,
+      lineup,
+      lineupSlots: lineupTemplate.slots,
+      mode,
+      avgWindow,
+      allocation,
+      includeK,
+      defense,
+      idp,
+      includePostseason,
+      series,
+    });
   } catch (error) {
     return respondWithError(`GET /api/school/${params.school ?? ""}`, error, { input });
   }
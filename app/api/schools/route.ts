@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { parseIntegerParam, parseStringParam, respondWithError } from "@/lib/api";
+import {
+  conferenceFor,
+  listSchools,
+  registryKey,
+  SCHOOL_LEVELS,
+  SCHOOL_REGISTRY_VERSION,
+} from "@/lib/schoolRegistry";
+import { lastCompletedNflWeek } from "@/utils/nflWeek";
+
+export const runtime = "nodejs";
+export const revalidate = 86400;
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const input: Record<string, unknown> = {
+    query: Object.fromEntries(url.searchParams.entries()),
+  };
+  try {
+    const defaults = lastCompletedNflWeek();
+    const season = parseIntegerParam(url, "season", defaults.season, { min: 1900, max: 2100 });
+    const conference = parseStringParam(url, "conference", "", { maxLength: 40 });
+    const level = parseStringParam(url, "level", "", { maxLength: 10, allowed: SCHOOL_LEVELS });
+    const query = parseStringParam(url, "q", "", { maxLength: 80 });
+    Object.assign(input, { season, conference, level, q: query });
+
+    const queryKey = registryKey(query);
+    const schools = listSchools()
+      .map((school) => ({ ...school, conference: conferenceFor(school, season) }))
+      .filter((school) => !conference || registryKey(school.conference) === registryKey(conference))
+      .filter((school) => !level || school.level === level)
+      .filter(
+        (school) =>
+          !queryKey ||
+          [school.name, school.mascot, ...school.aliases].some((value) => registryKey(value).includes(queryKey)),
+      );
+
+    return NextResponse.json({ version: SCHOOL_REGISTRY_VERSION, season, count: schools.length, schools });
+  } catch (error) {
+    return respondWithError("GET /api/schools", error, { input });
+  }
+}
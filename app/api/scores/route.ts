@@ -1,16 +1,21 @@
 
 import { NextResponse } from "next/server";
-import { aggregateByCollegeMode } from "@/lib/scoring";
-import { loadWeek, computeHistoricalAverages } from "@/lib/nflverse";
+import { loadWeekAggregates } from "@/lib/seasonAggregates";
 import {
   HttpError,
   parseBooleanParam,
   parseEnumParam,
   parseIntegerParam,
-  parseStringParam,
   respondWithError,
 } from "@/lib/api";
-import { lastCompletedNflWeek } from "@/utils/nflWeek";
+import { parseCollegeAllocationParam } from "@/lib/collegeAllocation";
+import { aggregateByConference, parseConferenceScoringParams } from "@/lib/conferences";
+import { parseDefenseParams } from "@/lib/idp";
+import { parseLineupParam } from "@/lib/lineups";
+import { schoolSlug } from "@/lib/schoolRegistry";
+import { parseScoringParams } from "@/lib/scoringRules";
+import { averagingWindowKey, parseAveragingParam } from "@/lib/seasonAverages";
+import { isPostseasonWeek, lastCompletedNflWeek, nflWeekLabel } from "@/utils/nflWeek";
 
 export const runtime = "nodejs";
 export const revalidate = Number(process.env.CACHE_SECONDS ?? 3600);
@@ -56,37 +61,61 @@ export async function GET(req: Request) {
         });
       }
     }
-    const format = parseStringParam(url, "format", "ppr", { maxLength: 32, toLowerCase: true });
+    const { format, rules } = parseScoringParams(url);
+    const lineupTemplate = parseLineupParam(url);
+    const lineup = lineupTemplate.name;
     const mode = parseEnumParam(url, "mode", ["weekly", "avg"] as const, "weekly");
+    const averaging = parseAveragingParam(url);
+    const avgWindow = averagingWindowKey(averaging);
+    const allocation = parseCollegeAllocationParam(url);
     const includeK = parseBooleanParam(url, "includeK", true);
-    const defense = parseEnumParam(url, "defense", ["none", "approx"] as const, "approx");
+    const { defense, idp } = parseDefenseParams(url);
+    const groupBy = parseEnumParam(url, "groupBy", ["school", "conference"] as const, "school");
+    const conferenceScoring = groupBy === "conference" ? parseConferenceScoringParams(url) : undefined;
     Object.assign(input, {
       computedDefaults: computed,
       season,
       week,
       format,
+      lineup,
       mode,
+      avgWindow,
+      allocation,
       includeK,
       defense,
+      idp,
+      groupBy,
+      conferenceScoring,
     });
-    const includeDefense = defense === "approx";
-    const weekPromise = loadWeek({ season, week, format, includeDefense });
-    const averagesPromise: Promise<Record<string, number> | undefined> =
-      mode === "avg" && week > 1 ? computeHistoricalAverages(season, week, format) : Promise.resolve(undefined);
-    const [{ leaders, defenseData, playerStatsSource }, averages] = await Promise.all([weekPromise, averagesPromise]);
-    const bySchool = await aggregateByCollegeMode(leaders, week, format, mode, averages, { includeK, defense, defenseData });
+    const { rows: bySchool, playerStatsSource, revision } = await loadWeekAggregates(
+      { season, format: rules, mode, includeK, defense, idp, lineup: lineupTemplate, averaging, allocation },
+      week,
+    );
+    const byConference = conferenceScoring ? aggregateByConference(bySchool, season, conferenceScoring) : null;
     return NextResponse.json({
       season,
       week,
+      weekLabel: nflWeekLabel(season, week),
+      postseason: isPostseasonWeek(season, week),
       seasonLoaded: playerStatsSource?.seasonLoaded ?? season,
+      revision,
       format,
+      scoring: rules,
+      lineup,
+      lineupSlots: lineupTemplate.slots,
       mode,
+      avgWindow,
+      allocation,
       includeK,
       defense,
+      idp,
       defaults: { season: computed.season, week: computed.week },
       playerStatsSource,
       count: bySchool.length,
-      results: bySchool,
+      results: bySchool.map((row) => ({ ...row, slug: schoolSlug(row.school) })),
+      ...(byConference
+        ? { conferenceScoring, conferences: byConference.rows, unassignedSchools: byConference.unassigned }
+        : {}),
     });
   } catch (error) {
     return respondWithError("GET /api/scores", error, { input });
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { loadAllPlayStandings } from "@/lib/seasonSummary";
+import { parseBooleanParam, parseIntegerParam, respondWithError } from "@/lib/api";
+import { parseDefenseParams } from "@/lib/idp";
+import { parseScoringParams } from "@/lib/scoringRules";
+import { lastCompletedNflWeek } from "@/utils/nflWeek";
+
+export const runtime = "nodejs";
+export const revalidate = Number(process.env.CACHE_SECONDS ?? 3600);
+
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const input: Record<string, unknown> = {
+    query: Object.fromEntries(url.searchParams.entries()),
+  };
+  try {
+    const season = parseIntegerParam(url, "season", lastCompletedNflWeek().season, { min: 1900, max: 2100 });
+    const { format, rules } = parseScoringParams(url);
+    const includeK = parseBooleanParam(url, "includeK", true);
+    const { defense, idp } = parseDefenseParams(url);
+    const includePostseason = parseBooleanParam(url, "includePostseason", true);
+    Object.assign(input, { season, format, includeK, defense, idp, includePostseason });
+    const standings = await loadAllPlayStandings({ season, format: rules, includeK, defense, idp, includePostseason });
+    return NextResponse.json(standings);
+  } catch (error) {
+    return respondWithError("GET /api/standings/all-play", error, { input });
+  }
+}
@@ -1,18 +1,74 @@
-
 import { NextResponse } from "next/server";
-import { loadRecords, computeStandings } from "@/lib/league";
-import { respondWithError } from "@/lib/api";
+import { loadRecords, computeStandings, dedupeRecords, getLeague, type League } from "@/lib/league";
+import { resolveLeagueGames } from "@/lib/leagueResolver";
+import { parseBooleanParam, parseRequiredString, parseStringParam, requireAdmin, respondWithError } from "@/lib/api";
 
 export const runtime = "nodejs";
 export const revalidate = 0;
 
-export async function GET() {
-  const input: Record<string, unknown> = {};
+const leagueSummary = (league: League) => ({
+  id: league.id,
+  name: league.name,
+  season: league.season,
+  format: league.format,
+  mode: league.mode,
+  lineup: league.lineup,
+  scheduleType: league.scheduleType,
+});
+
+/** Standings from the recorded games only; recording new results is the admin `POST`. */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const input: Record<string, unknown> = {
+    query: Object.fromEntries(url.searchParams.entries()),
+  };
   try {
-    const records = await loadRecords();
-    const standings = computeStandings(records);
-    return NextResponse.json({ recordsCount: records.length, standings });
+    const leagueId = parseStringParam(url, "league", "", { maxLength: 64, toLowerCase: true });
+    if (!leagueId) {
+      const records = dedupeRecords(await loadRecords()).filter((record) => !record.league);
+      const standings = computeStandings(records);
+      return NextResponse.json({ recordsCount: records.length, standings });
+    }
+    input.league = leagueId;
+    const league = await getLeague(leagueId);
+    const records = dedupeRecords(await loadRecords()).filter((record) => record.league === league.id);
+    return NextResponse.json({
+      league: leagueSummary(league),
+      recordsCount: records.length,
+      standings: computeStandings(records, league.schools),
+    });
   } catch (error) {
     return respondWithError("GET /api/standings", error, { input });
   }
 }
+
+/**
+ * Scores and records every final, unrecorded game of `league`, then returns
+ * its standings. `rescore=true` re-scores recorded games too (after nflverse
+ * stat corrections); changed results are written to the audit trail.
+ */
+export async function POST(req: Request) {
+  const url = new URL(req.url);
+  if (!requireAdmin(req, url)) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+  const input: Record<string, unknown> = {};
+  try {
+    const leagueId = parseRequiredString(url, "league", { maxLength: 64, toLowerCase: true });
+    const rescore = parseBooleanParam(url, "rescore", false);
+    Object.assign(input, { league: leagueId, rescore });
+    const league = await getLeague(leagueId);
+    const resolution = await resolveLeagueGames(league, { rescore });
+    return NextResponse.json({
+      league: leagueSummary(league),
+      recordsCount: resolution.records.length,
+      resolvedWeeks: resolution.resolvedWeeks,
+      pendingWeeks: resolution.pendingWeeks,
+      newRecords: resolution.newRecords,
+      corrections: resolution.corrections,
+      standings: computeStandings(resolution.records, league.schools),
+    });
+  } catch (error) {
+    return respondWithError("POST /api/standings", error, { input });
+  }
+}
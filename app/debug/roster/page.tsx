@@ -1,7 +1,140 @@
 "use client";
 import { useEffect, useState } from "react";
+import { fetchJson, friendlyErrorMessage } from "@/lib/clientFetch";
 import { fetchRoster, RosterRow } from "@/utils/fetchRoster";
 
+type Diagnostic = {
+  player_id: string;
+  name: string;
+  team?: string;
+  position: string;
+  points: number;
+  weeks: number[];
+  reason: "unresolved" | "name-only" | "unregistered-school";
+  college: string;
+  source: string | null;
+  tried: string[];
+};
+
+type DiagnosticsResponse = {
+  season: number;
+  weeks: number[];
+  count: number;
+  byReason: Record<string, number>;
+  failedWeeks: { week: number; error: string }[];
+  diagnostics: Diagnostic[];
+};
+
+const REASONS = ["", "unresolved", "name-only", "unregistered-school"] as const;
+
+function CollegeTriage() {
+  const [token, setToken] = useState("");
+  const [season, setSeason] = useState(2025);
+  const [reason, setReason] = useState<(typeof REASONS)[number]>("");
+  const [data, setData] = useState<DiagnosticsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState("");
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState<Record<string, string>>({});
+
+  const load = async () => {
+    setLoading(true);
+    setErr("");
+    try {
+      const params = new URLSearchParams({ season: String(season), limit: "200" });
+      if (reason) params.set("reasons", reason);
+      const result = await fetchJson<DiagnosticsResponse>(`/api/admin/college-diagnostics?${params}`, {
+        headers: { "x-admin-token": token },
+        cache: "no-store",
+      });
+      setData(result);
+    } catch (error) {
+      setErr(friendlyErrorMessage(error, "Failed to load college diagnostics"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createOverride = async (row: Diagnostic) => {
+    const college = drafts[row.player_id]?.trim();
+    if (!college) return;
+    try {
+      const result = await fetchJson<{ action: string; override: { college: string } }>("/api/admin/college-overrides", {
+        method: "POST",
+        headers: { "content-type": "application/json", "x-admin-token": token },
+        body: JSON.stringify({ gsisId: row.player_id, college, note: `triage: ${row.reason}`, actor: "debug/roster" }),
+      });
+      setSaved((current) => ({ ...current, [row.player_id]: `${result.action}: ${result.override.college}` }));
+    } catch (error) {
+      setSaved((current) => ({ ...current, [row.player_id]: friendlyErrorMessage(error, "Override failed") }));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-xl font-bold">Unresolved colleges</h2>
+      <div className="flex gap-2 items-center text-sm">
+        <input type="password" placeholder="Admin token" value={token} onChange={e => setToken(e.target.value)} />
+        <input type="number" value={season} onChange={e => setSeason(Number(e.target.value))} style={{ width: 80 }} />
+        <select value={reason} onChange={e => setReason(e.target.value as (typeof REASONS)[number])}>
+          {REASONS.map(value => <option key={value} value={value}>{value || "unresolved + name-only"}</option>)}
+        </select>
+        <button className="btn" onClick={load} disabled={!token || loading}>{loading ? "Loading…" : "Load"}</button>
+      </div>
+      {err && <div className="text-red-600">Error: {err}</div>}
+      {data && (
+        <>
+          <div className="text-sm">
+            Weeks {data.weeks[0]}–{data.weeks[data.weeks.length - 1]} · {data.count} players
+            {Object.entries(data.byReason).map(([key, count]) => ` · ${key}: ${count}`).join("")}
+            {data.failedWeeks.length ? ` · failed weeks: ${data.failedWeeks.map(w => w.week).join(", ")}` : ""}
+          </div>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr>
+                <th className="text-left">Player</th><th className="text-left">Team</th><th className="text-left">Pos</th>
+                <th className="text-right">Points</th><th className="text-right">Weeks</th><th className="text-left">Reason</th>
+                <th className="text-left">College</th><th className="text-left">Tried</th><th className="text-left">Override</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.diagnostics.map(row => (
+                <tr key={`${row.player_id}-${row.reason}`}>
+                  <td>{row.name} <span className="text-xs">{row.player_id}</span></td>
+                  <td>{row.team ?? "—"}</td>
+                  <td>{row.position}</td>
+                  <td className="text-right">{row.points.toFixed(1)}</td>
+                  <td className="text-right">{row.weeks.length}</td>
+                  <td>{row.reason}</td>
+                  <td>
+                    {row.college}{row.source ? <span className="text-xs"> ({row.source})</span> : null}
+                    {row.reason === "unregistered-school" ? (
+                      <div className="text-xs">Not in data/schools.json: add it (or an alias), or override to the right school.</div>
+                    ) : null}
+                  </td>
+                  <td className="text-xs">{row.tried.join(" → ")}</td>
+                  <td>
+                    {saved[row.player_id] ?? (
+                      <span className="flex gap-1">
+                        <input
+                          placeholder="College"
+                          value={drafts[row.player_id] ?? ""}
+                          onChange={e => setDrafts(current => ({ ...current, [row.player_id]: e.target.value }))}
+                        />
+                        <button className="btn" onClick={() => createOverride(row)} disabled={!drafts[row.player_id]?.trim()}>Save</button>
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
+
 export default function DebugRoster() {
   const [rows, setRows] = useState<RosterRow[]>([]);
   const [err, setErr] = useState<string>("");
@@ -10,22 +143,28 @@ export default function DebugRoster() {
     fetchRoster(2025).then(setRows).catch(e => setErr(String(e)));
   }, []);
 
-  if (err) return <div className="p-4 text-red-600">Error: {err}</div>;
-  if (!rows.length) return <div className="p-4">Loading…</div>;
-
   const withCollege = rows.filter(r => r.college);
   return (
     <div className="p-4 space-y-4">
+      <CollegeTriage />
       <h1 className="text-2xl font-bold">Roster Debug (2025)</h1>
-      <div>Rows: {rows.length} · With college: {withCollege.length}</div>
-      <table className="min-w-full text-sm">
-        <thead><tr><th className="text-left">Name</th><th className="text-left">Team</th><th className="text-left">College</th></tr></thead>
-        <tbody>
-          {rows.slice(0,200).map((r,i)=>(
-            <tr key={i}><td>{r.name}</td><td>{r.team}</td><td>{r.college || <span className="text-red-600">Unknown</span>}</td></tr>
-          ))}
-        </tbody>
-      </table>
+      {err ? (
+        <div className="text-red-600">Error: {err}</div>
+      ) : !rows.length ? (
+        <div>Loading…</div>
+      ) : (
+        <>
+          <div>Rows: {rows.length} · With college: {withCollege.length}</div>
+          <table className="min-w-full text-sm">
+            <thead><tr><th className="text-left">Name</th><th className="text-left">Team</th><th className="text-left">College</th></tr></thead>
+            <tbody>
+              {rows.slice(0,200).map((r,i)=>(
+                <tr key={i}><td>{r.name}</td><td>{r.team}</td><td>{r.college || <span className="text-red-600">Unknown</span>}</td></tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
     </div>
   );
 }
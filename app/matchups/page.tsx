@@ -2,14 +2,18 @@
 'use client';
 import { useState } from "react";
 import { fetchJson, friendlyErrorMessage } from "@/lib/clientFetch";
+import { MAX_NFL_WEEK, nflWeekLabel } from "@/utils/nflWeek";
 import { useDefenseStatus } from "@/utils/useDefenseStatus";
 type Performer = { name:string; position:string; team?:string; points:number; meta?:any };
-type MatchResp = { season:number; week:number; format:string; mode:'weekly'|'avg'; includeK:boolean; defense:'none'|'approx';
-  home:string; away:string; homePoints:number; awayPoints:number; winner:'home'|'away'|'tie'; homeLineup:Performer[]; awayLineup:Performer[] };
+type MatchResp = { season:number; week:number; format:string; mode:'weekly'|'avg'; includeK:boolean; defense:'none'|'approx'|'idp';
+  home:string; away:string; homePoints:number; awayPoints:number; winner:'home'|'away'|'tie'; homeLineup:Performer[]; awayLineup:Performer[];
+  scope:'school'|'conference'; homeSchools?:SchoolScore[]; awaySchools?:SchoolScore[] };
+type SchoolScore = { school:string; totalPoints:number };
 export default function MatchupsPage() {
   const [season,setSeason]=useState("2025"); const [week,setWeek]=useState("2"); const [format,setFormat]=useState("ppr");
-  const [mode,setMode]=useState<"weekly"|"avg">("weekly"); const [includeK,setIncludeK]=useState(true); const [defense,setDefense]=useState<'none'|'approx'>('approx');
+  const [mode,setMode]=useState<"weekly"|"avg">("weekly"); const [includeK,setIncludeK]=useState(true); const [defense,setDefense]=useState<'none'|'approx'|'idp'>('approx');
   const [home,setHome]=useState("Michigan"); const [away,setAway]=useState("Oklahoma"); const [record,setRecord]=useState(false);
+  const [scope,setScope]=useState<'school'|'conference'>('school');
   const [data,setData]=useState<MatchResp|null>(null); const [loading,setLoading]=useState(false); const [error,setError]=useState<string|null>(null);
 
   const parsedSeason = Number.parseInt(season, 10);
@@ -33,7 +37,7 @@ export default function MatchupsPage() {
   const simulate = async () => {
     try {
       setLoading(true); setError(null);
-      const q = new URLSearchParams({ season, week, format, mode, includeK: String(includeK), defense, home, away, record: String(record) }).toString();
+      const q = new URLSearchParams({ season, week, format, mode, includeK: String(includeK), defense, home, away, scope, record: String(scope === 'school' && record) }).toString();
       const response = await fetchJson<MatchResp>(`/api/matchup?${q}`);
       if (response && typeof response === "object" && "error" in response) {
         const message = typeof (response as { error?: unknown }).error === "string"
@@ -53,14 +57,15 @@ export default function MatchupsPage() {
     <h2>Simulate Alumni Matchup</h2>
     <div style={{ display:'grid', gridTemplateColumns:'repeat(auto-fit,minmax(180px,1fr))', gap:12, margin:'12px 0' }}>
       <label>Season <input type="number" value={season} onChange={e=>setSeason(e.target.value)} style={{ marginLeft:8, width:100 }}/></label>
-      <label>Week <input type="number" min={1} max={18} value={week} onChange={e=>setWeek(e.target.value)} style={{ marginLeft:8, width:80 }}/></label>
+      <label>Week <input type="number" min={1} max={MAX_NFL_WEEK} value={week} onChange={e=>setWeek(e.target.value)} style={{ marginLeft:8, width:80 }}/></label>
       <label>Format <select value={format} onChange={e=>setFormat(e.target.value)} style={{ marginLeft:8 }}><option value="ppr">PPR</option><option value="half-ppr">Half-PPR</option><option value="standard">Standard</option></select></label>
       <label>Selection Mode <select value={mode} onChange={e=>setMode(e.target.value as any)} style={{ marginLeft:8 }}><option value="weekly">Weekly best</option><option value="avg">Manager (avg to date)</option></select></label>
       <label>Include K <input type="checkbox" checked={includeK} onChange={e=>setIncludeK(e.target.checked)} style={{ marginLeft:8 }}/></label>
-      <label>Defense <select value={defense} onChange={e=>setDefense(e.target.value as any)} style={{ marginLeft:8 }}><option value="none">None</option><option value="approx">Approx (snap share)</option></select></label>
+      <label>Defense <select value={defense} onChange={e=>setDefense(e.target.value as any)} style={{ marginLeft:8 }}><option value="none">None</option><option value="approx">Approx (snap share)</option><option value="idp">IDP (DL/LB/DB)</option></select></label>
+      <label>Scope <select value={scope} onChange={e=>setScope(e.target.value as any)} style={{ marginLeft:8 }}><option value="school">School vs School</option><option value="conference">Conference vs Conference</option></select></label>
       <label>Home <input value={home} onChange={e=>setHome(e.target.value)} style={{ marginLeft:8 }}/></label>
       <label>Away <input value={away} onChange={e=>setAway(e.target.value)} style={{ marginLeft:8 }}/></label>
-      <label><input type="checkbox" checked={record} onChange={e=>setRecord(e.target.checked)} /> Record result</label>
+      <label><input type="checkbox" checked={record} disabled={scope === 'conference'} onChange={e=>setRecord(e.target.checked)} /> Record result</label>
       <button className="btn" onClick={simulate}>Simulate</button>
     </div>
     {defense === 'approx' && defenseStatus.message && (
@@ -71,13 +76,17 @@ export default function MatchupsPage() {
     {loading && <div>Simulating…</div>}
     {error && <div style={{ color:'salmon' }}><b>Error:</b> {error}</div>}
     {data && (<div style={{ marginTop:16 }}>
-      <h3>{data.home} vs {data.away} — Week {data.week} ({data.format.toUpperCase()}, {data.mode}{data.includeK?', K':''}{data.defense!=='none'?', DEF':''})</h3>
+      <h3>{data.home} vs {data.away} — {nflWeekLabel(data.season, data.week)} ({data.format.toUpperCase()}, {data.mode}{data.includeK?', K':''}{data.defense==='approx'?', DEF':data.defense==='idp'?', IDP':''})</h3>
       <div style={{ display:'grid', gridTemplateColumns:'1fr 1fr', gap:16 }}>
         <div className="card"><h4>{data.home}</h4><div className="badge">{data.homePoints.toFixed(1)} pts</div>
-          <ul>{data.homeLineup.map((p:any, idx:number)=>(<li key={idx}>{renderPerf(p)}</li>))}</ul>
+          <ul>{data.homeSchools
+            ? data.homeSchools.map((row)=>(<li key={row.school}>{row.school} — {row.totalPoints.toFixed(1)}</li>))
+            : data.homeLineup.map((p:any, idx:number)=>(<li key={idx}>{renderPerf(p)}</li>))}</ul>
         </div>
         <div className="card"><h4>{data.away}</h4><div className="badge">{data.awayPoints.toFixed(1)} pts</div>
-          <ul>{data.awayLineup.map((p:any, idx:number)=>(<li key={idx}>{renderPerf(p)}</li>))}</ul>
+          <ul>{data.awaySchools
+            ? data.awaySchools.map((row)=>(<li key={row.school}>{row.school} — {row.totalPoints.toFixed(1)}</li>))
+            : data.awayLineup.map((p:any, idx:number)=>(<li key={idx}>{renderPerf(p)}</li>))}</ul>
         </div>
       </div>
       <h3 style={{ marginTop:12 }}>Result: {data.winner==='tie' ? 'Tie' : (data.winner==='home' ? data.home : data.away) + ' wins'}</h3>
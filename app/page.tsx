@@ -1,8 +1,11 @@
 import Image from "next/image";
 import Link from "next/link";
 import { loadSeasonSummary } from "@/lib/seasonSummary";
-import { DefenseUnavailableError, fetchDefenseApprox } from "@/lib/defense";
+import { DefenseUnavailableError } from "@/lib/defense";
+import { loadTeamDefenseWeek } from "@/lib/defenseData";
+import { schoolSlug } from "@/lib/schoolRegistry";
 import { affiliateAds } from "@/data/affiliateAds";
+import { nflWeekLabel } from "@/utils/nflWeek";
 
 const DEFAULT_SEASON = 2025;
 const DEFAULT_FORMAT = "ppr";
@@ -42,13 +45,14 @@ export default async function HomePage() {
   }
 
   try {
-    const defense = await fetchDefenseApprox({ season: DEFAULT_SEASON });
+    const defense = await loadTeamDefenseWeek(DEFAULT_SEASON);
     if (defense.rows.length === 0) {
       defenseBanner = "Defense stats not posted yet; check back later.";
     } else if (defense.rows.every((row) => Number(row.score) === 0)) {
-      console.warn("[home] Defense approx returned zero scores", {
+      console.warn("[home] Team defense returned zero scores", {
         season: DEFAULT_SEASON,
         week: defense.week,
+        mode: defense.mode,
       });
     }
   } catch (err) {
@@ -60,7 +64,7 @@ export default async function HomePage() {
   }
 
   const lastWeekLabel = summary && summary.lastCompletedWeek > 0
-    ? `Week ${summary.lastCompletedWeek} Points`
+    ? `${nflWeekLabel(summary.season, summary.lastCompletedWeek)} Points`
     : "Last Week Points";
 
   const seasonTitle = summary
@@ -68,7 +72,7 @@ export default async function HomePage() {
     : `Season Leaders — ${DEFAULT_SEASON} (${DEFAULT_FORMAT.toUpperCase()} + DEF)`;
 
   const weekDescription = summary?.lastCompletedWeek
-    ? `Totals reflect weekly best lineups through Week ${summary.lastCompletedWeek}.`
+    ? `Totals reflect weekly best lineups through ${nflWeekLabel(summary.season, summary.lastCompletedWeek)}.`
     : "Totals update as soon as weekly stat releases drop.";
 
   return (
@@ -81,6 +85,7 @@ export default async function HomePage() {
             <Link className="btn" href="/rankings">Rankings</Link>
             <Link className="btn" href="/matchups">Simulate Matchups</Link>
             <Link className="btn" href="/standings">Standings</Link>
+            <Link className="btn" href="/playoffs">Playoffs</Link>
             <Link className="btn" href="/about">About</Link>
           </div>
         </div>
@@ -158,7 +163,7 @@ export default async function HomePage() {
                   <tr key={row.school}>
                     <td>#{index + 1}</td>
                     <td>
-                      <Link href={`/schools/${encodeURIComponent(row.school)}`}>
+                      <Link href={`/schools/${schoolSlug(row.school)}`}>
                         {row.school}
                       </Link>
                     </td>
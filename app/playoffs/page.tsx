@@ -0,0 +1,73 @@
+'use client';
+import { useState } from "react";
+import { fetchJson, friendlyErrorMessage } from "@/lib/clientFetch";
+type Seed = { seed:number; school:string; wins:number; losses:number; ties:number; pointsFor:number; pointsAgainst:number; division?:string; divisionWinner?:boolean };
+type Game = { id:string; round:number; week:number; home:Seed|null; away:Seed|null; homePoints?:number; awayPoints?:number; winner:Seed|null; status:'bye'|'scheduled'|'pending'|'final' };
+type Round = { round:number; week:number; name:string; games:Game[] };
+type Api = { league:{ id:string; name:string; season:number; format:string; mode:string }; teams:number; tiebreakers:string[]; seeds:Seed[]; rounds:Round[]; champion:Seed|null };
+export default function PlayoffsPage() {
+  const [league,setLeague]=useState(""); const [teams,setTeams]=useState("");
+  const [data,setData]=useState<Api|null>(null); const [loading,setLoading]=useState(false); const [error,setError]=useState<string|null>(null);
+
+  const load = async () => {
+    try {
+      setLoading(true); setError(null);
+      const params = new URLSearchParams({ league: league.trim() });
+      if (teams.trim()) params.set("teams", teams.trim());
+      const response = await fetchJson<Api>(`/api/playoffs?${params.toString()}`);
+      if (response && typeof response === "object" && "error" in response) {
+        const message = typeof (response as { error?: unknown }).error === "string"
+          ? String((response as { error?: unknown }).error)
+          : "Unable to load playoffs";
+        throw new Error(message);
+      }
+      setData(response);
+    } catch (e) {
+      console.error("Failed to load playoffs", e);
+      setData(null);
+      setError(friendlyErrorMessage(e, "Unable to load playoffs"));
+    } finally { setLoading(false); }
+  };
+
+  const renderSide = (game:Game, side:'home'|'away') => {
+    const team = game[side];
+    const points = side === 'home' ? game.homePoints : game.awayPoints;
+    if (!team) return <div style={{ color:'#64748b' }}>{game.status === 'bye' ? 'BYE' : 'TBD'}</div>;
+    const won = game.winner?.school === team.school && game.status === 'final';
+    return (<div style={{ display:'flex', justifyContent:'space-between', fontWeight: won ? 700 : 400 }}>
+      <span>({team.seed}) {team.school}</span><span>{points !== undefined ? points.toFixed(1) : ''}</span>
+    </div>);
+  };
+
+  return (<div className="card">
+    <h2>Playoffs</h2>
+    <div style={{ display:'grid', gridTemplateColumns:'repeat(auto-fit,minmax(180px,1fr))', gap:12, margin:'12px 0' }}>
+      <label>League <input value={league} onChange={e=>setLeague(e.target.value)} placeholder="league id" style={{ marginLeft:8 }}/></label>
+      <label>Teams <input type="number" min={2} max={8} value={teams} onChange={e=>setTeams(e.target.value)} placeholder="default" style={{ marginLeft:8, width:80 }}/></label>
+      <button className="btn" onClick={load} disabled={!league.trim()}>Load Bracket</button>
+    </div>
+    {loading && <div>Loading bracket…</div>}
+    {error && <div style={{ color:'salmon' }}><b>Error:</b> {error}</div>}
+    {data && (<div style={{ marginTop:16 }}>
+      <h3>{data.league.name} — {data.league.season} ({data.league.format.toUpperCase()}, {data.league.mode})</h3>
+      <div className="badge">Tiebreakers: {data.tiebreakers.join(' → ') || 'none'}</div>
+      {data.champion && <div className="badge" style={{ marginLeft:8 }}>Champion: {data.champion.school}</div>}
+      <div style={{ display:'grid', gridTemplateColumns:`repeat(${data.rounds.length},minmax(200px,1fr))`, gap:16, marginTop:16, overflowX:'auto' }}>
+        {data.rounds.map(round=>(<div key={round.round}>
+          <h4>{round.name} <span style={{ color:'#94a3b8', fontWeight:400 }}>Week {round.week}</span></h4>
+          {round.games.map(game=>(<div key={game.id} className="card" style={{ marginBottom:8 }}>
+            {renderSide(game,'home')}{renderSide(game,'away')}
+            <div style={{ color:'#94a3b8', fontSize:12, marginTop:4 }}>{game.status}</div>
+          </div>))}
+        </div>))}
+      </div>
+      <h3 style={{ marginTop:16 }}>Seeding</h3>
+      <div style={{ overflowX:'auto' }}><table style={{ width:'100%', borderCollapse:'collapse' }}>
+        <thead><tr><th>Seed</th><th style={{textAlign:'left'}}>School</th><th>W</th><th>L</th><th>T</th><th style={{textAlign:'right'}}>PF</th><th style={{textAlign:'left'}}>Division</th></tr></thead>
+        <tbody>{data.seeds.map(row=>(<tr key={row.school} style={{ borderTop:'1px solid #1e293b', opacity: row.seed > data.teams ? 0.5 : 1 }}>
+          <td>{row.seed}</td><td>{row.school}</td><td>{row.wins}</td><td>{row.losses}</td><td>{row.ties}</td><td style={{textAlign:'right'}}>{row.pointsFor.toFixed(1)}</td><td>{row.division ? `${row.division}${row.divisionWinner ? ' ★' : ''}` : ''}</td>
+        </tr>))}</tbody>
+      </table></div>
+    </div>)}
+  </div>);
+}
@@ -3,13 +3,19 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import { fetchJson, friendlyErrorMessage } from "@/lib/clientFetch";
+import { MAX_NFL_WEEK } from "@/utils/nflWeek";
 import { useDefenseStatus } from "@/utils/useDefenseStatus";
 type Performer = { name:string; position:string; team?:string; points:number; college?:string|null; meta?:any };
-type Row = { school:string; totalPoints:number; performers:Performer[] };
-type Api = { season:number; week:number; format:string; mode:'weekly'|'avg'; includeK:boolean; defense:'none'|'approx'; count:number; results: Row[] };
+type Row = { school:string; slug:string; totalPoints:number; performers:Performer[] };
+type ConferenceRow = { conference:string; totalPoints:number; schoolCount:number; schools:{ school:string; totalPoints:number }[] };
+type ConferenceMethod = 'sum'|'average'|'best-n';
+type Api = { season:number; week:number; weekLabel?:string; format:string; mode:'weekly'|'avg'; includeK:boolean; defense:'none'|'approx'; count:number; results: Row[];
+  conferences?: ConferenceRow[]; unassignedSchools?: string[] };
+type Tab = 'schools'|'conferences';
 export default function RankingsPage() {
   const [season,setSeason]=useState("2025"), [week,setWeek]=useState("1"), [format,setFormat]=useState("ppr");
   const [mode,setMode]=useState<"weekly"|"avg">("weekly");
+  const [tab,setTab]=useState<Tab>('schools'), [method,setMethod]=useState<ConferenceMethod>('sum'), [bestN,setBestN]=useState("5");
   const [data,setData]=useState<Api|null>(null), [loading,setLoading]=useState(false), [error,setError]=useState<string|null>(null);
   const parsedSeason = Number.parseInt(season, 10);
   const parsedInputWeek = Number.parseInt(week, 10);
@@ -25,7 +31,8 @@ export default function RankingsPage() {
     setLoading(true);
     setError(null);
     try {
-      const q = new URLSearchParams({ season, week, format, mode, includeK: String(true), defense: "approx" }).toString();
+      const q = new URLSearchParams({ season, week, format, mode, includeK: String(true), defense: "approx",
+        groupBy: "conference", conferenceScoring: method, bestN }).toString();
       const response = await fetchJson<Api>(`/api/scores?${q}`);
       if (response && typeof response === "object" && "error" in response) {
         const message = typeof (response as { error?: unknown }).error === "string"
@@ -44,12 +51,14 @@ export default function RankingsPage() {
   };
   // eslint-disable-next-line react-hooks/exhaustive-deps
   useEffect(()=>{ void load(); }, []);
-  return (<div className="card"><h2>Rankings — Week {data?.week ?? week} ({data?.format?.toUpperCase() ?? format.toUpperCase()} + DEF)</h2>
+  return (<div className="card"><h2>Rankings — {data?.weekLabel ?? `Week ${week}`} ({data?.format?.toUpperCase() ?? format.toUpperCase()} + DEF)</h2>
     <div style={{ display:'grid', gridTemplateColumns:'repeat(auto-fit,minmax(160px,1fr))', gap:12, margin:'12px 0' }}>
       <label>Season<input type="number" value={season} onChange={e=>setSeason(e.target.value)} style={{ marginLeft:8, width:100 }}/></label>
-      <label>Week<input type="number" min={1} max={18} value={week} onChange={e=>setWeek(e.target.value)} style={{ marginLeft:8, width:80 }}/></label>
+      <label>Week<input type="number" min={1} max={MAX_NFL_WEEK} value={week} onChange={e=>setWeek(e.target.value)} style={{ marginLeft:8, width:80 }}/></label>
       <label>Format<select value={format} onChange={e=>setFormat(e.target.value)} style={{ marginLeft:8 }}><option value="ppr">PPR</option><option value="half-ppr">Half-PPR</option><option value="standard">Standard</option></select></label>
       <label>Selection Mode<select value={mode} onChange={e=>setMode(e.target.value as any)} style={{ marginLeft:8 }}><option value="weekly">Weekly best</option><option value="avg">Manager (avg to date)</option></select></label>
+      <label>Conference Score<select value={method} onChange={e=>setMethod(e.target.value as ConferenceMethod)} style={{ marginLeft:8 }}><option value="sum">Sum</option><option value="average">Average per school</option><option value="best-n">Best N schools</option></select></label>
+      {method === 'best-n' && <label>N<input type="number" min={1} max={20} value={bestN} onChange={e=>setBestN(e.target.value)} style={{ marginLeft:8, width:60 }}/></label>}
       <button className="btn" onClick={load} disabled={loading}>Update</button>
       <Link className="btn" href="/schools">Browse All</Link>
     </div>
@@ -58,13 +67,24 @@ export default function RankingsPage() {
         Defense stats not posted yet; check back later.
       </div>
     )}
+    <div style={{ display:'flex', gap:8, margin:'8px 0' }}>
+      <button className="btn" onClick={()=>setTab('schools')} style={{ opacity: tab==='schools' ? 1 : 0.6 }}>Schools</button>
+      <button className="btn" onClick={()=>setTab('conferences')} style={{ opacity: tab==='conferences' ? 1 : 0.6 }}>Conferences</button>
+    </div>
     {loading && <div>Loading…</div>}{error && <div style={{color:'salmon'}}><b>Error:</b> {error}</div>}
-    <div style={{ overflowX:'auto', marginTop:12 }}><table style={{ width:'100%', borderCollapse:'collapse' }}>
+    {tab === 'conferences' ? (<div style={{ overflowX:'auto', marginTop:12 }}><table style={{ width:'100%', borderCollapse:'collapse' }}>
+      <thead><tr><th style={{textAlign:'left'}}>Rank</th><th style={{textAlign:'left'}}>Conference</th><th style={{textAlign:'right'}}>Points</th><th>Schools</th><th style={{textAlign:'left'}}>Counted</th></tr></thead>
+      <tbody>{data?.conferences?.map((row, idx)=>(<tr key={row.conference} style={{ borderTop:'1px solid #1e293b' }}>
+        <td>#{idx+1}</td><td>{row.conference}</td><td style={{ textAlign:'right' }}>{row.totalPoints.toFixed(1)}</td><td style={{ textAlign:'center' }}>{row.schoolCount}</td>
+        <td>{row.schools.slice(0,5).map((school)=>`${school.school} (${school.totalPoints.toFixed(1)})`).join(', ')}{row.schools.length > 5 ? ', …' : ''}</td>
+      </tr>))}</tbody></table>
+      {!!data?.unassignedSchools?.length && <p style={{ color:'#94a3b8' }} title={data.unassignedSchools.join(', ')}>{data.unassignedSchools.length} schools with alumni are not in the school registry and are left out.</p>}
+    </div>) : (<div style={{ overflowX:'auto', marginTop:12 }}><table style={{ width:'100%', borderCollapse:'collapse' }}>
       <thead><tr><th style={{textAlign:'left'}}>Rank</th><th style={{textAlign:'left'}}>School</th><th style={{textAlign:'right'}}>Points</th><th style={{textAlign:'left'}}>Top Performers</th></tr></thead>
       <tbody>{data?.results?.map((row, idx)=>(<tr key={row.school} style={{ borderTop:'1px solid #1e293b' }}>
-        <td>#{idx+1}</td><td><Link href={`/schools/${encodeURIComponent(row.school)}`}>{row.school}</Link></td>
+        <td>#{idx+1}</td><td><Link href={`/schools/${row.slug}`}>{row.school}</Link></td>
         <td style={{ textAlign:'right' }}>{row.totalPoints.toFixed(1)}</td>
         <td><ul>{row.performers.slice(0,3).map((p,i)=>(<li key={i}>{p.name} ({p.position}{p.team?`/${p.team}`:''}){p.college?` — ${p.college}`:''} — {p.points}</li>))}</ul></td>
-      </tr>))}</tbody></table></div>
+      </tr>))}</tbody></table></div>)}
   </div>);
 }
@@ -1,10 +1,21 @@
 import type { MetadataRoute } from "next";
 
+import { listSchools } from "@/lib/schoolRegistry";
 import { siteMetadata } from "@/lib/siteMetadata";
 
 export default function sitemap(): MetadataRoute.Sitemap {
   const baseUrl = siteMetadata.siteUrl.replace(/\/$/, "");
-  const routes = ["/", "/about", "/matchups", "/rankings", "/standings", "/schools", "/privacy"];
+  const routes = [
+    "/",
+    "/about",
+    "/matchups",
+    "/rankings",
+    "/standings",
+    "/playoffs",
+    "/schools",
+    "/privacy",
+    ...listSchools().map((school) => `/schools/${school.slug}`),
+  ];
 
   return routes.map((route) => ({
     url: `${baseUrl}${route === "/" ? "" : route}`,
@@ -1,24 +1,37 @@
-
 'use client';
 import { useEffect, useState } from "react";
 import { fetchJson, friendlyErrorMessage } from "@/lib/clientFetch";
-type Row = { school:string; wins:number; losses:number; ties:number; pointsFor:number; pointsAgainst:number };
+type Split = { wins:number; losses:number; ties:number };
+type Row = Split & { school:string; pointsFor:number; pointsAgainst:number; streak:string; lastFive:Split; home:Split; away:Split;
+  headToHead:Record<string,Split>; strengthOfSchedule:number; gamesBehind:number; allPlay:Split };
 type Api = { recordsCount:number; standings: Row[] };
+type AllPlayRow = { school:string; weeks:number; pointsFor:number; allPlay:Split; allPlayPct:number; median:Split; combinedPct:number };
+type AllPlayApi = { season:number; format:string; lastCompletedWeek:number; medians:{ week:number; median:number }[]; rows:AllPlayRow[] };
+type Tab = 'records'|'all-play';
+const fmtSplit = (split:Split) => `${split.wins}-${split.losses}${split.ties ? `-${split.ties}` : ''}`;
+
+async function loadJson<T>(url:string, fallback:string): Promise<T> {
+  const response = await fetchJson<T>(url);
+  if (response && typeof response === "object" && "error" in response) {
+    const message = typeof (response as { error?: unknown }).error === "string"
+      ? String((response as { error?: unknown }).error)
+      : fallback;
+    throw new Error(message);
+  }
+  return response;
+}
+
 export default function StandingsPage() {
+  const [tab,setTab]=useState<Tab>('records');
   const [data,setData]=useState<Api|null>(null), [loading,setLoading]=useState(true), [error,setError]=useState<string|null>(null);
+  const [allPlay,setAllPlay]=useState<AllPlayApi|null>(null), [allPlayLoading,setAllPlayLoading]=useState(false), [allPlayError,setAllPlayError]=useState<string|null>(null);
   useEffect(()=>{
     let cancelled = false;
     const load = async () => {
       setLoading(true);
       setError(null);
       try {
-        const response = await fetchJson<Api>("/api/standings");
-        if (response && typeof response === "object" && "error" in response) {
-          const message = typeof (response as { error?: unknown }).error === "string"
-            ? String((response as { error?: unknown }).error)
-            : "Unable to load standings";
-          throw new Error(message);
-        }
+        const response = await loadJson<Api>("/api/standings", "Unable to load standings");
         if (!cancelled) setData(response);
       } catch (e) {
         console.error("Failed to load standings", e);
@@ -33,13 +46,58 @@ export default function StandingsPage() {
     void load();
     return () => { cancelled = true; };
   }, []);
+  useEffect(()=>{
+    if (tab !== 'all-play' || allPlay || allPlayError) return;
+    let cancelled = false;
+    const load = async () => {
+      setAllPlayLoading(true);
+      try {
+        const response = await loadJson<AllPlayApi>("/api/standings/all-play", "Unable to load all-play standings");
+        if (!cancelled) setAllPlay(response);
+      } catch (e) {
+        console.error("Failed to load all-play standings", e);
+        if (!cancelled) setAllPlayError(friendlyErrorMessage(e, "Unable to load all-play standings"));
+      } finally {
+        if (!cancelled) setAllPlayLoading(false);
+      }
+    };
+    void load();
+    return () => { cancelled = true; };
+  }, [tab, allPlay, allPlayError]);
+
+  const tabs = (<div style={{ display:'flex', gap:8, margin:'8px 0' }}>
+    <button className="btn" onClick={()=>setTab('records')} style={{ opacity: tab==='records' ? 1 : 0.6 }}>Head-to-Head</button>
+    <button className="btn" onClick={()=>setTab('all-play')} style={{ opacity: tab==='all-play' ? 1 : 0.6 }}>All-Play</button>
+  </div>);
+
+  if (tab === 'all-play') {
+    return (<div className="card"><h2>Standings</h2>{tabs}
+      {allPlayLoading && <div>Loading all-play standings…</div>}
+      {allPlayError && <div style={{ color:'salmon' }}><b>Error:</b> {allPlayError}</div>}
+      {allPlay && (<>
+        <div className="badge">{allPlay.season} · {allPlay.format.toUpperCase()} · through week {allPlay.lastCompletedWeek}</div>
+        <p style={{ color:'#94a3b8' }}>Every school is compared with every other school each week, plus one game against the weekly median score.</p>
+        <div style={{ overflowX:'auto', marginTop:12 }}><table style={{ width:'100%', borderCollapse:'collapse' }}>
+          <thead><tr><th style={{textAlign:'left'}}>School</th><th>All-Play</th><th style={{textAlign:'right'}}>Pct</th><th>vs Median</th><th style={{textAlign:'right'}}>Combined</th><th>Weeks</th><th style={{textAlign:'right'}}>PF</th></tr></thead>
+          <tbody>{allPlay.rows.map(row=>(<tr key={row.school} style={{ borderTop:'1px solid #1e293b' }}>
+            <td>{row.school}</td><td>{fmtSplit(row.allPlay)}</td><td style={{textAlign:'right'}}>{row.allPlayPct.toFixed(3)}</td><td>{fmtSplit(row.median)}</td>
+            <td style={{textAlign:'right'}}>{row.combinedPct.toFixed(3)}</td><td>{row.weeks}</td><td style={{textAlign:'right'}}>{row.pointsFor.toFixed(1)}</td>
+          </tr>))}</tbody>
+        </table></div>
+      </>)}
+    </div>);
+  }
+
   if (loading) return <div className="card"><h2>Loading Standings…</h2></div>;
   if (error) return <div className="card"><h2>Error</h2><pre>{error}</pre></div>;
-  return (<div className="card"><h2>Standings</h2><div className="badge">{data?.recordsCount ?? 0} recorded games</div>
+  return (<div className="card"><h2>Standings</h2>{tabs}<div className="badge">{data?.recordsCount ?? 0} recorded games</div>
     <div style={{ overflowX:'auto', marginTop:12 }}><table style={{ width:'100%', borderCollapse:'collapse' }}>
-      <thead><tr><th style={{textAlign:'left'}}>School</th><th>W</th><th>L</th><th>T</th><th style={{textAlign:'right'}}>PF</th><th style={{textAlign:'right'}}>PA</th><th style={{textAlign:'right'}}>Diff</th></tr></thead>
+      <thead><tr><th style={{textAlign:'left'}}>School</th><th>W</th><th>L</th><th>T</th><th>GB</th><th style={{textAlign:'right'}}>PF</th><th style={{textAlign:'right'}}>PA</th><th style={{textAlign:'right'}}>Diff</th>
+        <th>Strk</th><th>Last 5</th><th>Home</th><th>Away</th><th>All-Play</th><th style={{textAlign:'right'}}>SOS</th></tr></thead>
       <tbody>{data?.standings?.map(row=>(<tr key={row.school} style={{ borderTop:'1px solid #1e293b' }}>
-        <td>{row.school}</td><td>{row.wins}</td><td>{row.losses}</td><td>{row.ties}</td><td style={{textAlign:'right'}}>{row.pointsFor.toFixed(1)}</td><td style={{textAlign:'right'}}>{row.pointsAgainst.toFixed(1)}</td><td style={{textAlign:'right'}}>{(row.pointsFor-row.pointsAgainst).toFixed(1)}</td>
+        <td title={Object.entries(row.headToHead).map(([opp,split])=>`vs ${opp}: ${fmtSplit(split)}`).join('\n')}>{row.school}</td><td>{row.wins}</td><td>{row.losses}</td><td>{row.ties}</td><td>{row.gamesBehind === 0 ? '—' : row.gamesBehind.toFixed(1)}</td>
+        <td style={{textAlign:'right'}}>{row.pointsFor.toFixed(1)}</td><td style={{textAlign:'right'}}>{row.pointsAgainst.toFixed(1)}</td><td style={{textAlign:'right'}}>{(row.pointsFor-row.pointsAgainst).toFixed(1)}</td>
+        <td>{row.streak || '—'}</td><td>{fmtSplit(row.lastFive)}</td><td>{fmtSplit(row.home)}</td><td>{fmtSplit(row.away)}</td><td>{fmtSplit(row.allPlay)}</td><td style={{textAlign:'right'}}>{row.strengthOfSchedule.toFixed(3)}</td>
       </tr>))}</tbody>
     </table></div></div>);
 }
@@ -134,6 +134,22 @@ export const respondWithError = (scope: string, error: unknown, options: ErrorRe
   return NextResponse.json(payload, { status: fallbackStatus });
 };
 
+const ADMIN_HEADER_NAME = "x-admin-token";
+const ADMIN_QUERY_PARAM = "token";
+
+/**
+ * Whether the request carries `ADMIN_PRECOMPUTE_TOKEN`, in the
+ * `x-admin-token` header or the `token` query param. Always false while the
+ * token is unset.
+ */
+export const requireAdmin = (req: Request, url: URL = new URL(req.url)): boolean => {
+  const headerToken = req.headers.get(ADMIN_HEADER_NAME)?.trim();
+  const queryToken = url.searchParams.get(ADMIN_QUERY_PARAM)?.trim();
+  const token = headerToken || queryToken;
+  const expected = process.env.ADMIN_PRECOMPUTE_TOKEN?.trim();
+  return Boolean(token && expected && token === expected);
+};
+
 const coerceInt = (value: string | null, fallback: number): number => {
   if (value === null || value === undefined || value === "") return fallback;
   const num = Number(value);
@@ -0,0 +1,86 @@
+import collegeHistory from "@/data/college_history.json";
+import { parseEnumParam } from "./api";
+import type { Leader } from "./types";
+import { normalizeSchool } from "@/utils/schoolNames";
+
+/**
+ * How a player listed under several colleges (transfers, `"A; B"`) is
+ * credited. `all` keeps the historical behaviour of giving every listed school
+ * the player's full points; the other policies credit one school or split the
+ * points so a transfer is counted once in total.
+ */
+
+export const COLLEGE_ALLOCATION_POLICIES = ["all", "final", "first", "fractional", "most-games"] as const;
+
+export type CollegeAllocationPolicy = (typeof COLLEGE_ALLOCATION_POLICIES)[number];
+
+export const DEFAULT_COLLEGE_ALLOCATION: CollegeAllocationPolicy = "all";
+
+export type CollegeHistoryEntry = { school: string; games: number };
+
+export type CollegeShare = { college: string; share: number };
+
+type CollegeHistoryTable = {
+  byId: Record<string, CollegeHistoryEntry[]>;
+  byName: Record<string, CollegeHistoryEntry[]>;
+};
+
+const HISTORY = collegeHistory as CollegeHistoryTable;
+
+export const parseCollegeAllocationParam = (url: URL, key = "allocation"): CollegeAllocationPolicy =>
+  parseEnumParam(url, key, COLLEGE_ALLOCATION_POLICIES, DEFAULT_COLLEGE_ALLOCATION);
+
+/** Games played per school from the local college-history table, by player id then name. */
+export function lookupCollegeHistory(
+  leader: Pick<Leader, "player_id" | "full_name">,
+  table: CollegeHistoryTable = HISTORY,
+): CollegeHistoryEntry[] | null {
+  const byId = table.byId[String(leader.player_id)];
+  if (byId?.length) return byId;
+  const byName = table.byName[String(leader.full_name ?? "").trim().toLowerCase()];
+  return byName?.length ? byName : null;
+}
+
+const gamesAt = (history: CollegeHistoryEntry[] | null, college: string): number | null => {
+  if (!history) return null;
+  const key = normalizeSchool(college);
+  const entry = history.find((item) => normalizeSchool(item.school) === key);
+  return entry ? Math.max(0, entry.games) : null;
+};
+
+/**
+ * Splits one player's credit across the colleges listed for them, in the
+ * order they attended. `fractional` weights by games played when the history
+ * table covers every listed school and splits evenly otherwise; `most-games`
+ * falls back to the final school without history.
+ */
+export function allocateCollegeCredit(
+  colleges: string[],
+  policy: CollegeAllocationPolicy,
+  history: CollegeHistoryEntry[] | null = null,
+): CollegeShare[] {
+  if (colleges.length <= 1 || policy === "all") return colleges.map((college) => ({ college, share: 1 }));
+  switch (policy) {
+    case "first":
+      return [{ college: colleges[0], share: 1 }];
+    case "final":
+      return [{ college: colleges[colleges.length - 1], share: 1 }];
+    case "most-games": {
+      let best: { college: string; games: number } | null = null;
+      for (const college of colleges) {
+        const games = gamesAt(history, college);
+        // Ties go to the later school.
+        if (games !== null && (!best || games >= best.games)) best = { college, games };
+      }
+      return [{ college: best?.college ?? colleges[colleges.length - 1], share: 1 }];
+    }
+    case "fractional": {
+      const games = colleges.map((college) => gamesAt(history, college));
+      const total = games.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+      if (games.every((value) => value !== null) && total > 0) {
+        return colleges.map((college, index) => ({ college, share: (games[index] as number) / total }));
+      }
+      return colleges.map((college) => ({ college, share: 1 / colleges.length }));
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import type { CollegeSource } from "./collegeOverrides";
+import { resolveSchool } from "./schoolRegistry";
+
+/**
+ * Players whose college `loadWeek` could not pin down. Each load records the
+ * week's unresolved and low-confidence resolutions, with the lookup tiers
+ * that were tried, so they can be triaged by fantasy impact instead of
+ * disappearing into the "Unknown" school group.
+ */
+
+export const COLLEGE_DIAGNOSTIC_REASONS = ["unresolved", "name-only", "unregistered-school"] as const;
+
+export type CollegeDiagnosticReason = (typeof COLLEGE_DIAGNOSTIC_REASONS)[number];
+
+/**
+ * Reasons a college override can fix. An `unregistered-school` college needs
+ * a registry entry instead, since overrides only accept registry schools.
+ */
+export const OVERRIDABLE_COLLEGE_DIAGNOSTIC_REASONS: readonly CollegeDiagnosticReason[] = ["unresolved", "name-only"];
+
+export type CollegeLookupResult = {
+  college: string;
+  /** Winning source, or null when every tier came back empty. */
+  source: CollegeSource | null;
+  /** Sources consulted in precedence order, up to and including the winner. */
+  tried: CollegeSource[];
+};
+
+export type CollegeDiagnostic = CollegeLookupResult & {
+  season: number;
+  week: number;
+  player_id: string;
+  name: string;
+  team?: string;
+  position: string;
+  points: number;
+  reason: CollegeDiagnosticReason;
+};
+
+export type CollegeDiagnosticSummary = Omit<CollegeDiagnostic, "week" | "points"> & {
+  weeks: number[];
+  /** Fantasy points across the listed weeks. */
+  points: number;
+};
+
+type WeekDiagnostics = { format: string; recordedAt: number; entries: CollegeDiagnostic[] };
+
+const MAX_SEASONS = 4;
+
+const store = new Map<number, Map<number, WeekDiagnostics>>();
+
+/**
+ * `unresolved`: no tier produced a college. `name-only`: only the name-keyed
+ * static file matched, with no id or team to confirm it. `unregistered-school`:
+ * a college was found but is not in the school registry.
+ */
+export function classifyCollegeResolution(result: Pick<CollegeLookupResult, "college" | "source">): CollegeDiagnosticReason | null {
+  if (!result.source || !result.college || result.college.toLowerCase() === "unknown") return "unresolved";
+  if (result.source === "static:name") return "name-only";
+  const parts = result.college
+    .split(";")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  return parts.every((part) => resolveSchool(part)) ? null : "unregistered-school";
+}
+
+/** Replaces the recorded entries for one week. */
+export function recordCollegeDiagnostics(season: number, week: number, format: string, entries: CollegeDiagnostic[], now: number = Date.now()) {
+  let weeks = store.get(season);
+  if (!weeks) {
+    weeks = new Map();
+    store.set(season, weeks);
+    if (store.size > MAX_SEASONS) store.delete(store.keys().next().value as number);
+  }
+  weeks.set(week, { format, recordedAt: now, entries });
+}
+
+/** Recorded weeks for a season, with the scoring format their points use. */
+export function recordedDiagnosticWeeks(season: number): { week: number; format: string; recordedAt: number }[] {
+  const weeks = store.get(season);
+  if (!weeks) return [];
+  return Array.from(weeks.entries())
+    .map(([week, { format, recordedAt }]) => ({ week, format, recordedAt }))
+    .sort((a, b) => a.week - b.week);
+}
+
+/**
+ * Recorded entries merged per player and reason, highest fantasy points
+ * first. `weeks` limits the weeks considered; `reasons` the reasons kept.
+ */
+export function listCollegeDiagnostics(
+  season: number,
+  filters: { weeks?: number[]; reasons?: CollegeDiagnosticReason[] } = {},
+): CollegeDiagnosticSummary[] {
+  const recorded = store.get(season);
+  if (!recorded) return [];
+  const weekFilter = filters.weeks ? new Set(filters.weeks) : null;
+  const reasonFilter = filters.reasons?.length ? new Set(filters.reasons) : null;
+  const merged = new Map<string, CollegeDiagnosticSummary>();
+  for (const [week, { entries }] of Array.from(recorded.entries()).sort((a, b) => a[0] - b[0])) {
+    if (weekFilter && !weekFilter.has(week)) continue;
+    for (const entry of entries) {
+      if (reasonFilter && !reasonFilter.has(entry.reason)) continue;
+      const key = `${entry.player_id}|${entry.reason}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.weeks.push(week);
+        existing.points += entry.points;
+        // Later weeks carry the player's current team and lookup trail.
+        Object.assign(existing, { team: entry.team ?? existing.team, college: entry.college, source: entry.source, tried: entry.tried });
+        continue;
+      }
+      merged.set(key, {
+        season: entry.season,
+        player_id: entry.player_id,
+        name: entry.name,
+        team: entry.team,
+        position: entry.position,
+        college: entry.college,
+        source: entry.source,
+        tried: entry.tried,
+        reason: entry.reason,
+        weeks: [week],
+        points: entry.points,
+      });
+    }
+  }
+  return Array.from(merged.values())
+    .map((summary) => ({ ...summary, points: Number(summary.points.toFixed(2)) }))
+    .sort((a, b) => b.points - a.points || a.name.localeCompare(b.name));
+}
+
+/** Drops recorded entries (tests). */
+export function resetCollegeDiagnostics() {
+  store.clear();
+}
@@ -0,0 +1,264 @@
+import staticById from "@/data/player_colleges_by_id.json";
+import staticByName from "@/data/player_colleges.json";
+import { HttpError } from "./api";
+import { getLeagueStorage } from "./leagueStorage";
+import { resolveSchool } from "./schoolRegistry";
+import { hashContent } from "./statRevisions";
+import { normalize } from "./utils";
+
+/**
+ * Manual player → college overrides. Admin-managed entries (by GSIS id or by
+ * name + team) live in league storage next to a change history; the static
+ * `data/player_colleges*.json` files sit below them. Lookups report
+ * which source won so a wrong college can be traced to where it came from.
+ */
+
+export type CollegeOverride = {
+  /** `id:<gsis>` or `name:<name>|<TEAM>`. */
+  key: string;
+  gsisId?: string;
+  name?: string;
+  team?: string;
+  college: string;
+  schoolId: string;
+  note?: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type CollegeOverrideHistoryEntry = {
+  key: string;
+  action: "created" | "updated" | "removed";
+  before: CollegeOverride | null;
+  after: CollegeOverride | null;
+  actor?: string;
+  timestamp: number;
+};
+
+export type CollegeOverrideInput = {
+  gsisId?: unknown;
+  name?: unknown;
+  team?: unknown;
+  college?: unknown;
+  note?: unknown;
+};
+
+/**
+ * Highest precedence first; the first source with a college wins.
+ * `data/player_colleges.json` is keyed by name alone, so it only fills in
+ * players no other source knows.
+ */
+export const COLLEGE_SOURCE_PRECEDENCE = [
+  "override:id",
+  "override:name-team",
+  "static:id",
+  "roster",
+  "players-master",
+  "static:name",
+] as const;
+
+export type CollegeSource = (typeof COLLEGE_SOURCE_PRECEDENCE)[number];
+
+export type CollegeCandidate = { source: CollegeSource; college: string };
+
+export type CollegeResolution = {
+  college: string | undefined;
+  source: CollegeSource | null;
+  precedence: readonly CollegeSource[];
+  candidates: CollegeCandidate[];
+};
+
+export type CollegeOverrideIndex = {
+  version: string;
+  byId: Map<string, CollegeOverride>;
+  byNameTeam: Map<string, CollegeOverride>;
+};
+
+export type OverrideCandidate = {
+  player_id?: unknown;
+  alt_ids?: unknown[];
+  name?: string;
+  team?: string;
+};
+
+const INDEX_TTL_MS = 60_000;
+const MAX_NOTE_LENGTH = 280;
+
+const STATIC_BY_ID = staticById as Record<string, string>;
+const STATIC_BY_NAME = staticByName as Record<string, string>;
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+const nameTeamKey = (name: string, team: string) => `${normalize(name)}|${team.trim().toUpperCase()}`;
+
+export const collegeOverrideKey = (override: Pick<CollegeOverride, "gsisId" | "name" | "team">): string =>
+  override.gsisId ? `id:${override.gsisId}` : `name:${nameTeamKey(override.name ?? "", override.team ?? "")}`;
+
+/**
+ * Validates an admin payload. The college must resolve through the school
+ * registry and is stored under its registry name; a GSIS id takes priority
+ * over name + team when both are given.
+ */
+export function buildCollegeOverride(input: CollegeOverrideInput, now: number = Date.now()): CollegeOverride {
+  const gsisId = text(input.gsisId);
+  const name = text(input.name);
+  const team = text(input.team).toUpperCase();
+  if (!gsisId && !(name && team)) {
+    throw new HttpError(400, "Provide gsisId, or name and team, to identify the player");
+  }
+  const requested = text(input.college);
+  if (!requested) throw new HttpError(400, "college is required");
+  const school = resolveSchool(requested);
+  if (!school) {
+    throw new HttpError(400, `Unknown college "${requested}"; add it to the school registry first`, {
+      code: "UNKNOWN_SCHOOL",
+    });
+  }
+  const note = text(input.note);
+  if (note.length > MAX_NOTE_LENGTH) throw new HttpError(400, `note must be at most ${MAX_NOTE_LENGTH} characters`);
+  return {
+    key: collegeOverrideKey({ gsisId, name, team }),
+    ...(gsisId ? { gsisId } : {}),
+    ...(name ? { name } : {}),
+    ...(team ? { team } : {}),
+    college: school.name,
+    schoolId: school.id,
+    ...(note ? { note } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+let cachedIndex: { index: CollegeOverrideIndex; loadedAt: number } | null = null;
+
+const buildIndex = (overrides: CollegeOverride[]): CollegeOverrideIndex => {
+  const byId = new Map<string, CollegeOverride>();
+  const byNameTeam = new Map<string, CollegeOverride>();
+  for (const override of overrides) {
+    if (override.gsisId) byId.set(override.gsisId, override);
+    else if (override.name && override.team) byNameTeam.set(nameTeamKey(override.name, override.team), override);
+  }
+  const version = overrides.length
+    ? hashContent(JSON.stringify(overrides.map(({ key, college }) => [key, college]).sort())).slice(0, 12)
+    : "none";
+  return { version, byId, byNameTeam };
+};
+
+export async function listCollegeOverrides(): Promise<CollegeOverride[]> {
+  return getLeagueStorage().read<CollegeOverride>("collegeOverrides");
+}
+
+/** Overrides keyed for lookups; re-read from storage at most once a minute per instance. */
+export async function loadCollegeOverrideIndex(now: number = Date.now()): Promise<CollegeOverrideIndex> {
+  if (cachedIndex && now - cachedIndex.loadedAt < INDEX_TTL_MS) return cachedIndex.index;
+  const index = buildIndex(await listCollegeOverrides());
+  cachedIndex = { index, loadedAt: now };
+  return index;
+}
+
+const appendHistory = (entry: CollegeOverrideHistoryEntry) =>
+  getLeagueStorage().update<CollegeOverrideHistoryEntry>("collegeOverrideHistory", (entries) => [...entries, entry]);
+
+const sameOverride = (a: CollegeOverride, b: CollegeOverride) =>
+  a.college === b.college && a.note === b.note && a.name === b.name && a.team === b.team;
+
+export async function saveCollegeOverride(
+  override: CollegeOverride,
+  actor?: string,
+): Promise<{ action: "created" | "updated" | "unchanged"; override: CollegeOverride }> {
+  const outcome: { before: CollegeOverride | null; saved: CollegeOverride } = { before: null, saved: override };
+  await getLeagueStorage().update<CollegeOverride>("collegeOverrides", (overrides) => {
+    const index = overrides.findIndex((existing) => existing.key === override.key);
+    if (index === -1) {
+      outcome.before = null;
+      outcome.saved = override;
+      return [...overrides, override];
+    }
+    const existing = overrides[index];
+    outcome.before = existing;
+    if (sameOverride(existing, override)) {
+      outcome.saved = existing;
+      return overrides;
+    }
+    outcome.saved = { ...override, createdAt: existing.createdAt };
+    const next = overrides.slice();
+    next[index] = outcome.saved;
+    return next;
+  });
+  cachedIndex = null;
+  const { before, saved } = outcome;
+  if (before === saved) return { action: "unchanged", override: saved };
+  const action = before ? "updated" : "created";
+  await appendHistory({ key: saved.key, action, before, after: saved, actor, timestamp: saved.updatedAt });
+  return { action, override: saved };
+}
+
+export async function removeCollegeOverride(key: string, actor?: string, now: number = Date.now()) {
+  const outcome: { removed: CollegeOverride | null } = { removed: null };
+  await getLeagueStorage().update<CollegeOverride>("collegeOverrides", (overrides) => {
+    outcome.removed = overrides.find((existing) => existing.key === key) ?? null;
+    return outcome.removed ? overrides.filter((existing) => existing.key !== key) : overrides;
+  });
+  cachedIndex = null;
+  const { removed } = outcome;
+  if (!removed) throw new HttpError(404, `No college override with key ${key}`, { code: "OVERRIDE_NOT_FOUND" });
+  await appendHistory({ key, action: "removed", before: removed, after: null, actor, timestamp: now });
+  return removed;
+}
+
+export async function loadCollegeOverrideHistory(key?: string): Promise<CollegeOverrideHistoryEntry[]> {
+  const entries = await getLeagueStorage().read<CollegeOverrideHistoryEntry>("collegeOverrideHistory");
+  return key ? entries.filter((entry) => entry.key === key) : entries;
+}
+
+const candidateIds = (candidate: OverrideCandidate): string[] => {
+  const ids = new Set<string>();
+  for (const value of [candidate.player_id, ...(candidate.alt_ids ?? [])]) {
+    const id = String(value ?? "").trim();
+    if (id) ids.add(id);
+  }
+  return Array.from(ids);
+};
+
+/** Override and static-file candidates for a player, in `COLLEGE_SOURCE_PRECEDENCE` order. */
+export function overrideCandidates(candidate: OverrideCandidate, index: CollegeOverrideIndex): CollegeCandidate[] {
+  const ids = candidateIds(candidate);
+  const name = text(candidate.name);
+  const team = text(candidate.team);
+  const results: CollegeCandidate[] = [];
+  const byId = ids.map((id) => index.byId.get(id)).find(Boolean);
+  if (byId) results.push({ source: "override:id", college: byId.college });
+  const byNameTeam = name && team ? index.byNameTeam.get(nameTeamKey(name, team)) : undefined;
+  if (byNameTeam) results.push({ source: "override:name-team", college: byNameTeam.college });
+  const staticId = ids.map((id) => STATIC_BY_ID[id]).find(Boolean);
+  if (staticId) results.push({ source: "static:id", college: staticId });
+  const staticName = staticCollegeByName(name);
+  if (staticName) results.push({ source: "static:name", college: staticName });
+  return results;
+}
+
+/** The admin or by-id static override, which outranks the roster and players master. */
+export const resolveCollegeOverride = (candidate: OverrideCandidate, index: CollegeOverrideIndex): string | undefined =>
+  overrideCandidates(candidate, index).find((entry) => entry.source !== "static:name")?.college;
+
+/** Last-resort college from the name-only static file. */
+export const staticCollegeByName = (name?: string): string | undefined =>
+  name ? STATIC_BY_NAME[normalize(name)] : undefined;
+
+/** Orders every candidate by `COLLEGE_SOURCE_PRECEDENCE` and picks the first. */
+export function resolveCollegePrecedence(candidates: CollegeCandidate[]): CollegeResolution {
+  const ordered = candidates
+    .filter((candidate) => candidate.college && candidate.college !== "Unknown")
+    .sort((a, b) => COLLEGE_SOURCE_PRECEDENCE.indexOf(a.source) - COLLEGE_SOURCE_PRECEDENCE.indexOf(b.source));
+  return {
+    college: ordered[0]?.college,
+    source: ordered[0]?.source ?? null,
+    precedence: COLLEGE_SOURCE_PRECEDENCE,
+    candidates: ordered,
+  };
+}
+
+/** Drops the cached index (tests). */
+export function resetCollegeOverrideCache() {
+  cachedIndex = null;
+}
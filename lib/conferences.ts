@@ -0,0 +1,91 @@
+import { HttpError, parseEnumParam, parseIntegerParam } from "./api";
+import { conferenceFor } from "./schoolRegistry";
+import type { SchoolAggregate } from "./types";
+
+/**
+ * Conference-level alumni scores built from the per-school rows returned by
+ * `aggregateByCollegeMode`. Schools map to conferences through the school
+ * registry for the requested season; schools outside the registry are listed
+ * as unassigned rather than guessed.
+ */
+
+export const CONFERENCE_SCORING_METHODS = ["sum", "average", "best-n"] as const;
+
+export type ConferenceScoringMethod = (typeof CONFERENCE_SCORING_METHODS)[number];
+
+export type ConferenceScoring = { method: ConferenceScoringMethod; bestN: number };
+
+export const DEFAULT_CONFERENCE_SCORING: ConferenceScoring = { method: "sum", bestN: 5 };
+
+export type ConferenceAggregate = {
+  conference: string;
+  week: number;
+  format: string;
+  method: ConferenceScoringMethod;
+  /** Conference score under `method`. */
+  totalPoints: number;
+  /** Schools with a scoring row this week. */
+  schoolCount: number;
+  /** Schools that count toward `totalPoints`, highest first. */
+  schools: { school: string; totalPoints: number }[];
+};
+
+export type ConferenceAggregation = {
+  rows: ConferenceAggregate[];
+  unassigned: string[];
+};
+
+const MAX_BEST_N = 20;
+
+export const parseConferenceScoringParams = (url: URL): ConferenceScoring => ({
+  method: parseEnumParam(url, "conferenceScoring", CONFERENCE_SCORING_METHODS, DEFAULT_CONFERENCE_SCORING.method),
+  bestN: parseIntegerParam(url, "bestN", DEFAULT_CONFERENCE_SCORING.bestN, { min: 1, max: MAX_BEST_N }),
+});
+
+export function aggregateByConference(
+  rows: SchoolAggregate[],
+  season: number,
+  scoring: ConferenceScoring = DEFAULT_CONFERENCE_SCORING,
+): ConferenceAggregation {
+  const groups = new Map<string, SchoolAggregate[]>();
+  const unassigned: string[] = [];
+  for (const row of rows) {
+    const conference = conferenceFor(row.school, season);
+    if (!conference) {
+      unassigned.push(row.school);
+      continue;
+    }
+    if (!groups.has(conference)) groups.set(conference, []);
+    groups.get(conference)!.push(row);
+  }
+
+  const result: ConferenceAggregate[] = [];
+  for (const [conference, members] of groups) {
+    const ranked = members
+      .map((row) => ({ school: row.school, totalPoints: row.totalPoints }))
+      .sort((a, b) => b.totalPoints - a.totalPoints || a.school.localeCompare(b.school));
+    const counted = scoring.method === "best-n" ? ranked.slice(0, scoring.bestN) : ranked;
+    const sum = counted.reduce((total, row) => total + row.totalPoints, 0);
+    const totalPoints = scoring.method === "average" ? sum / counted.length : sum;
+    result.push({
+      conference,
+      week: members[0].week,
+      format: members[0].format,
+      method: scoring.method,
+      totalPoints: Number(totalPoints.toFixed(2)),
+      schoolCount: members.length,
+      schools: counted,
+    });
+  }
+  result.sort((a, b) => b.totalPoints - a.totalPoints || a.conference.localeCompare(b.conference));
+  return { rows: result, unassigned: unassigned.sort((a, b) => a.localeCompare(b)) };
+}
+
+export class ConferenceNotFoundError extends HttpError {
+  code = "CONFERENCE_NOT_FOUND" as const;
+
+  constructor(conference: string, season: number) {
+    super(400, `Unknown conference for ${season}: ${conference}`, { code: "CONFERENCE_NOT_FOUND" });
+    this.name = "ConferenceNotFoundError";
+  }
+}
@@ -0,0 +1,69 @@
+export type CsvParseOptions = {
+  /** Headers to keep; other cells are skipped while parsing so wide assets stay small. */
+  columns?: readonly string[];
+};
+
+/**
+ * Quote-aware CSV parser: quoted commas, doubled quotes and empty fields keep
+ * every cell under its header. Headers lose a leading BOM, cells are trimmed
+ * and rows of blank cells are dropped.
+ */
+export const parseCsv = (text: string, options: CsvParseOptions = {}): Record<string, string>[] => {
+  const normalized = text.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
+  const wanted = options.columns ? new Set(options.columns) : null;
+  const result: Record<string, string>[] = [];
+  let headers: string[] = [];
+  // Per column: whether its cells are kept. Null until the header row is read.
+  let keep: boolean[] | null = null;
+  let currentRow: string[] = [];
+  let currentValue = "";
+  let inQuotes = false;
+  // Whether the current cell belongs to a dropped column.
+  let skip = false;
+  const nextCell = () => {
+    currentRow.push(currentValue);
+    currentValue = "";
+    skip = keep !== null && wanted !== null && !keep[currentRow.length];
+  };
+  const endRow = () => {
+    currentRow.push(currentValue);
+    currentValue = "";
+    if (!keep) {
+      headers = currentRow.map((h) => h.replace(/^\uFEFF/, "").trim());
+      keep = headers.map((h) => Boolean(h) && (!wanted || wanted.has(h)));
+    } else if (currentRow.some((cell) => cell && cell.trim().length)) {
+      const obj: Record<string, string> = {};
+      for (let i = 0; i < headers.length; i += 1) {
+        if (keep[i]) obj[headers[i]] = (currentRow[i] ?? "").trim();
+      }
+      result.push(obj);
+    }
+    currentRow = [];
+    skip = wanted !== null && !keep[0];
+  };
+  for (let i = 0; i < normalized.length; i += 1) {
+    const char = normalized[i];
+    if (inQuotes) {
+      if (char === "\"") {
+        if (normalized[i + 1] === "\"") {
+          if (!skip) currentValue += "\"";
+          i += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else if (!skip) {
+        currentValue += char;
+      }
+    } else if (char === "\"") {
+      inQuotes = true;
+    } else if (char === ",") {
+      nextCell();
+    } else if (char === "\n") {
+      endRow();
+    } else if (!skip) {
+      currentValue += char;
+    }
+  }
+  if (currentValue.length > 0 || currentRow.length > 0) endRow();
+  return result;
+};
@@ -1,4 +1,5 @@
 import { gunzipSync } from "node:zlib";
+import { parseCsv } from "./csv";
 
 export const DEFENSE_SOURCE = (season: number) =>
   `https://github.com/nflverse/nflverse-data/releases/download/stats_team/team_stats_week_${season}.csv`;
@@ -10,11 +11,13 @@ const TEAM_STATS_CANDIDATES = (season: number) => [
   `https://github.com/nflverse/nflverse-data/releases/download/stats_team/team_stats_week_${season}.csv.gz`,
 ];
 
+/** The one DST scoring table; every defense source is scored through `scoreTeamDefense`. */
 export const DEFENSE_SCORING = {
   sack: 1,
   interception: 2,
   fumble_recovery: 2,
   td: 6,
+  return_td: 6,
   safety: 2,
   block: 2,
   points_allowed: [
@@ -28,6 +31,29 @@ export const DEFENSE_SCORING = {
   ] as const,
 } as const;
 
+export const TEAM_DEFENSE_SOURCES = ["stats_team", "opponent-offense"] as const;
+
+export type TeamDefenseSource = (typeof TEAM_DEFENSE_SOURCES)[number];
+
+/** Where a team's defense numbers came from. */
+export type TeamDefenseProvenance = {
+  source: TeamDefenseSource;
+  url: string;
+  /** Why the preferred `stats_team` numbers were not used. */
+  fallbackReason?: string;
+};
+
+/** Team defense box score; sources that cannot see a stat report 0. */
+export type TeamDefenseStats = {
+  sacks: number;
+  interceptions: number;
+  fumble_recoveries: number;
+  safeties: number;
+  defensive_tds: number;
+  return_tds: number;
+  points_allowed: number;
+};
+
 export class DefenseUnavailableError extends Error {
   source?: string;
 
@@ -71,22 +97,6 @@ const sanitizeNumber = (value: unknown): number => {
   return Number.isFinite(parsed) ? parsed : 0;
 };
 
-const parseCsv = (text: string): CsvRow[] => {
-  const trimmed = text.trim();
-  if (!trimmed) return [];
-  const lines = trimmed.split(/\r?\n/);
-  const headers = lines[0].split(",").map((h) => h.replace(/^"|"$/g, "").trim());
-  return lines.slice(1).map((line) => {
-    const cols = line.match(/(".*?"|[^",]+)(?=\s*,|\s*$)/g) ?? [];
-    const row: CsvRow = {};
-    headers.forEach((header, index) => {
-      const raw = cols[index] ?? "";
-      row[header] = raw.replace(/^"|"$/g, "");
-    });
-    return row;
-  });
-};
-
 const pointsAllowedBucket = (pointsAllowed: number): number => {
   for (const bucket of DEFENSE_SCORING.points_allowed) {
     if (pointsAllowed <= bucket.max) return bucket.pts;
@@ -94,6 +104,17 @@ const pointsAllowedBucket = (pointsAllowed: number): number => {
   return -4;
 };
 
+export function scoreTeamDefense(stats: TeamDefenseStats): number {
+  const base =
+    (stats.sacks * DEFENSE_SCORING.sack) +
+    (stats.interceptions * DEFENSE_SCORING.interception) +
+    (stats.fumble_recoveries * DEFENSE_SCORING.fumble_recovery) +
+    (stats.safeties * DEFENSE_SCORING.safety) +
+    (stats.defensive_tds * DEFENSE_SCORING.td) +
+    (stats.return_tds * DEFENSE_SCORING.return_td);
+  return Number((base + pointsAllowedBucket(stats.points_allowed)).toFixed(2));
+}
+
 export type DefenseApproxRow = {
   team: string;
   week: number;
@@ -104,6 +125,17 @@ export type DefenseApproxRow = {
   score: number;
 };
 
+/** The approximation only sees the opponent's offense, so safeties and TDs are 0. */
+export const approxRowStats = (row: Omit<DefenseApproxRow, "team" | "week" | "score">): TeamDefenseStats => ({
+  sacks: row.sacks,
+  interceptions: row.interceptions,
+  fumble_recoveries: row.fumbles_recovered,
+  safeties: 0,
+  defensive_tds: 0,
+  return_tds: 0,
+  points_allowed: row.points_allowed,
+});
+
 export type DefenseApproxResult = {
   season: number;
   week: number;
@@ -298,21 +330,15 @@ export async function fetchDefenseApprox({
     const interceptions = sanitizeNumber(interceptionsKey ? opponentRow[interceptionsKey] : undefined);
     const fumblesRecovered = sanitizeNumber(fumblesKey ? opponentRow[fumblesKey] : undefined);
 
-    const score =
-      pointsAllowedBucket(pointsAllowed) +
-      (sacks * DEFENSE_SCORING.sack) +
-      (interceptions * DEFENSE_SCORING.interception) +
-      (fumblesRecovered * DEFENSE_SCORING.fumble_recovery);
-
-    output.push({
+    const entry = {
       team,
       week: selectedWeek,
       points_allowed: pointsAllowed,
       sacks,
       interceptions,
       fumbles_recovered: fumblesRecovered,
-      score,
-    });
+    };
+    output.push({ ...entry, score: scoreTeamDefense(approxRowStats(entry)) });
   }
 
   return {
@@ -0,0 +1,267 @@
+import {
+  approxRowStats,
+  DEFENSE_SOURCE,
+  DefenseUnavailableError,
+  fetchDefenseApprox,
+  scoreTeamDefense,
+  type TeamDefenseProvenance,
+  type TeamDefenseSource,
+  type TeamDefenseStats,
+} from "./defense";
+import {
+  fetchOfficialTeamDefense,
+  fetchTeamDefenseInputs,
+  listTeamDefenseWeeks,
+  normalizeTeamAbbreviation,
+  type TeamDefenseInput,
+} from "./nflverse";
+
+/**
+ * Team defense data service. Scoring (`loadWeek`), `/api/defense` and the
+ * defense banners all read `fetchTeamDefenseInputs` — `stats_team` when it has
+ * the week, the opponent-offense approximation otherwise — and score it with
+ * the one `DEFENSE_SCORING` table. `reconcileTeamDefense` lines the two
+ * sources up team by team.
+ */
+
+export type TeamDefenseRow = {
+  team: string;
+  week: number;
+  points_allowed: number;
+  sacks: number;
+  interceptions: number;
+  fumbles_recovered: number;
+  safeties: number;
+  defensive_tds: number;
+  return_tds: number;
+  score: number;
+  provenance: TeamDefenseProvenance;
+};
+
+export type TeamDefenseMode = "stats_team" | "approx-opponent-offense" | "mixed";
+
+export type TeamDefenseWeekResult = {
+  season: number;
+  week: number;
+  mode: TeamDefenseMode;
+  source: string;
+  rows: TeamDefenseRow[];
+  weeks_available: number[];
+  requested_week: number | null;
+  fallback_reason: string | null;
+};
+
+const toRow = (input: TeamDefenseInput): TeamDefenseRow => ({
+  team: normalizeTeamAbbreviation(input.team) || input.team,
+  week: input.week,
+  points_allowed: input.points_allowed,
+  sacks: input.sacks,
+  interceptions: input.interceptions,
+  fumbles_recovered: input.fumble_recoveries,
+  safeties: input.safeties,
+  defensive_tds: input.defensive_tds,
+  return_tds: input.return_tds,
+  score: scoreTeamDefense(input),
+  provenance: input.provenance,
+});
+
+const modeFor = (rows: TeamDefenseRow[]): TeamDefenseMode => {
+  const sources = new Set(rows.map((row) => row.provenance.source));
+  if (sources.size > 1) return "mixed";
+  return sources.has("opponent-offense") ? "approx-opponent-offense" : "stats_team";
+};
+
+/** Weeks with defense data: `stats_team` first, the approximation's weeks when that asset is missing. */
+const availableWeeks = async (season: number): Promise<number[]> => {
+  const official = await listTeamDefenseWeeks(season);
+  if (official.length) return official;
+  try {
+    const approx = await fetchDefenseApprox({ season });
+    return approx.weeks_available ?? [approx.week];
+  } catch (error) {
+    if (error instanceof DefenseUnavailableError) return [];
+    throw error;
+  }
+};
+
+/**
+ * Scored team defense for a week (the latest available week when omitted, or
+ * when the requested week has no rows yet). Throws `DefenseUnavailableError`
+ * when neither source has data.
+ */
+export async function loadTeamDefenseWeek(season: number, week?: number): Promise<TeamDefenseWeekResult> {
+  const weeks = await availableWeeks(season);
+  const latest = weeks.length ? weeks[weeks.length - 1] : undefined;
+  let selected = week ?? latest;
+  if (selected === undefined) throw new DefenseUnavailableError("Team defense stats not available yet", DEFENSE_SOURCE(season));
+
+  let fallbackReason: string | null = null;
+  let inputs = await fetchTeamDefenseInputs(season, selected);
+  if (!inputs.length && week !== undefined && latest !== undefined && latest !== week) {
+    selected = latest;
+    fallbackReason = "requested_week_unavailable_fallback_to_latest";
+    inputs = await fetchTeamDefenseInputs(season, selected);
+  }
+  if (!inputs.length) {
+    throw new DefenseUnavailableError(`No team defense stats for week ${selected}`, DEFENSE_SOURCE(season));
+  }
+
+  const rows = inputs.map(toRow).sort((a, b) => a.team.localeCompare(b.team));
+  return {
+    season,
+    week: selected,
+    mode: modeFor(rows),
+    source: Array.from(new Set(rows.map((row) => row.provenance.url))).join(" + "),
+    rows,
+    weeks_available: weeks,
+    requested_week: week ?? null,
+    fallback_reason: fallbackReason,
+  };
+}
+
+const COMPARED_STATS = [
+  "points_allowed",
+  "sacks",
+  "interceptions",
+  "fumble_recoveries",
+  "safeties",
+  "defensive_tds",
+  "return_tds",
+] as const satisfies readonly (keyof TeamDefenseStats)[];
+
+type TeamDefenseLine = TeamDefenseStats & { team: string };
+
+export type DefenseSourceSnapshot = TeamDefenseStats & { score: number };
+
+export type TeamDefenseReconciliation = {
+  team: string;
+  status: "match" | "differs" | "stats_team-only" | "opponent-offense-only";
+  /** The source scoring uses for this team, or null when it gets no DST points. */
+  used: TeamDefenseSource | null;
+  sources: Partial<Record<TeamDefenseSource, DefenseSourceSnapshot>>;
+  /** `stats_team` minus opponent-offense, for the fields that disagree. */
+  differences: Partial<Record<(typeof COMPARED_STATS)[number] | "score", number>>;
+};
+
+const snapshot = (input: TeamDefenseStats): DefenseSourceSnapshot => ({
+  points_allowed: input.points_allowed,
+  sacks: input.sacks,
+  interceptions: input.interceptions,
+  fumble_recoveries: input.fumble_recoveries,
+  safeties: input.safeties,
+  defensive_tds: input.defensive_tds,
+  return_tds: input.return_tds,
+  score: scoreTeamDefense(input),
+});
+
+const byTeam = <T extends { team: string }>(rows: T[]) => {
+  const map = new Map<string, T>();
+  for (const row of rows) {
+    const team = normalizeTeamAbbreviation(row.team);
+    if (team && !map.has(team)) map.set(team, row);
+  }
+  return map;
+};
+
+/**
+ * Per-team comparison of the two sources for one week, largest score gap
+ * first. Scoring uses `stats_team` whenever the week has any rows, so a team
+ * missing from a non-empty `stats_team` week gets no DST points.
+ */
+export function reconcileDefenseSources(
+  official: TeamDefenseLine[],
+  approx: TeamDefenseLine[],
+): TeamDefenseReconciliation[] {
+  const officialByTeam = byTeam(official);
+  const approxByTeam = byTeam(approx);
+  const usedSource: TeamDefenseSource | null = official.length ? "stats_team" : approx.length ? "opponent-offense" : null;
+  const teams = new Set([...officialByTeam.keys(), ...approxByTeam.keys()]);
+  const rows: TeamDefenseReconciliation[] = [];
+  for (const team of teams) {
+    const officialRow = officialByTeam.get(team);
+    const approxRow = approxByTeam.get(team);
+    const sources: TeamDefenseReconciliation["sources"] = {};
+    if (officialRow) sources.stats_team = snapshot(officialRow);
+    if (approxRow) sources["opponent-offense"] = snapshot(approxRow);
+    const differences: TeamDefenseReconciliation["differences"] = {};
+    if (sources.stats_team && sources["opponent-offense"]) {
+      for (const key of [...COMPARED_STATS, "score"] as const) {
+        const delta = Number((sources.stats_team[key] - sources["opponent-offense"][key]).toFixed(2));
+        if (delta !== 0) differences[key] = delta;
+      }
+    }
+    const status: TeamDefenseReconciliation["status"] = !officialRow
+      ? "opponent-offense-only"
+      : !approxRow
+        ? "stats_team-only"
+        : Object.keys(differences).length
+          ? "differs"
+          : "match";
+    const used = usedSource && sources[usedSource] ? usedSource : null;
+    rows.push({ team, status, used, sources, differences });
+  }
+  return rows.sort(
+    (a, b) => Math.abs(b.differences.score ?? 0) - Math.abs(a.differences.score ?? 0) || a.team.localeCompare(b.team),
+  );
+}
+
+export type DefenseSourceStatus = {
+  source: TeamDefenseSource;
+  url: string | null;
+  teams: number;
+  error: string | null;
+};
+
+export type TeamDefenseReconciliationReport = {
+  season: number;
+  week: number;
+  sources: DefenseSourceStatus[];
+  summary: Record<TeamDefenseReconciliation["status"], number> & { maxScoreDifference: number };
+  teams: TeamDefenseReconciliation[];
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/** Loads both sources for a week and reconciles them; a failing source is reported, not thrown. */
+export async function reconcileTeamDefense(season: number, week: number): Promise<TeamDefenseReconciliationReport> {
+  const [officialResult, approxResult] = await Promise.allSettled([
+    fetchOfficialTeamDefense(season, week),
+    fetchDefenseApprox({ season, week }),
+  ]);
+
+  const official = officialResult.status === "fulfilled" ? officialResult.value : [];
+  const officialStatus: DefenseSourceStatus = {
+    source: "stats_team",
+    url: official[0]?.provenance.url ?? null,
+    teams: official.length,
+    error: officialResult.status === "rejected" ? errorMessage(officialResult.reason) : null,
+  };
+
+  let approx: TeamDefenseLine[] = [];
+  const approxStatus: DefenseSourceStatus = { source: "opponent-offense", url: null, teams: 0, error: null };
+  if (approxResult.status === "fulfilled") {
+    approxStatus.url = approxResult.value.source;
+    if (approxResult.value.week === week) {
+      approx = approxResult.value.rows.map((row) => ({ team: row.team, ...approxRowStats(row) }));
+      approxStatus.teams = approx.length;
+    } else {
+      approxStatus.error = `No rows for week ${week} (latest is week ${approxResult.value.week})`;
+    }
+  } else {
+    approxStatus.error = errorMessage(approxResult.reason);
+  }
+
+  const teams = reconcileDefenseSources(official, approx);
+  const summary: TeamDefenseReconciliationReport["summary"] = {
+    match: 0,
+    differs: 0,
+    "stats_team-only": 0,
+    "opponent-offense-only": 0,
+    maxScoreDifference: 0,
+  };
+  for (const row of teams) {
+    summary[row.status] += 1;
+    summary.maxScoreDifference = Math.max(summary.maxScoreDifference, Math.abs(row.differences.score ?? 0));
+  }
+  return { season, week, sources: [officialStatus, approxStatus], summary, teams };
+}
@@ -0,0 +1,198 @@
+import { HttpError, parseEnumParam, parseStringParam } from "./api";
+
+/**
+ * Individual defensive player (IDP) scoring. In `defense=idp` mode defenders
+ * score from their own box-score stats instead of sharing team DST points,
+ * and fill DL / LB / DB lineup slots next to the offensive template.
+ */
+
+export const DEFENSE_MODES = ["none", "approx", "idp"] as const;
+
+export type DefenseMode = (typeof DEFENSE_MODES)[number];
+
+export const IDP_STATS = [
+  "def_tackles_solo",
+  "def_tackle_assists",
+  "def_tackles_for_loss",
+  "def_sacks",
+  "def_qb_hits",
+  "def_interceptions",
+  "def_pass_defended",
+  "def_fumbles_forced",
+  "def_tds",
+] as const;
+
+export type IdpStat = (typeof IDP_STATS)[number];
+
+export type IdpStatLine = Partial<Record<IdpStat, number>>;
+
+export type IdpWeights = Record<IdpStat, number>;
+
+export const IDP_POSITIONS = ["DL", "LB", "DB"] as const;
+
+export type IdpPosition = (typeof IDP_POSITIONS)[number];
+
+export type IdpSettings = {
+  slots: Record<IdpPosition, number>;
+  weights: IdpWeights;
+};
+
+export const DEFAULT_IDP_WEIGHTS: IdpWeights = {
+  def_tackles_solo: 1,
+  def_tackle_assists: 0.5,
+  def_tackles_for_loss: 1,
+  def_sacks: 2,
+  def_qb_hits: 0.5,
+  def_interceptions: 3,
+  def_pass_defended: 1,
+  def_fumbles_forced: 2,
+  def_tds: 6,
+};
+
+export const DEFAULT_IDP_SETTINGS: IdpSettings = {
+  slots: { DL: 2, LB: 2, DB: 2 },
+  weights: DEFAULT_IDP_WEIGHTS,
+};
+
+const MAX_IDP_SLOT_COUNT = 6;
+const MAX_IDP_PARAM_LENGTH = 1000;
+
+export class IdpSettingsError extends HttpError {
+  code = "INVALID_IDP_SETTINGS" as const;
+
+  constructor(message: string) {
+    super(400, message, { code: "INVALID_IDP_SETTINGS" });
+    this.name = "IdpSettingsError";
+  }
+}
+
+const POSITION_GROUPS: Record<string, IdpPosition> = {
+  DL: "DL",
+  DE: "DL",
+  DT: "DL",
+  NT: "DL",
+  EDGE: "DL",
+  LB: "LB",
+  ILB: "LB",
+  OLB: "LB",
+  MLB: "LB",
+  DB: "DB",
+  CB: "DB",
+  S: "DB",
+  FS: "DB",
+  SS: "DB",
+  SAF: "DB",
+  NB: "DB",
+};
+
+/** The IDP slot group for a roster position, or null for non-defenders. */
+export const idpPositionGroup = (position?: string | null): IdpPosition | null =>
+  POSITION_GROUPS[String(position ?? "").trim().toUpperCase()] ?? null;
+
+export function scoreIdpLine(stat: IdpStatLine, weights: IdpWeights = DEFAULT_IDP_WEIGHTS): number {
+  let total = 0;
+  for (const key of IDP_STATS) {
+    const value = stat[key];
+    if (typeof value === "number" && Number.isFinite(value)) total += value * (weights[key] ?? 0);
+  }
+  return Number(total.toFixed(2));
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const validateSlots = (value: unknown, path: string): IdpSettings["slots"] => {
+  if (value === undefined) return DEFAULT_IDP_SETTINGS.slots;
+  if (!isPlainObject(value)) throw new IdpSettingsError(`${path} must be an object of DL / LB / DB counts`);
+  const slots = { ...DEFAULT_IDP_SETTINGS.slots };
+  for (const [key, count] of Object.entries(value)) {
+    const position = key.trim().toUpperCase() as IdpPosition;
+    if (!(IDP_POSITIONS as readonly string[]).includes(position)) {
+      throw new IdpSettingsError(`${path}.${key} is not an IDP slot. Allowed: ${IDP_POSITIONS.join(", ")}`);
+    }
+    if (typeof count !== "number" || !Number.isInteger(count) || count < 0 || count > MAX_IDP_SLOT_COUNT) {
+      throw new IdpSettingsError(`${path}.${key} must be an integer between 0 and ${MAX_IDP_SLOT_COUNT}`);
+    }
+    slots[position] = count;
+  }
+  return slots;
+};
+
+const validateWeights = (value: unknown, path: string): IdpWeights => {
+  if (value === undefined) return DEFAULT_IDP_WEIGHTS;
+  if (!isPlainObject(value)) throw new IdpSettingsError(`${path} must be an object of stat weights`);
+  const weights = { ...DEFAULT_IDP_WEIGHTS };
+  for (const [stat, weight] of Object.entries(value)) {
+    if (!(IDP_STATS as readonly string[]).includes(stat)) {
+      throw new IdpSettingsError(`${path}.${stat} is not a supported IDP stat. Allowed: ${IDP_STATS.join(", ")}`);
+    }
+    if (typeof weight !== "number" || !Number.isFinite(weight)) {
+      throw new IdpSettingsError(`${path}.${stat} must be a finite number`);
+    }
+    weights[stat as IdpStat] = weight;
+  }
+  return weights;
+};
+
+/** Validates `{ slots?: { DL, LB, DB }, weights?: { def_sacks, … } }`; omitted entries keep their defaults. */
+export function buildIdpSettings(definition: unknown): IdpSettings {
+  if (definition === undefined) return DEFAULT_IDP_SETTINGS;
+  if (!isPlainObject(definition)) throw new IdpSettingsError("idp must be an object with slots and/or weights");
+  return {
+    slots: validateSlots(definition.slots, "idp.slots"),
+    weights: validateWeights(definition.weights, "idp.weights"),
+  };
+}
+
+const parseJsonParam = (raw: string, key: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    throw new IdpSettingsError(`${key} must be valid JSON: ${err.message}`);
+  }
+};
+
+/** Parses `idpSlots` as `DL:2,LB:3,DB:2` (or a JSON object). */
+const parseSlotsParam = (raw: string): unknown => {
+  if (raw.startsWith("{")) return parseJsonParam(raw, "idpSlots");
+  const slots: Record<string, number> = {};
+  for (const part of raw.split(",")) {
+    const [position, count] = part.split(":").map((value) => value.trim());
+    if (!position || count === undefined || !/^\d+$/.test(count)) {
+      throw new IdpSettingsError("idpSlots must look like DL:2,LB:2,DB:2");
+    }
+    slots[position] = Number(count);
+  }
+  return slots;
+};
+
+/**
+ * Reads `defense` plus, for `idp`, the optional `idpSlots` and `idpWeights`
+ * (JSON) parameters.
+ */
+export function parseDefenseParams(
+  url: URL,
+  fallback: DefenseMode = "approx",
+): { defense: DefenseMode; idp?: IdpSettings } {
+  const defense = parseEnumParam(url, "defense", DEFENSE_MODES, fallback);
+  if (defense !== "idp") return { defense };
+  const slotsRaw = parseStringParam(url, "idpSlots", "", { maxLength: MAX_IDP_PARAM_LENGTH });
+  const weightsRaw = parseStringParam(url, "idpWeights", "", { maxLength: MAX_IDP_PARAM_LENGTH });
+  return {
+    defense,
+    idp: {
+      slots: slotsRaw ? validateSlots(parseSlotsParam(slotsRaw), "idpSlots") : DEFAULT_IDP_SETTINGS.slots,
+      weights: weightsRaw ? validateWeights(parseJsonParam(weightsRaw, "idpWeights"), "idpWeights") : DEFAULT_IDP_WEIGHTS,
+    },
+  };
+}
+
+export const idpWeightsKey = (weights: IdpWeights = DEFAULT_IDP_WEIGHTS): string =>
+  IDP_STATS.map((stat) => weights[stat]).join(",");
+
+/** Stable id for cache keys. */
+export function idpSettingsKey(settings: IdpSettings = DEFAULT_IDP_SETTINGS): string {
+  const slots = IDP_POSITIONS.map((position) => `${position}${settings.slots[position]}`).join("");
+  return `${slots}:${idpWeightsKey(settings.weights)}`;
+}
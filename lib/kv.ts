@@ -1,3 +1,5 @@
+import { assignErrorCause } from "./errors";
+
 const kvUrl = (process.env.UPSTASH_REDIS_REST_URL ?? process.env.KV_REST_API_URL)?.replace(/\/$/, "");
 const kvToken = (process.env.UPSTASH_REDIS_REST_TOKEN ?? process.env.KV_REST_API_TOKEN)?.trim();
 
@@ -19,10 +21,19 @@ const parseValue = <T>(raw: unknown): T | null => {
 
 type KvResponse<T> = { result?: T };
 
-async function kvFetch<T>(path: string, init?: RequestInit): Promise<KvResponse<T> | null> {
-  if (!kvConfigured || !kvUrl || !kvToken) return null;
+export class KvRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KvRequestError";
+  }
+}
+
+/** Throws `KvRequestError` when KV is not configured or the request fails. */
+async function kvRequest<T>(path: string, init?: RequestInit): Promise<KvResponse<T>> {
+  if (!kvConfigured || !kvUrl || !kvToken) throw new KvRequestError("KV is not configured");
+  let res: Response;
   try {
-    const res = await fetch(`${kvUrl}/${path}`, {
+    res = await fetch(`${kvUrl}/${path}`, {
       ...init,
       headers: {
         Authorization: `Bearer ${kvToken}`,
@@ -31,8 +42,21 @@ async function kvFetch<T>(path: string, init?: RequestInit): Promise<KvResponse<
       },
       cache: "no-store",
     });
-    if (!res.ok) throw new Error(`KV request failed: ${res.status}`);
+  } catch (error) {
+    throw assignErrorCause(new KvRequestError(`KV request failed for ${path}`), error);
+  }
+  if (!res.ok) throw new KvRequestError(`KV request failed for ${path}: ${res.status}`);
+  try {
     return (await res.json()) as KvResponse<T>;
+  } catch (error) {
+    throw assignErrorCause(new KvRequestError(`KV returned invalid JSON for ${path}`), error);
+  }
+}
+
+async function kvFetch<T>(path: string, init?: RequestInit): Promise<KvResponse<T> | null> {
+  if (!kvConfigured) return null;
+  try {
+    return await kvRequest<T>(path, init);
   } catch (error) {
     // eslint-disable-next-line no-console
     console.warn(`[kv] request failed for ${path}`, error);
@@ -46,6 +70,16 @@ export async function kvGet<T>(key: string): Promise<T | null> {
   return parseValue<T>(response.result);
 }
 
+/**
+ * Like `kvGet`, but only a missing key is `null`: failed requests throw
+ * `KvRequestError`, so callers that write back what they read never mistake an
+ * outage for an empty value.
+ */
+export async function kvGetStrict<T>(key: string): Promise<T | null> {
+  const response = await kvRequest<unknown>(`get/${safeKey(key)}`);
+  return parseValue<T>(response.result);
+}
+
 export async function kvSet(key: string, value: unknown, ttlSeconds?: number): Promise<boolean> {
   const body = {
     value: JSON.stringify(value),
@@ -65,3 +99,24 @@ export async function kvDel(key: string): Promise<boolean> {
   const result = response?.result;
   return typeof result === "number" ? result > 0 : Boolean(result);
 }
+
+/** SET with NX: only writes when the key does not exist yet. Used for short-lived locks. */
+export async function kvSetNx(key: string, value: string, ttlSeconds: number): Promise<boolean> {
+  const ttl = Math.max(1, Math.trunc(ttlSeconds));
+  const response = await kvFetch<string | null>(
+    `set/${safeKey(key)}/${encodeURIComponent(value)}/NX/EX/${ttl}`,
+  );
+  return response?.result === "OK";
+}
+
+const DEL_IF_EQUALS_SCRIPT =
+  'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) end return 0';
+
+/** Deletes `key` only while it still holds `value`, in one atomic script. Used to release `kvSetNx` locks. */
+export async function kvDelIfEquals(key: string, value: string): Promise<boolean> {
+  const response = await kvFetch<number>(
+    `eval/${encodeURIComponent(DEL_IF_EQUALS_SCRIPT)}/1/${safeKey(key)}/${encodeURIComponent(value)}`,
+    { method: "POST" },
+  );
+  return response?.result === 1;
+}
@@ -1,6 +1,9 @@
-import { promises as fs } from "fs";
-import path from "path";
-import { createErrorWithCause } from "./errors";
+import { HttpError } from "./api";
+import { buildIdpSettings, DEFENSE_MODES, type DefenseMode, type IdpSettings } from "./idp";
+import { getLeagueStorage } from "./leagueStorage";
+import { buildCustomLineup, resolveLineupTemplate, type LineupTemplate } from "./lineups";
+import { resolveScoringRules } from "./scoringRules";
+import type { PlayoffOptions } from "./playoffs";
 
 export type MatchRecord = {
   season: number;
@@ -13,54 +16,445 @@ export type MatchRecord = {
   awayPoints: number;
   winner: "home" | "away" | "tie";
   timestamp: number;
+  league?: string;
+  key?: string;
 };
 
-export type StandingsRow = {
-  school: string;
+export type MatchScore = Pick<MatchRecord, "homePoints" | "awayPoints" | "winner">;
+
+export type MatchAuditEntry = {
+  key: string;
+  action: "insert" | "update";
+  source: string;
+  previous?: MatchScore;
+  next: MatchScore;
+  timestamp: number;
+};
+
+export type UpsertResult = {
+  key: string;
+  action: "insert" | "update" | "unchanged";
+  record: MatchRecord;
+  previous?: MatchScore;
+};
+
+export type ScheduleType = "round-robin" | "divisional";
+
+export type ScheduledGame = {
+  week: number;
+  home: string;
+  away: string;
+};
+
+export type League = {
+  id: string;
+  name: string;
+  season: number;
+  format: string;
+  mode: "weekly" | "avg";
+  includeK: boolean;
+  defense: DefenseMode;
+  /** IDP slots and weights; only set when `defense` is `idp`. */
+  idp?: IdpSettings;
+  lineup: string | LineupTemplate;
+  schools: string[];
+  divisions?: Record<string, string[]>;
+  scheduleType: ScheduleType;
+  startWeek: number;
+  endWeek: number;
+  schedule: ScheduledGame[];
+  playoffs?: PlayoffOptions;
+  createdAt: number;
+};
+
+export type RecordSplit = {
   wins: number;
   losses: number;
   ties: number;
+};
+
+export type StandingsRow = RecordSplit & {
+  school: string;
   pointsFor: number;
   pointsAgainst: number;
+  /** Current run of identical results, e.g. "W3"; empty before the first game. */
+  streak: string;
+  lastFive: RecordSplit;
+  home: RecordSplit;
+  away: RecordSplit;
+  /** Record against each opponent, keyed by opponent name. */
+  headToHead: Record<string, RecordSplit>;
+  /** Average win percentage of the opponents faced, counted once per game. */
+  strengthOfSchedule: number;
+  gamesBehind: number;
+  /** Record if the school had played every other school that scored in the same week. */
+  allPlay: RecordSplit;
 };
 
-const RECORDS_PATH = process.env.RECORDS_PATH || "data/records.json";
 const ENABLE_WRITE = (process.env.ENABLE_WRITE || "true").toLowerCase() === "true";
 
-const isEnoent = (error: unknown): boolean =>
-  typeof error === "object" &&
-  error !== null &&
-  (error as { code?: string }).code === "ENOENT";
+export async function loadRecords(): Promise<MatchRecord[]> {
+  return getLeagueStorage().read<MatchRecord>("records");
+}
+
+/**
+ * Stable identity for a match: the same league, season, week, scoring format,
+ * selection mode and home/away pairing always map to the same key.
+ */
+export function matchKey(record: Pick<MatchRecord, "season" | "week" | "format" | "mode" | "home" | "away" | "league">): string {
+  return [
+    record.league ?? "adhoc",
+    record.season,
+    record.week,
+    record.format.toLowerCase(),
+    record.mode,
+    record.home.trim().toLowerCase(),
+    record.away.trim().toLowerCase(),
+  ].join("|");
+}
 
-const recordsDir = () => path.dirname(path.resolve(RECORDS_PATH));
+const scoreOf = (record: MatchRecord): MatchScore => ({
+  homePoints: record.homePoints,
+  awayPoints: record.awayPoints,
+  winner: record.winner,
+});
 
-export async function loadRecords(): Promise<MatchRecord[]> {
-  try {
-    const raw = await fs.readFile(RECORDS_PATH, "utf-8");
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) {
-      throw new Error(`Invalid data in ${RECORDS_PATH}: expected an array`);
+const sameScore = (a: MatchScore, b: MatchScore) =>
+  a.homePoints === b.homePoints && a.awayPoints === b.awayPoints && a.winner === b.winner;
+
+/**
+ * Keeps the newest record per match key. Older files may contain duplicates
+ * from before records were upserted.
+ */
+export function dedupeRecords(records: MatchRecord[]): MatchRecord[] {
+  const byKey = new Map<string, MatchRecord>();
+  for (const record of records) {
+    const key = record.key ?? matchKey(record);
+    const existing = byKey.get(key);
+    if (!existing || record.timestamp >= existing.timestamp) byKey.set(key, record);
+  }
+  return Array.from(byKey.values());
+}
+
+export async function saveRecord(record: MatchRecord, source = "matchup"): Promise<UpsertResult> {
+  const [result] = await saveRecords([record], source);
+  return result;
+}
+
+/**
+ * Upserts records by match key. A record whose score changed replaces the
+ * stored one and appends an audit entry with the previous and new score;
+ * identical scores are left untouched.
+ */
+export async function saveRecords(newRecords: MatchRecord[], source = "league"): Promise<UpsertResult[]> {
+  const keyed = newRecords.map((record) => ({ ...record, key: matchKey(record) }));
+  if (!ENABLE_WRITE) {
+    return keyed.map((record) => ({ key: record.key, action: "unchanged" as const, record }));
+  }
+  if (keyed.length === 0) return [];
+  const results: UpsertResult[] = [];
+  await getLeagueStorage().update<MatchRecord>("records", (records) => {
+    results.length = 0;
+    const next = dedupeRecords(records).map((record) => (record.key ? record : { ...record, key: matchKey(record) }));
+    const indexByKey = new Map(next.map((record, index) => [record.key!, index]));
+    for (const record of keyed) {
+      const index = indexByKey.get(record.key);
+      if (index === undefined) {
+        indexByKey.set(record.key, next.length);
+        next.push(record);
+        results.push({ key: record.key, action: "insert", record });
+        continue;
+      }
+      const existing = next[index];
+      if (sameScore(scoreOf(existing), scoreOf(record))) {
+        results.push({ key: record.key, action: "unchanged", record: existing });
+        continue;
+      }
+      next[index] = record;
+      results.push({ key: record.key, action: "update", record, previous: scoreOf(existing) });
+    }
+    return next;
+  });
+  const audit: MatchAuditEntry[] = results
+    .filter((result) => result.action !== "unchanged")
+    .map((result) => ({
+      key: result.key,
+      action: result.action as MatchAuditEntry["action"],
+      source,
+      previous: result.previous,
+      next: scoreOf(result.record),
+      timestamp: result.record.timestamp,
+    }));
+  if (audit.length) {
+    await getLeagueStorage().update<MatchAuditEntry>("audit", (entries) => [...entries, ...audit]);
+  }
+  return results;
+}
+
+export async function loadAuditTrail(filter: { key?: string; keyPrefix?: string } = {}): Promise<MatchAuditEntry[]> {
+  const entries = await getLeagueStorage().read<MatchAuditEntry>("audit");
+  return entries.filter((entry) => {
+    if (filter.key && entry.key !== filter.key) return false;
+    if (filter.keyPrefix && !entry.key.startsWith(filter.keyPrefix)) return false;
+    return true;
+  });
+}
+
+export async function loadLeagues(): Promise<League[]> {
+  return getLeagueStorage().read<League>("leagues");
+}
+
+export async function getLeague(id: string): Promise<League> {
+  const leagues = await loadLeagues();
+  const match = leagues.find((league) => league.id.toLowerCase() === id.trim().toLowerCase());
+  if (!match) throw new HttpError(404, `League "${id}" not found`);
+  return match;
+}
+
+export async function saveLeague(league: League) {
+  if (!ENABLE_WRITE) {
+    throw new HttpError(403, "League writes are disabled (ENABLE_WRITE=false)");
+  }
+  await getLeagueStorage().update<League>("leagues", (leagues) => {
+    if (leagues.some((existing) => existing.id.toLowerCase() === league.id.toLowerCase())) {
+      throw new HttpError(409, `League "${league.id}" already exists`);
     }
-    return parsed as MatchRecord[];
-  } catch (error) {
-    if (isEnoent(error)) return [];
-    if (error instanceof Error) {
-      throw createErrorWithCause(`Failed to load records from ${RECORDS_PATH}: ${error.message}`, error);
+    return [...leagues, league];
+  });
+}
+
+const BYE = "__bye__";
+
+/**
+ * Circle-method round robin: every school meets every other school once per
+ * cycle. Odd school counts get a bye each round (bye games are dropped).
+ */
+export function roundRobinRounds(schools: string[]): { home: string; away: string }[][] {
+  const teams = schools.length % 2 === 0 ? [...schools] : [...schools, BYE];
+  if (teams.length < 2) return [];
+  const rounds: { home: string; away: string }[][] = [];
+  const rotating = teams.slice(1);
+  for (let round = 0; round < teams.length - 1; round += 1) {
+    const order = [teams[0], ...rotating];
+    const games: { home: string; away: string }[] = [];
+    for (let i = 0; i < order.length / 2; i += 1) {
+      const a = order[i];
+      const b = order[order.length - 1 - i];
+      if (a === BYE || b === BYE) continue;
+      // Alternate the fixed team's venue so home games are spread evenly.
+      const flip = i === 0 ? round % 2 === 1 : i % 2 === 1;
+      games.push(flip ? { home: b, away: a } : { home: a, away: b });
     }
-    throw error;
+    rounds.push(games);
+    rotating.unshift(rotating.pop()!);
   }
+  return rounds;
 }
 
-export async function saveRecord(record: MatchRecord) {
-  if (!ENABLE_WRITE) return;
-  const records = await loadRecords();
-  records.push(record);
-  await fs.mkdir(recordsDir(), { recursive: true });
-  await fs.writeFile(RECORDS_PATH, JSON.stringify(records, null, 2), "utf-8");
+const swapVenues = (round: { home: string; away: string }[]) => round.map(({ home, away }) => ({ home: away, away: home }));
+
+const assignWeeks = (rounds: { home: string; away: string }[][], startWeek: number, endWeek: number): ScheduledGame[] => {
+  const schedule: ScheduledGame[] = [];
+  if (!rounds.length) return schedule;
+  for (let week = startWeek, index = 0; week <= endWeek; week += 1, index += 1) {
+    const cycle = Math.floor(index / rounds.length);
+    const base = rounds[index % rounds.length];
+    const round = cycle % 2 === 1 ? swapVenues(base) : base;
+    for (const game of round) schedule.push({ week, ...game });
+  }
+  return schedule;
+};
+
+export function generateRoundRobinSchedule(schools: string[], startWeek: number, endWeek: number): ScheduledGame[] {
+  return assignWeeks(roundRobinRounds(schools), startWeek, endWeek);
+}
+
+/**
+ * Divisional schedules play a home-and-away round robin inside each division
+ * first, then fill the remaining weeks with league-wide rounds.
+ */
+export function generateDivisionalSchedule(
+  divisions: Record<string, string[]>,
+  startWeek: number,
+  endWeek: number,
+): ScheduledGame[] {
+  const divisionRounds = Object.values(divisions).map(roundRobinRounds);
+  const roundCount = Math.max(0, ...divisionRounds.map((rounds) => rounds.length));
+  const intra: { home: string; away: string }[][] = [];
+  for (let i = 0; i < roundCount; i += 1) {
+    intra.push(divisionRounds.flatMap((rounds) => rounds[i] ?? []));
+  }
+  const intraRounds = [...intra, ...intra.map(swapVenues)];
+  const leagueRounds = roundRobinRounds(Object.values(divisions).flat());
+  const schedule: ScheduledGame[] = [];
+  let week = startWeek;
+  for (const round of intraRounds) {
+    if (week > endWeek) break;
+    for (const game of round) schedule.push({ week, ...game });
+    week += 1;
+  }
+  if (week <= endWeek) schedule.push(...assignWeeks(leagueRounds, week, endWeek));
+  return schedule;
+}
+
+const MAX_LEAGUE_SCHOOLS = 64;
+const LEAGUE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const cleanSchoolList = (value: unknown, label: string): string[] => {
+  if (!Array.isArray(value)) throw new HttpError(400, `${label} must be an array of school names`);
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const entry of value) {
+    const name = typeof entry === "string" ? entry.replace(/\s+/g, " ").trim() : "";
+    if (!name) throw new HttpError(400, `${label} contains an empty school name`);
+    const key = name.toLowerCase();
+    if (seen.has(key)) throw new HttpError(400, `${label} lists "${name}" more than once`);
+    seen.add(key);
+    result.push(name);
+  }
+  return result;
+};
+
+const optionalInt = (value: unknown, label: string, fallback: number, min: number, max: number): number => {
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== "number" || !Number.isInteger(value)) throw new HttpError(400, `${label} must be an integer`);
+  if (value < min || value > max) throw new HttpError(400, `${label} must be between ${min} and ${max}`);
+  return value;
+};
+
+/**
+ * Validates a league definition (as posted to `/api/leagues`) and generates
+ * its schedule. Schools come from `schools` or, for divisional leagues, from
+ * the union of `divisions`.
+ */
+export function buildLeague(definition: unknown, now: number = Date.now()): League {
+  if (!isPlainObject(definition)) throw new HttpError(400, "League definition must be a JSON object");
+  const id = typeof definition.id === "string" ? definition.id.trim().toLowerCase() : "";
+  if (!LEAGUE_ID_PATTERN.test(id)) {
+    throw new HttpError(400, "id must be 1-64 characters of lowercase letters, digits, or dashes");
+  }
+  const name = typeof definition.name === "string" && definition.name.trim() ? definition.name.trim() : id;
+  const season = optionalInt(definition.season, "season", NaN, 1900, 2100);
+  if (!Number.isFinite(season)) throw new HttpError(400, "season is required");
+  const format = resolveScoringRules(typeof definition.format === "string" ? definition.format : undefined).name;
+  const mode = definition.mode === undefined ? "weekly" : definition.mode;
+  if (mode !== "weekly" && mode !== "avg") throw new HttpError(400, "mode must be weekly or avg");
+  const defense = definition.defense === undefined ? "approx" : definition.defense;
+  if (!(DEFENSE_MODES as readonly unknown[]).includes(defense)) {
+    throw new HttpError(400, `defense must be one of ${DEFENSE_MODES.join(", ")}`);
+  }
+  const idp = defense === "idp" ? buildIdpSettings(definition.idp) : undefined;
+  const includeK = definition.includeK === undefined ? true : definition.includeK;
+  if (typeof includeK !== "boolean") throw new HttpError(400, "includeK must be a boolean");
+  const lineup = isPlainObject(definition.lineup)
+    ? buildCustomLineup(definition.lineup)
+    : resolveLineupTemplate(typeof definition.lineup === "string" ? definition.lineup : undefined).name;
+  const startWeek = optionalInt(definition.startWeek, "startWeek", 1, 1, 18);
+  const endWeek = optionalInt(definition.endWeek, "endWeek", 14, startWeek, 18);
+  const scheduleType = definition.scheduleType === undefined
+    ? (definition.divisions ? "divisional" : "round-robin")
+    : definition.scheduleType;
+  if (scheduleType !== "round-robin" && scheduleType !== "divisional") {
+    throw new HttpError(400, "scheduleType must be round-robin or divisional");
+  }
+
+  let divisions: Record<string, string[]> | undefined;
+  let schools: string[];
+  if (scheduleType === "divisional") {
+    if (!isPlainObject(definition.divisions) || Object.keys(definition.divisions).length < 2) {
+      throw new HttpError(400, "divisional leagues need at least two divisions");
+    }
+    divisions = {};
+    for (const [division, members] of Object.entries(definition.divisions)) {
+      divisions[division] = cleanSchoolList(members, `divisions.${division}`);
+    }
+    schools = cleanSchoolList(Object.values(divisions).flat(), "divisions");
+  } else {
+    schools = cleanSchoolList(definition.schools, "schools");
+  }
+  if (schools.length < 2) throw new HttpError(400, "A league needs at least two schools");
+  if (schools.length > MAX_LEAGUE_SCHOOLS) {
+    throw new HttpError(400, `A league can have at most ${MAX_LEAGUE_SCHOOLS} schools`);
+  }
+
+  const schedule = divisions
+    ? generateDivisionalSchedule(divisions, startWeek, endWeek)
+    : generateRoundRobinSchedule(schools, startWeek, endWeek);
+  return {
+    id,
+    name,
+    season,
+    format,
+    mode,
+    includeK,
+    defense: defense as DefenseMode,
+    ...(idp ? { idp } : {}),
+    lineup,
+    schools,
+    divisions,
+    scheduleType,
+    startWeek,
+    endWeek,
+    schedule,
+    createdAt: now,
+  };
 }
 
-export function computeStandings(records: MatchRecord[]): StandingsRow[] {
+const emptySplit = (): RecordSplit => ({ wins: 0, losses: 0, ties: 0 });
+
+const addResult = (split: RecordSplit, result: "W" | "L" | "T") => {
+  if (result === "W") split.wins += 1;
+  else if (result === "L") split.losses += 1;
+  else split.ties += 1;
+};
+
+export const winPercentage = (split: RecordSplit): number => {
+  const games = split.wins + split.losses + split.ties;
+  if (games === 0) return 0;
+  return (split.wins + split.ties * 0.5) / games;
+};
+
+/**
+ * Win percentage in games against the other members of `group` (0 when they
+ * never met). Only meaningful as a tiebreaker when `haveAllMet(group)`.
+ */
+export const headToHeadPercentage = (row: StandingsRow, group: Iterable<string>): number => {
+  const total = emptySplit();
+  for (const opponent of group) {
+    const split = row.headToHead[opponent];
+    if (!split || opponent === row.school) continue;
+    total.wins += split.wins;
+    total.losses += split.losses;
+    total.ties += split.ties;
+  }
+  return winPercentage(total);
+};
+
+/** True when every pair of tied schools has played at least once, so head-to-head can separate them. */
+export const haveAllMet = (tied: StandingsRow[]): boolean =>
+  tied.every((row) =>
+    tied.every((other) => {
+      if (other.school === row.school) return true;
+      const split = row.headToHead[other.school];
+      return Boolean(split && split.wins + split.losses + split.ties > 0);
+    }),
+  );
+
+const allPlayGroup = (record: MatchRecord) =>
+  [record.league ?? "", record.season, record.week, record.format.toLowerCase(), record.mode].join("|");
+
+/**
+ * Standings sorted by win percentage, then head-to-head results among the
+ * schools that are level (only when they have all played each other), then
+ * point differential. `schools` seeds rows for
+ * league members that have not played yet.
+ */
+export function computeStandings(records: MatchRecord[], schools: string[] = []): StandingsRow[] {
   const rows = new Map<string, StandingsRow>();
+  const results = new Map<string, { result: "W" | "L" | "T"; opponent: string }[]>();
 
   const ensureRow = (school: string): StandingsRow => {
     if (!rows.has(school)) {
@@ -71,12 +465,28 @@ export function computeStandings(records: MatchRecord[]): StandingsRow[] {
         ties: 0,
         pointsFor: 0,
         pointsAgainst: 0,
+        streak: "",
+        lastFive: emptySplit(),
+        home: emptySplit(),
+        away: emptySplit(),
+        headToHead: {},
+        strengthOfSchedule: 0,
+        gamesBehind: 0,
+        allPlay: emptySplit(),
       });
+      results.set(school, []);
     }
     return rows.get(school)!;
   };
 
-  for (const record of records) {
+  for (const school of schools) ensureRow(school);
+
+  const ordered = dedupeRecords(records).sort(
+    (a, b) => a.season - b.season || a.week - b.week || a.timestamp - b.timestamp,
+  );
+  const weeklyScores = new Map<string, Map<string, number>>();
+
+  for (const record of ordered) {
     const home = ensureRow(record.home);
     const away = ensureRow(record.away);
 
@@ -85,29 +495,71 @@ export function computeStandings(records: MatchRecord[]): StandingsRow[] {
     away.pointsFor += record.awayPoints;
     away.pointsAgainst += record.homePoints;
 
-    if (record.winner === "home") {
-      home.wins += 1;
-      away.losses += 1;
-    } else if (record.winner === "away") {
-      away.wins += 1;
-      home.losses += 1;
-    } else {
-      home.ties += 1;
-      away.ties += 1;
+    const homeResult = record.winner === "home" ? "W" : record.winner === "away" ? "L" : "T";
+    const awayResult = homeResult === "W" ? "L" : homeResult === "L" ? "W" : "T";
+    addResult(home, homeResult);
+    addResult(away, awayResult);
+    addResult(home.home, homeResult);
+    addResult(away.away, awayResult);
+    addResult((home.headToHead[away.school] ??= emptySplit()), homeResult);
+    addResult((away.headToHead[home.school] ??= emptySplit()), awayResult);
+    results.get(home.school)!.push({ result: homeResult, opponent: away.school });
+    results.get(away.school)!.push({ result: awayResult, opponent: home.school });
+
+    const group = allPlayGroup(record);
+    if (!weeklyScores.has(group)) weeklyScores.set(group, new Map());
+    weeklyScores.get(group)!.set(home.school, record.homePoints);
+    weeklyScores.get(group)!.set(away.school, record.awayPoints);
+  }
+
+  for (const scores of weeklyScores.values()) {
+    for (const [school, points] of scores) {
+      const row = rows.get(school)!;
+      for (const [other, otherPoints] of scores) {
+        if (other === school) continue;
+        addResult(row.allPlay, points > otherPoints ? "W" : points < otherPoints ? "L" : "T");
+      }
     }
   }
 
-  const toWinPct = (row: StandingsRow) => {
-    const games = row.wins + row.losses + row.ties;
-    if (games === 0) return 0;
-    return (row.wins + row.ties * 0.5) / games;
-  };
+  for (const row of rows.values()) {
+    const history = results.get(row.school)!;
+    for (const { result } of history.slice(-5)) addResult(row.lastFive, result);
+    const last = history[history.length - 1];
+    if (last) {
+      let length = 0;
+      for (let i = history.length - 1; i >= 0 && history[i].result === last.result; i -= 1) length += 1;
+      row.streak = `${last.result}${length}`;
+    }
+    if (history.length) {
+      const opponentPct = history.reduce((sum, game) => sum + winPercentage(rows.get(game.opponent)!), 0);
+      row.strengthOfSchedule = Number((opponentPct / history.length).toFixed(3));
+    }
+  }
 
-  return Array.from(rows.values()).sort((a, b) => {
-    const pctDiff = toWinPct(b) - toWinPct(a);
-    if (pctDiff !== 0) return pctDiff;
-    const diffA = a.pointsFor - a.pointsAgainst;
-    const diffB = b.pointsFor - b.pointsAgainst;
-    return diffB - diffA;
-  });
+  const buckets = new Map<number, StandingsRow[]>();
+  for (const row of rows.values()) {
+    const pct = Number(winPercentage(row).toFixed(6));
+    if (!buckets.has(pct)) buckets.set(pct, []);
+    buckets.get(pct)!.push(row);
+  }
+  const standings: StandingsRow[] = [];
+  for (const pct of Array.from(buckets.keys()).sort((a, b) => b - a)) {
+    const tied = buckets.get(pct)!;
+    const group = tied.map((row) => row.school);
+    const useHeadToHead = haveAllMet(tied);
+    const headToHead = new Map(tied.map((row) => [row, useHeadToHead ? headToHeadPercentage(row, group) : 0]));
+    tied.sort((a, b) => {
+      const h2hDiff = headToHead.get(b)! - headToHead.get(a)!;
+      if (h2hDiff !== 0) return h2hDiff;
+      return b.pointsFor - b.pointsAgainst - (a.pointsFor - a.pointsAgainst);
+    });
+    standings.push(...tied);
+  }
+
+  const leader = standings[0];
+  for (const row of standings) {
+    row.gamesBehind = leader ? (leader.wins - row.wins + (row.losses - leader.losses)) / 2 : 0;
+  }
+  return standings;
 }
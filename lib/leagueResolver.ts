@@ -0,0 +1,137 @@
+import { normalizeSchool } from "@/utils/schoolNames";
+import { lastCompletedNflWeek, lastNflWeekForSeason } from "@/utils/nflWeek";
+import { aggregateByCollegeMode } from "./scoring";
+import { DEFAULT_IDP_SETTINGS } from "./idp";
+import { computeHistoricalAverages, loadWeek, NflverseAssetMissingError } from "./nflverse";
+import {
+  dedupeRecords,
+  loadRecords,
+  matchKey,
+  saveRecords,
+  type League,
+  type MatchRecord,
+  type ScheduledGame,
+  type UpsertResult,
+} from "./league";
+import type { SchoolAggregate } from "./types";
+
+export type LeagueResolution = {
+  records: MatchRecord[];
+  resolvedWeeks: number[];
+  pendingWeeks: number[];
+  newRecords: number;
+  corrections: UpsertResult[];
+};
+
+export type ResolveLeagueOptions = {
+  now?: Date;
+  /** Re-score games that were already recorded, e.g. after nflverse stat corrections. */
+  rescore?: boolean;
+};
+
+const gameKey = (league: League, game: ScheduledGame) =>
+  matchKey({ ...game, league: league.id, season: league.season, format: league.format, mode: league.mode });
+
+export const schoolKey = (school: string) => (normalizeSchool(school) || school).toLowerCase();
+
+export function isWeekFinal(season: number, week: number, now: Date = new Date()): boolean {
+  const last = lastCompletedNflWeek(now);
+  if (season < last.season) return week <= lastNflWeekForSeason(season);
+  if (season > last.season) return false;
+  return week <= last.week;
+}
+
+export const scoreLeagueWeek = async (league: League, week: number): Promise<SchoolAggregate[]> => {
+  const includeDefense = league.defense === "approx";
+  const idp = league.defense === "idp" ? league.idp ?? DEFAULT_IDP_SETTINGS : undefined;
+  const weekPromise = loadWeek({ season: league.season, week, format: league.format, includeDefense, idp: idp?.weights });
+  const averagesPromise: Promise<Record<string, number> | undefined> =
+    league.mode === "avg" && week > 1
+      ? computeHistoricalAverages(league.season, week, league.format, undefined, idp?.weights)
+      : Promise.resolve(undefined);
+  const [{ leaders, defenseData }, averages] = await Promise.all([weekPromise, averagesPromise]);
+  return aggregateByCollegeMode(leaders, week, league.format, league.mode, averages, {
+    includeK: league.includeK,
+    defense: league.defense,
+    defenseData,
+    lineup: league.lineup,
+    idp,
+  });
+};
+
+const toRecord = (league: League, game: ScheduledGame, rows: Map<string, SchoolAggregate>, now: number): MatchRecord => {
+  const homePoints = rows.get(schoolKey(game.home))?.totalPoints ?? 0;
+  const awayPoints = rows.get(schoolKey(game.away))?.totalPoints ?? 0;
+  const winner: MatchRecord["winner"] = homePoints > awayPoints ? "home" : awayPoints > homePoints ? "away" : "tie";
+  return {
+    season: league.season,
+    week: game.week,
+    format: league.format,
+    mode: league.mode,
+    home: game.home,
+    away: game.away,
+    homePoints,
+    awayPoints,
+    winner,
+    timestamp: now,
+    league: league.id,
+  };
+};
+
+/**
+ * Scores every scheduled game whose NFL week is final and has not been
+ * recorded for this league yet (or every final game with `rescore`). Weeks
+ * whose stats are not published are reported as pending and retried on the
+ * next call. Records are upserted, so re-scoring only changes games whose
+ * points moved and leaves an audit entry for each of them.
+ */
+export async function resolveLeagueGames(league: League, options: ResolveLeagueOptions = {}): Promise<LeagueResolution> {
+  const now = options.now ?? new Date();
+  const leagueRecords = dedupeRecords(await loadRecords()).filter((record) => record.league === league.id);
+  const recorded = new Set(leagueRecords.map((record) => record.key ?? matchKey(record)));
+
+  const outstanding = new Map<number, ScheduledGame[]>();
+  for (const game of league.schedule) {
+    if (!options.rescore && recorded.has(gameKey(league, game))) continue;
+    if (!outstanding.has(game.week)) outstanding.set(game.week, []);
+    outstanding.get(game.week)!.push(game);
+  }
+
+  const created: MatchRecord[] = [];
+  const resolvedWeeks: number[] = [];
+  const pendingWeeks: number[] = [];
+  const weeks = Array.from(outstanding.keys()).sort((a, b) => a - b);
+  for (const week of weeks) {
+    if (!isWeekFinal(league.season, week, now)) {
+      pendingWeeks.push(week);
+      continue;
+    }
+    let rows: SchoolAggregate[];
+    try {
+      rows = await scoreLeagueWeek(league, week);
+    } catch (error) {
+      if (error instanceof NflverseAssetMissingError) {
+        pendingWeeks.push(week);
+        continue;
+      }
+      throw error;
+    }
+    const bySchool = new Map(rows.map((row) => [schoolKey(row.school), row]));
+    for (const game of outstanding.get(week) ?? []) {
+      created.push(toRecord(league, game, bySchool, now.getTime()));
+    }
+    resolvedWeeks.push(week);
+  }
+
+  const results = await saveRecords(created, options.rescore ? "rescore" : "league");
+  const records = results.length
+    ? dedupeRecords(await loadRecords()).filter((record) => record.league === league.id)
+    : leagueRecords;
+  return {
+    records,
+    resolvedWeeks,
+    pendingWeeks,
+    newRecords: results.filter((result) => result.action === "insert").length,
+    corrections: results.filter((result) => result.action === "update"),
+  };
+}
@@ -0,0 +1,227 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { HttpError } from "./api";
+import { createErrorWithCause } from "./errors";
+import { kvConfigured, kvDelIfEquals, kvGetStrict, kvSet, kvSetNx } from "./kv";
+
+/**
+ * Persistence for league data. Every collection is an array document that is
+ * changed through `update`, which runs the mutator under the adapter's lock so
+ * concurrent writers never drop each other's rows.
+ */
+export interface LeagueStorageAdapter {
+  kind: LeagueStorageKind;
+  read<T>(collection: LeagueCollection): Promise<T[]>;
+  update<T>(collection: LeagueCollection, mutate: (items: T[]) => T[]): Promise<T[]>;
+}
+
+export type LeagueStorageKind = "file" | "kv" | "memory";
+
+export type LeagueCollection = "records" | "leagues" | "audit" | "collegeOverrides" | "collegeOverrideHistory";
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 25;
+const STALE_LOCK_MS = 15000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isErrno = (error: unknown, code: string): boolean =>
+  typeof error === "object" && error !== null && (error as { code?: string }).code === code;
+
+const lockTimeoutError = (target: string) =>
+  new HttpError(503, `Timed out waiting for the league storage lock on ${target}`, { code: "LEAGUE_STORAGE_LOCKED" });
+
+const FILE_PATHS: Record<LeagueCollection, () => string> = {
+  records: () => process.env.RECORDS_PATH || "data/records.json",
+  leagues: () => process.env.LEAGUES_PATH || "data/leagues.json",
+  audit: () => process.env.RECORDS_AUDIT_PATH || "data/records-audit.json",
+  collegeOverrides: () => process.env.COLLEGE_OVERRIDES_PATH || "data/college-overrides.json",
+  collegeOverrideHistory: () => process.env.COLLEGE_OVERRIDES_HISTORY_PATH || "data/college-overrides-history.json",
+};
+
+export function createFileLeagueStorage(paths: Partial<Record<LeagueCollection, string>> = {}): LeagueStorageAdapter {
+  const resolvePath = (collection: LeagueCollection) => paths[collection] ?? FILE_PATHS[collection]();
+
+  const readFile = async <T>(file: string): Promise<T[]> => {
+    try {
+      const raw = await fs.readFile(file, "utf-8");
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) {
+        throw new Error(`Invalid data in ${file}: expected an array`);
+      }
+      return parsed as T[];
+    } catch (error) {
+      if (isErrno(error, "ENOENT")) return [];
+      if (error instanceof Error) {
+        throw createErrorWithCause(`Failed to load league data from ${file}: ${error.message}`, error);
+      }
+      throw error;
+    }
+  };
+
+  const acquireLock = async (file: string): Promise<() => Promise<void>> => {
+    const lockPath = `${file}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      let handle: fs.FileHandle | null = null;
+      try {
+        handle = await fs.open(lockPath, "wx");
+      } catch (error) {
+        if (!isErrno(error, "EEXIST")) throw error;
+      }
+      if (handle) {
+        // a lock we created but could not finish writing must not wait out STALE_LOCK_MS
+        try {
+          try {
+            await handle.writeFile(String(process.pid));
+          } finally {
+            await handle.close();
+          }
+        } catch (error) {
+          await fs.rm(lockPath, { force: true });
+          throw error;
+        }
+        return async () => {
+          await fs.rm(lockPath, { force: true });
+        };
+      }
+      try {
+        const stat = await fs.stat(lockPath);
+        if (Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+          // eslint-disable-next-line no-console
+          console.warn(`[leagueStorage] Removing stale lock ${lockPath}`);
+          await fs.rm(lockPath, { force: true });
+          continue;
+        }
+      } catch (error) {
+        if (!isErrno(error, "ENOENT")) throw error;
+        continue;
+      }
+      if (Date.now() > deadline) throw lockTimeoutError(file);
+      await sleep(LOCK_RETRY_MS);
+    }
+  };
+
+  const writeAtomic = async (file: string, items: unknown[]) => {
+    await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(items, null, 2), "utf-8");
+    try {
+      await fs.rename(tmp, file);
+    } catch (error) {
+      await fs.rm(tmp, { force: true });
+      throw error;
+    }
+  };
+
+  return {
+    kind: "file",
+    read: <T>(collection: LeagueCollection) => readFile<T>(resolvePath(collection)),
+    async update<T>(collection: LeagueCollection, mutate: (items: T[]) => T[]) {
+      const file = resolvePath(collection);
+      await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+      const release = await acquireLock(file);
+      try {
+        const next = mutate(await readFile<T>(file));
+        await writeAtomic(file, next);
+        return next;
+      } finally {
+        await release();
+      }
+    },
+  };
+}
+
+export function createKvLeagueStorage(prefix: string = process.env.LEAGUE_KV_PREFIX || "league"): LeagueStorageAdapter {
+  const keyFor = (collection: LeagueCollection) => `${prefix}:${collection}`;
+
+  // A failed read throws instead of returning [], so `update` never writes a
+  // collection back over data it could not load.
+  const read = async <T>(collection: LeagueCollection): Promise<T[]> => {
+    const key = keyFor(collection);
+    let value: unknown;
+    try {
+      value = await kvGetStrict<unknown>(key);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      throw new HttpError(502, `Failed to load ${key} from KV: ${err.message}`, {
+        cause: error,
+        code: "LEAGUE_STORAGE_UNAVAILABLE",
+      });
+    }
+    if (value === null) return [];
+    if (!Array.isArray(value)) throw new HttpError(502, `Invalid data in ${key}: expected an array`);
+    return value as T[];
+  };
+
+  return {
+    kind: "kv",
+    read,
+    async update<T>(collection: LeagueCollection, mutate: (items: T[]) => T[]) {
+      const key = keyFor(collection);
+      const lockKey = `${key}:lock`;
+      const token = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      const deadline = Date.now() + LOCK_TIMEOUT_MS;
+      while (!(await kvSetNx(lockKey, token, Math.ceil(STALE_LOCK_MS / 1000)))) {
+        if (Date.now() > deadline) throw lockTimeoutError(key);
+        await sleep(LOCK_RETRY_MS * 4);
+      }
+      try {
+        const next = mutate(await read<T>(collection));
+        const stored = await kvSet(key, next);
+        if (!stored) throw new HttpError(502, `Failed to write ${key} to KV`);
+        return next;
+      } finally {
+        // a lock that expired mid-update may belong to another writer by now
+        await kvDelIfEquals(lockKey, token);
+      }
+    },
+  };
+}
+
+export function createMemoryLeagueStorage(initial: Partial<Record<LeagueCollection, unknown[]>> = {}): LeagueStorageAdapter {
+  const data = new Map<LeagueCollection, unknown[]>();
+  for (const [collection, items] of Object.entries(initial) as [LeagueCollection, unknown[]][]) {
+    data.set(collection, structuredClone(items));
+  }
+  let queue: Promise<unknown> = Promise.resolve();
+  return {
+    kind: "memory",
+    read: async <T>(collection: LeagueCollection) => structuredClone((data.get(collection) ?? []) as T[]),
+    update<T>(collection: LeagueCollection, mutate: (items: T[]) => T[]) {
+      const run = queue.then(() => {
+        const next = mutate(structuredClone((data.get(collection) ?? []) as T[]));
+        data.set(collection, structuredClone(next));
+        return next;
+      });
+      queue = run.catch(() => undefined);
+      return run;
+    },
+  };
+}
+
+const resolveKind = (): LeagueStorageKind => {
+  const raw = process.env.LEAGUE_STORAGE?.trim().toLowerCase();
+  if (raw === "file" || raw === "kv" || raw === "memory") return raw;
+  if (raw) {
+    // eslint-disable-next-line no-console
+    console.warn(`[leagueStorage] Unknown LEAGUE_STORAGE "${raw}", falling back to default`);
+  }
+  return kvConfigured ? "kv" : "file";
+};
+
+let activeStorage: LeagueStorageAdapter | null = null;
+
+/** Storage selected by `LEAGUE_STORAGE` (file, kv, memory); defaults to KV when Upstash is configured. */
+export function getLeagueStorage(): LeagueStorageAdapter {
+  if (activeStorage) return activeStorage;
+  const kind = resolveKind();
+  activeStorage =
+    kind === "kv" ? createKvLeagueStorage() : kind === "memory" ? createMemoryLeagueStorage() : createFileLeagueStorage();
+  return activeStorage;
+}
+
+/** Overrides the active adapter (tests); pass null to re-read the environment. */
+export function setLeagueStorage(storage: LeagueStorageAdapter | null) {
+  activeStorage = storage;
+}
@@ -0,0 +1,293 @@
+import { HttpError, parseStringParam } from "./api";
+
+export type LineupSlot = {
+  slot: string;
+  eligible: string[];
+  count: number;
+};
+
+export type LineupTemplate = {
+  name: string;
+  description?: string;
+  slots: LineupSlot[];
+};
+
+export type LineupInput = string | LineupTemplate;
+
+export class LineupTemplateError extends HttpError {
+  code = "INVALID_LINEUP_TEMPLATE" as const;
+
+  constructor(message: string) {
+    super(400, message, { code: "INVALID_LINEUP_TEMPLATE" });
+    this.name = "LineupTemplateError";
+  }
+}
+
+export const LINEUP_POSITIONS = ["QB", "RB", "WR", "TE", "K"] as const;
+
+const FLEX = ["WR", "RB", "TE"];
+const SUPERFLEX = ["QB", "WR", "RB", "TE"];
+
+export const LINEUP_PRESETS: Record<string, LineupTemplate> = {
+  standard: {
+    name: "standard",
+    description: "QB, TE, WR×2, RB×2, K, FLEX (WR/RB/TE)",
+    slots: [
+      { slot: "QB", eligible: ["QB"], count: 1 },
+      { slot: "TE", eligible: ["TE"], count: 1 },
+      { slot: "WR", eligible: ["WR"], count: 2 },
+      { slot: "RB", eligible: ["RB"], count: 2 },
+      { slot: "K", eligible: ["K"], count: 1 },
+      { slot: "FLEX", eligible: FLEX, count: 1 },
+    ],
+  },
+  superflex: {
+    name: "superflex",
+    description: "Standard lineup plus a SUPERFLEX (QB/WR/RB/TE)",
+    slots: [
+      { slot: "QB", eligible: ["QB"], count: 1 },
+      { slot: "TE", eligible: ["TE"], count: 1 },
+      { slot: "WR", eligible: ["WR"], count: 2 },
+      { slot: "RB", eligible: ["RB"], count: 2 },
+      { slot: "K", eligible: ["K"], count: 1 },
+      { slot: "FLEX", eligible: FLEX, count: 1 },
+      { slot: "SUPERFLEX", eligible: SUPERFLEX, count: 1 },
+    ],
+  },
+  "2qb": {
+    name: "2qb",
+    description: "Two QBs, TE, WR×2, RB×2, K, FLEX",
+    slots: [
+      { slot: "QB", eligible: ["QB"], count: 2 },
+      { slot: "TE", eligible: ["TE"], count: 1 },
+      { slot: "WR", eligible: ["WR"], count: 2 },
+      { slot: "RB", eligible: ["RB"], count: 2 },
+      { slot: "K", eligible: ["K"], count: 1 },
+      { slot: "FLEX", eligible: FLEX, count: 1 },
+    ],
+  },
+  "3wr": {
+    name: "3wr",
+    description: "QB, TE, WR×3, RB×2, K, FLEX",
+    slots: [
+      { slot: "QB", eligible: ["QB"], count: 1 },
+      { slot: "TE", eligible: ["TE"], count: 1 },
+      { slot: "WR", eligible: ["WR"], count: 3 },
+      { slot: "RB", eligible: ["RB"], count: 2 },
+      { slot: "K", eligible: ["K"], count: 1 },
+      { slot: "FLEX", eligible: FLEX, count: 1 },
+    ],
+  },
+  "bestball-10": {
+    name: "bestball-10",
+    description: "Best 10 scorers at any offensive position or kicker",
+    slots: [{ slot: "BEST", eligible: [...LINEUP_POSITIONS], count: 10 }],
+  },
+};
+
+export const LINEUP_PRESET_NAMES = Object.keys(LINEUP_PRESETS);
+
+export const DEFAULT_LINEUP = "standard";
+
+const MAX_SLOTS = 20;
+const MAX_SLOT_COUNT = 20;
+const MAX_LINEUP_PARAM_LENGTH = 2000;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const normalizePosition = (value: unknown): string => String(value ?? "").trim().toUpperCase();
+
+/** Validates a JSON lineup definition of the form `{ name?, slots: [{ slot, eligible, count? }] }`. */
+export function buildCustomLineup(definition: unknown): LineupTemplate {
+  if (!isPlainObject(definition)) {
+    throw new LineupTemplateError("lineup must be a preset name or a JSON object with slots");
+  }
+  const { slots } = definition;
+  if (!Array.isArray(slots) || slots.length === 0) {
+    throw new LineupTemplateError("lineup.slots must be a non-empty array");
+  }
+  if (slots.length > MAX_SLOTS) {
+    throw new LineupTemplateError(`lineup.slots must contain at most ${MAX_SLOTS} entries`);
+  }
+  const parsed = slots.map((entry, index): LineupSlot => {
+    const path = `lineup.slots[${index}]`;
+    if (!isPlainObject(entry)) throw new LineupTemplateError(`${path} must be an object`);
+    const slot = normalizePosition(entry.slot);
+    if (!slot) throw new LineupTemplateError(`${path}.slot is required`);
+    const eligibleRaw = entry.eligible === undefined ? [slot] : entry.eligible;
+    if (!Array.isArray(eligibleRaw) || eligibleRaw.length === 0) {
+      throw new LineupTemplateError(`${path}.eligible must be a non-empty array of positions`);
+    }
+    const eligible = Array.from(new Set(eligibleRaw.map(normalizePosition)));
+    for (const position of eligible) {
+      if (!(LINEUP_POSITIONS as readonly string[]).includes(position)) {
+        throw new LineupTemplateError(`${path}.eligible contains unsupported position "${position}". Allowed: ${LINEUP_POSITIONS.join(", ")}`);
+      }
+    }
+    const count = entry.count === undefined ? 1 : entry.count;
+    if (typeof count !== "number" || !Number.isInteger(count) || count < 1 || count > MAX_SLOT_COUNT) {
+      throw new LineupTemplateError(`${path}.count must be an integer between 1 and ${MAX_SLOT_COUNT}`);
+    }
+    return { slot, eligible, count };
+  });
+  const name = typeof definition.name === "string" && definition.name.trim() ? definition.name.trim().slice(0, 32) : "custom";
+  return { name, slots: parsed };
+}
+
+export function resolveLineupTemplate(lineup: LineupInput | undefined | null): LineupTemplate {
+  if (lineup === undefined || lineup === null) return LINEUP_PRESETS[DEFAULT_LINEUP];
+  if (typeof lineup !== "string") return lineup;
+  const normalized = lineup.trim().toLowerCase();
+  if (!normalized) return LINEUP_PRESETS[DEFAULT_LINEUP];
+  const match = LINEUP_PRESETS[normalized];
+  if (!match) {
+    throw new LineupTemplateError(`Unknown lineup "${lineup}". lineup must be one of: ${LINEUP_PRESET_NAMES.join(", ")}`);
+  }
+  return match;
+}
+
+/**
+ * Drops kickers from every slot when `includeK` is false; slots left without
+ * eligible positions are removed entirely.
+ */
+export function applyKickerPreference(template: LineupTemplate, includeK: boolean): LineupTemplate {
+  if (includeK) return template;
+  const slots = template.slots
+    .map((slot) => ({ ...slot, eligible: slot.eligible.filter((position) => position !== "K") }))
+    .filter((slot) => slot.eligible.length > 0);
+  return { ...template, slots };
+}
+
+/** Reads `lineup` as either a preset name or a JSON template. */
+export function parseLineupParam(url: URL, fallback: string = DEFAULT_LINEUP): LineupTemplate {
+  const raw = parseStringParam(url, "lineup", fallback, { maxLength: MAX_LINEUP_PARAM_LENGTH });
+  if (!raw.startsWith("{")) return resolveLineupTemplate(raw);
+  let definition: unknown;
+  try {
+    definition = JSON.parse(raw);
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    throw new LineupTemplateError(`lineup must be valid JSON: ${err.message}`);
+  }
+  return buildCustomLineup(definition);
+}
+
+export type SlotAssignment<T> = { slot: string; player: T };
+
+type FlowEdge = { to: number; capacity: number; cost: number; reverse: number };
+
+const addEdge = (graph: FlowEdge[][], from: number, to: number, capacity: number, cost: number) => {
+  graph[from].push({ to, capacity, cost, reverse: graph[to].length });
+  graph[to].push({ to: from, capacity: 0, cost: -cost, reverse: graph[from].length - 1 });
+};
+
+/**
+ * Min-cost max-flow via successive shortest paths (Bellman-Ford, so negative
+ * edge costs are fine). The graphs built here are tiny: one node per candidate
+ * player plus one per template slot.
+ */
+const minCostMaxFlow = (graph: FlowEdge[][], source: number, sink: number) => {
+  const size = graph.length;
+  for (;;) {
+    const dist = new Array<number>(size).fill(Infinity);
+    const prevNode = new Array<number>(size).fill(-1);
+    const prevEdge = new Array<number>(size).fill(-1);
+    const inQueue = new Array<boolean>(size).fill(false);
+    dist[source] = 0;
+    const queue = [source];
+    inQueue[source] = true;
+    while (queue.length) {
+      const node = queue.shift()!;
+      inQueue[node] = false;
+      graph[node].forEach((edge, index) => {
+        if (edge.capacity <= 0) return;
+        const next = dist[node] + edge.cost;
+        if (next < dist[edge.to]) {
+          dist[edge.to] = next;
+          prevNode[edge.to] = node;
+          prevEdge[edge.to] = index;
+          if (!inQueue[edge.to]) {
+            inQueue[edge.to] = true;
+            queue.push(edge.to);
+          }
+        }
+      });
+    }
+    if (dist[sink] === Infinity) return;
+    for (let node = sink; node !== source; node = prevNode[node]) {
+      const edge = graph[prevNode[node]][prevEdge[node]];
+      edge.capacity -= 1;
+      graph[node][edge.reverse].capacity += 1;
+    }
+  }
+};
+
+const compareIds = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Fills the template so that the sum of `pointsOf` across all slots is as high
+ * as possible. Filling every slot takes priority over points, and ties between
+ * equally scoring lineups go to the lowest player ids. Assignments come back in
+ * template order, best player first within a slot.
+ */
+export function fillLineup<T extends { position?: string; player_id?: string | number }>(
+  template: LineupTemplate,
+  players: T[],
+  pointsOf: (player: T) => number,
+  idOf: (player: T) => string = (player) => String(player.player_id ?? ""),
+): SlotAssignment<T>[] {
+  const seats = template.slots.reduce((sum, slot) => sum + slot.count, 0);
+  const eligible = new Set(template.slots.flatMap((slot) => slot.eligible));
+  const ranked = players
+    .filter((player) => eligible.has(normalizePosition(player.position)))
+    .sort((a, b) => pointsOf(b) - pointsOf(a) || compareIds(idOf(a), idOf(b)));
+
+  // A player outside the top `seats` at their position can never improve on
+  // one inside it, so the search only needs those candidates.
+  const perPosition = new Map<string, number>();
+  const candidates = ranked.filter((player) => {
+    const position = normalizePosition(player.position);
+    const count = perPosition.get(position) ?? 0;
+    perPosition.set(position, count + 1);
+    return count < seats;
+  });
+  if (!candidates.length || !seats) return [];
+
+  // Integer weights keep the search exact: points dominate, and the id rank
+  // only breaks ties because its total can never reach one point step.
+  const byId = [...candidates].sort((a, b) => compareIds(idOf(a), idOf(b)));
+  const idRank = new Map(byId.map((player, index) => [player, index]));
+  const tieScale = candidates.length * seats + 1;
+  const weightOf = (player: T) =>
+    Math.round(pointsOf(player) * 100) * tieScale + (candidates.length - idRank.get(player)!);
+
+  const source = 0;
+  const firstSlot = 1 + candidates.length;
+  const sink = firstSlot + template.slots.length;
+  const graph: FlowEdge[][] = Array.from({ length: sink + 1 }, () => []);
+  candidates.forEach((player, index) => {
+    addEdge(graph, source, 1 + index, 1, 0);
+    const position = normalizePosition(player.position);
+    template.slots.forEach((slot, slotIndex) => {
+      if (slot.eligible.includes(position)) addEdge(graph, 1 + index, firstSlot + slotIndex, 1, -weightOf(player));
+    });
+  });
+  template.slots.forEach((slot, slotIndex) => addEdge(graph, firstSlot + slotIndex, sink, slot.count, 0));
+  minCostMaxFlow(graph, source, sink);
+
+  const bySlot = new Map<number, T[]>();
+  candidates.forEach((player, index) => {
+    for (const edge of graph[1 + index]) {
+      if (edge.to < firstSlot || edge.to >= sink || edge.capacity > 0) continue;
+      const slotIndex = edge.to - firstSlot;
+      if (!bySlot.has(slotIndex)) bySlot.set(slotIndex, []);
+      bySlot.get(slotIndex)!.push(player);
+    }
+  });
+  const assignments: SlotAssignment<T>[] = [];
+  template.slots.forEach((slot, index) => {
+    for (const player of bySlot.get(index) ?? []) assignments.push({ slot: slot.slot, player });
+  });
+  return assignments;
+}
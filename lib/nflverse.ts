@@ -5,16 +5,37 @@ import path from "path";
 import { pathToFileURL } from "url";
 import { gunzipSync } from "zlib";
 import { HttpError } from "./api";
+import {
+  loadCollegeOverrideIndex,
+  overrideCandidates,
+  resolveCollegePrecedence,
+  staticCollegeByName,
+  COLLEGE_SOURCE_PRECEDENCE,
+  type CollegeCandidate,
+  type CollegeOverrideIndex,
+  type CollegeResolution,
+  type CollegeSource,
+} from "./collegeOverrides";
+import {
+  classifyCollegeResolution,
+  recordCollegeDiagnostics,
+  type CollegeDiagnostic,
+  type CollegeLookupResult,
+} from "./collegeDiagnostics";
 
+import { parseCsv, type CsvParseOptions } from "./csv";
 import { createErrorWithCause } from "./errors";
 
 import { fetchBuffer } from "./http";
+import { idpPositionGroup, idpWeightsKey, scoreIdpLine, type IdpStatLine, type IdpWeights } from "./idp";
+import { playerMatchThreshold } from "./playerMatching";
 import { playerStatsUrl } from "./nflverseUrls";
 import {
   loadPlayersMaster,
   buildCollegeMaps,
   resolveCollege as resolveCollegeFromMaster,
   buildPlayersLookup,
+  matchPlayerRow,
   resolvePlayerRow,
   collectPlayerRowIds,
   type PlayersMasterLookup,
@@ -26,8 +47,34 @@ import {
   type RosterCollegeLookup,
 } from "./roster";
 import { normalize } from "./utils";
+import {
+  PLAY_BY_PLAY_STATS,
+  resolveScoringRules,
+  rulesUsePlayByPlay,
+  scoreStatLine,
+  scoringRulesKey,
+  type PlayByPlayStat,
+  type ScoringFormat,
+  type ScoringRules,
+  type ScoringStatLine,
+} from "./scoringRules";
+import {
+  averagesAsOf,
+  buildCumulativeTable,
+  DEFAULT_AVERAGING_WINDOW,
+  type AveragingWindow,
+  type CumulativeTable,
+} from "./seasonAverages";
+import { hashContent, recordStatRevisions, type StatLineScorer } from "./statRevisions";
 import type { Leader } from "./types";
-import { DefenseUnavailableError, fetchDefenseApprox } from "./defense";
+import {
+  approxRowStats,
+  DefenseUnavailableError,
+  fetchDefenseApprox,
+  scoreTeamDefense,
+  type TeamDefenseProvenance,
+  type TeamDefenseStats,
+} from "./defense";
 
 const RELEASE_BASE = "https://github.com/nflverse/nflverse-data/releases/download";
 const DEFAULT_USER_AGENT = "college-alumni-fantasy/1.0 (+https://github.com/)";
@@ -143,6 +190,9 @@ const PLAYER_STATS_EXTENSIONS = [".csv.gz", ".csv"] as const;
 const TEAM_DEFENSE_RELEASE_TAG = "stats_team";
 const TEAM_DEFENSE_PREFIX = "stats_team_week_";
 const TEAM_DEFENSE_EXTENSIONS = [".parquet", ".csv.gz", ".csv"] as const;
+const PLAY_BY_PLAY_RELEASE_TAG = "pbp";
+const PLAY_BY_PLAY_PREFIX = "play_by_play_";
+const PLAY_BY_PLAY_EXTENSIONS = [".parquet", ".csv.gz", ".csv"] as const;
 const RELEASE_CACHE_TTL_MS = 5 * 60 * 1000;
 
 const resolveRequireBase = (): string => {
@@ -206,55 +256,6 @@ const NFLVERSE_FETCH_RETRIES = Math.max(0, NFLVERSE_FETCH_ATTEMPTS - 1);
 type CsvValue = string | number | boolean | null | undefined;
 type CsvRow = Record<string, CsvValue>;
 
-const parseCsv = (text: string): CsvRow[] => {
-  const rows: string[][] = [];
-  const normalized = text.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
-  let currentRow: string[] = [];
-  let currentValue = "";
-  let inQuotes = false;
-  for (let i = 0; i < normalized.length; i += 1) {
-    const char = normalized[i];
-    if (inQuotes) {
-      if (char === '"') {
-        if (normalized[i + 1] === '"') { currentValue += '"'; i += 1; }
-        else { inQuotes = false; }
-      } else {
-        currentValue += char;
-      }
-    } else if (char === '"') {
-      inQuotes = true;
-    } else if (char === ',') {
-      currentRow.push(currentValue);
-      currentValue = "";
-    } else if (char === '\n') {
-      currentRow.push(currentValue);
-      rows.push(currentRow);
-      currentRow = [];
-      currentValue = "";
-    } else {
-      currentValue += char;
-    }
-  }
-  if (currentValue.length > 0 || currentRow.length > 0) {
-    currentRow.push(currentValue);
-    rows.push(currentRow);
-  }
-  if (!rows.length) return [];
-  const headers = (rows.shift() ?? []).map(h => h.replace(/^\uFEFF/, '').trim());
-  const result: CsvRow[] = [];
-  for (const row of rows) {
-    if (!row.some(cell => cell && cell.trim().length)) continue;
-    const obj: CsvRow = {};
-    for (let i = 0; i < headers.length; i += 1) {
-      const key = headers[i];
-      if (!key) continue;
-      obj[key] = (row[i] ?? "").trim();
-    }
-    result.push(obj);
-  }
-  return result;
-};
-
 export class NflverseAssetMissingError extends HttpError {
   url: string;
 
@@ -288,9 +289,9 @@ const logCsvSnapshot = (csv: string, context: string) => {
   console.error(`[nflverse] CSV parse issue for ${context}`, { headers, firstRow });
 };
 
-const parseCsvSafe = (csv: string, context: string): CsvRow[] => {
+const parseCsvSafe = (csv: string, context: string, options?: CsvParseOptions): CsvRow[] => {
   try {
-    return parseCsv(csv);
+    return parseCsv(csv, options);
   } catch (error) {
     logCsvSnapshot(csv, context);
     const err = error instanceof Error ? error : new Error(String(error));
@@ -311,14 +312,44 @@ export interface NflversePlayerStat {
   passing_yards: number;
   passing_tds: number;
   interceptions: number;
+  passing_first_downs: number;
   rushing_yards: number;
   rushing_tds: number;
+  rushing_first_downs: number;
   receptions: number;
   receiving_yards: number;
   receiving_tds: number;
+  receiving_first_downs: number;
   fumbles_lost: number;
   field_goals_made: number;
   extra_points_made: number;
+  passing_2pt_conversions: number;
+  rushing_2pt_conversions: number;
+  receiving_2pt_conversions: number;
+  /** Kick and punt return TDs. */
+  return_tds: number;
+  field_goals_missed: number;
+  extra_points_missed: number;
+  field_goals_made_0_19: number;
+  field_goals_made_20_29: number;
+  field_goals_made_30_39: number;
+  field_goals_made_40_49: number;
+  field_goals_made_50_59: number;
+  field_goals_made_60_plus: number;
+  /** Play-by-play counts; 0 unless the scoring rules pulled in the play-by-play join. */
+  passing_tds_40_plus: number;
+  rushing_tds_40_plus: number;
+  receiving_tds_40_plus: number;
+  red_zone_touches: number;
+  def_tackles_solo: number;
+  def_tackle_assists: number;
+  def_tackles_for_loss: number;
+  def_sacks: number;
+  def_qb_hits: number;
+  def_interceptions: number;
+  def_pass_defended: number;
+  def_fumbles_forced: number;
+  def_tds: number;
 }
 
 export interface DefSnapRow {
@@ -331,17 +362,11 @@ export interface DefSnapRow {
   defense_snaps: number;
 }
 
-export interface TeamDefenseInput {
+export interface TeamDefenseInput extends TeamDefenseStats {
   season: number;
   week: number;
   team: string;
-  sacks: number;
-  interceptions: number;
-  fumble_recoveries: number;
-  safeties: number;
-  defensive_tds: number;
-  return_tds: number;
-  points_allowed: number;
+  provenance: TeamDefenseProvenance;
 }
 
 export type DefenseWeek = {
@@ -349,20 +374,25 @@ export type DefenseWeek = {
     team: string;
     dstPoints: number;
     players: { player_id: string; snaps: number }[];
+    provenance?: TeamDefenseProvenance;
   }[];
 };
 
 export interface LoadWeekOptions {
   season: number;
   week: number;
-  format: "standard" | "half-ppr" | "ppr" | string;
+  format: ScoringFormat;
   includeDefense?: boolean;
+  /** Scores defenders from their own stats with these weights (`defense=idp`). */
+  idp?: IdpWeights;
 }
 
 export interface LoadWeekResult {
   leaders: Leader[];
   defenseData?: DefenseWeek;
   playerStatsSource?: PlayerStatsSourceMeta;
+  /** Bumped each time nflverse publishes corrected stats for this week. */
+  revision?: number;
 }
 
 type PlayerStatsSourceMeta = {
@@ -373,13 +403,34 @@ type PlayerStatsSourceMeta = {
   url: string;
   format: "csv";
   compression: "none" | "gz";
+  contentHash: string;
+};
+
+export type AssetHashInfo = {
+  releaseTag: string;
+  filename: string;
+  hash: string;
+  previousHash?: string;
+  checkedAt: number;
+  changedAt: number;
 };
 
 const playerStatsSeasonCache = new Map<number, Map<number, NflversePlayerStat[]>>();
+const playerStatsSeasonFetchedAt = new Map<number, number>();
 const playerStatsSeasonMeta = new Map<number, PlayerStatsSourceMeta>();
+const playerStatsWeekRevisions = new Map<number, Map<number, number>>();
+const assetHashes = new Map<string, AssetHashInfo>();
 const playerStatsSeasonLoading: Map<number, Promise<Map<number, NflversePlayerStat[]>>> = new Map();
 const snapSeasonCache = new Map<number, Map<number, DefSnapRow[]>>();
-const teamDefenseSeasonCache = new Map<number, Map<number, TeamDefenseInput[]>>();
+const teamDefenseSeasonCache = new Map<
+  number,
+  { fetchedAt: number; contentHash: string; weeks: Map<number, TeamDefenseInput[]> }
+>();
+const playByPlaySeasonCache = new Map<number, { fetchedAt: number; load: Promise<PlayByPlayAsset> }>();
+const playByPlayJoins = new WeakMap<
+  Map<number, NflversePlayerStat[]>,
+  { playByPlay: PlayByPlayAsset; joined: Map<number, NflversePlayerStat[]> }
+>();
 const playerColumnWarnings = new Set<number>();
 const releaseAssetCache = new Map<string, { fetchedAt: number; assets: GitHubAsset[] }>();
 const playerStatsParquetHints = new Map<number, string[]>();
@@ -507,8 +558,28 @@ type AssetBufferOptions = {
 type AssetBufferResult = {
   buffer: Buffer;
   usedCached: boolean;
+  hash: string;
 };
 
+const trackAssetHash = (releaseTag: string, filename: string, hash: string) => {
+  const key = `${releaseTag}/${filename}`;
+  const now = Date.now();
+  const previous = assetHashes.get(key);
+  if (previous && previous.hash === hash) {
+    previous.checkedAt = now;
+    return;
+  }
+  if (previous) {
+    // eslint-disable-next-line no-console
+    console.warn("NFLVERSE_ASSET_CHANGED", { releaseTag, filename, previousHash: previous.hash, hash });
+  }
+  assetHashes.set(key, { releaseTag, filename, hash, previousHash: previous?.hash, checkedAt: now, changedAt: now });
+};
+
+/** Content hashes of every release asset this process has read, newest first. */
+export const listAssetHashes = (): AssetHashInfo[] =>
+  Array.from(assetHashes.values()).sort((a, b) => b.changedAt - a.changedAt);
+
 async function fetchAssetBuffer(options: AssetBufferOptions): Promise<AssetBufferResult> {
   const { releaseTag, filename, url, season, week, requireHead = true } = options;
   const cached = await readCachedBuffer(releaseTag, filename);
@@ -610,7 +681,9 @@ async function fetchAssetBuffer(options: AssetBufferOptions): Promise<AssetBuffe
   if (!usedCached) {
     await writeCachedBuffer(releaseTag, filename, source);
   }
-  return { buffer: source, usedCached };
+  const hash = hashContent(source);
+  trackAssetHash(releaseTag, filename, hash);
+  return { buffer: source, usedCached, hash };
 }
 
 async function fetchCsvAsset(options: CsvAssetOptions): Promise<CsvRow[]> {
@@ -739,15 +812,21 @@ const loadParquetReader = async (): Promise<{ openBuffer: (buffer: Buffer) => Pr
   return reader as { openBuffer: (buffer: Buffer) => Promise<any> };
 };
 
-const parseParquetBuffer = async (buffer: Buffer, context: string): Promise<CsvRow[]> => {
-  let reader: { getCursor: () => any; close: () => Promise<void> } | null = null;
+const parseParquetBuffer = async (buffer: Buffer, context: string, columns?: readonly string[]): Promise<CsvRow[]> => {
+  let reader: {
+    getCursor: (columnList?: string[]) => any;
+    schema?: { fields?: Record<string, unknown> };
+    close: () => Promise<void>;
+  } | null = null;
   try {
     const ParquetReader = await loadParquetReader();
     reader = await ParquetReader.openBuffer(buffer);
     if (!reader) {
       throw new Error("[nflverse] Failed to open Parquet buffer for reader initialization");
     }
-    const cursor = reader.getCursor();
+    // Reading only the wanted columns skips decoding the rest of the file.
+    const fields = reader.schema?.fields ?? {};
+    const cursor = columns ? reader.getCursor(columns.filter((column) => column in fields)) : reader.getCursor();
     const rows: CsvRow[] = [];
     while (true) {
       // eslint-disable-next-line no-await-in-loop
@@ -846,7 +925,7 @@ const tryLegacyPlayerStatsRows = async (season: number): Promise<PlayerStatsRows
   const filename = `stats_player_week_${season}.csv.gz`;
   const url = playerStatsUrl(season);
   try {
-    const { buffer } = await fetchAssetBuffer({
+    const { buffer, hash } = await fetchAssetBuffer({
       releaseTag: PLAYER_STATS_RELEASE_TAG,
       filename,
       url,
@@ -863,6 +942,7 @@ const tryLegacyPlayerStatsRows = async (season: number): Promise<PlayerStatsRows
     const rows = parseCsvSafe(text, `${PLAYER_STATS_RELEASE_TAG}/${filename}`);
     return {
       rows,
+      hash,
       asset: {
         seasonLoaded: season,
         releaseTag: PLAYER_STATS_RELEASE_TAG,
@@ -943,6 +1023,7 @@ const locatePlayerStatsAsset = async (season: number): Promise<PlayerStatsAssetI
 type PlayerStatsRowsResult = {
   rows: CsvRow[];
   asset: PlayerStatsAssetInfo;
+  hash: string;
 };
 
 const resolvePlayerStatsAsset = async (season: number): Promise<PlayerStatsAssetInfo> => {
@@ -982,7 +1063,7 @@ const loadPlayerStatsRows = async (season: number): Promise<PlayerStatsRowsResul
   const legacy = await tryLegacyPlayerStatsRows(season);
   if (legacy) return legacy;
   const asset = await resolvePlayerStatsAsset(season);
-  const { buffer } = await fetchAssetBuffer({
+  const { buffer, hash } = await fetchAssetBuffer({
     releaseTag: asset.releaseTag,
     filename: asset.filename,
     url: asset.url,
@@ -1001,11 +1082,16 @@ const loadPlayerStatsRows = async (season: number): Promise<PlayerStatsRowsResul
     text = buffer.toString("utf-8");
   }
   const rows = parseCsvSafe(text, `${asset.releaseTag}/${asset.filename}`);
-  return { rows, asset };
+  return { rows, asset, hash };
 };
 
 
-const PLAYER_COLUMN_GROUPS: { field: string; aliases: string[] }[] = [
+/**
+ * Expected player-stat columns and their aliases. `optional` groups only exist
+ * in some seasons' assets (kicking and conversion columns arrived later), so
+ * they are reported separately when missing.
+ */
+const PLAYER_COLUMN_GROUPS: { field: string; aliases: string[]; optional?: boolean }[] = [
   { field: "passing_yards", aliases: ["passing_yards", "pass_yards", "pass_yds"] },
   { field: "passing_tds", aliases: ["passing_tds", "pass_tds", "pass_td"] },
   { field: "interceptions", aliases: ["interceptions", "int", "ints", "pass_interceptions"] },
@@ -1026,7 +1112,39 @@ const PLAYER_COLUMN_GROUPS: { field: string; aliases: string[] }[] = [
     ],
   },
   { field: "field_goals_made", aliases: ["field_goals_made", "fg_made", "fg"] },
-  { field: "extra_points_made", aliases: ["extra_points_made", "xp_made", "xpt"] },
+  { field: "extra_points_made", aliases: ["extra_points_made", "pat_made", "xp_made", "xpt"] },
+  {
+    field: "passing_2pt_conversions",
+    aliases: ["passing_2pt_conversions", "pass_2pt_conversions", "pass_2pt"],
+    optional: true,
+  },
+  {
+    field: "rushing_2pt_conversions",
+    aliases: ["rushing_2pt_conversions", "rush_2pt_conversions", "rush_2pt"],
+    optional: true,
+  },
+  {
+    field: "receiving_2pt_conversions",
+    aliases: ["receiving_2pt_conversions", "rec_2pt_conversions", "rec_2pt"],
+    optional: true,
+  },
+  {
+    field: "return_tds",
+    aliases: ["special_teams_tds", "return_tds", "kick_return_tds", "punt_return_tds"],
+    optional: true,
+  },
+  { field: "field_goals_missed", aliases: ["fg_missed", "field_goals_missed", "fg_att"], optional: true },
+  { field: "extra_points_missed", aliases: ["pat_missed", "extra_points_missed", "xp_missed", "pat_att"], optional: true },
+  { field: "field_goals_made_0_19", aliases: ["fg_made_0_19", "field_goals_made_0_19"], optional: true },
+  { field: "field_goals_made_20_29", aliases: ["fg_made_20_29", "field_goals_made_20_29"], optional: true },
+  { field: "field_goals_made_30_39", aliases: ["fg_made_30_39", "field_goals_made_30_39"], optional: true },
+  { field: "field_goals_made_40_49", aliases: ["fg_made_40_49", "field_goals_made_40_49"], optional: true },
+  { field: "field_goals_made_50_59", aliases: ["fg_made_50_59", "field_goals_made_50_59"], optional: true },
+  {
+    field: "field_goals_made_60_plus",
+    aliases: ["fg_made_60_", "fg_made_60_plus", "field_goals_made_60_plus"],
+    optional: true,
+  },
   {
     field: "player_id",
     aliases: [
@@ -1051,16 +1169,20 @@ const PLAYER_COLUMN_GROUPS: { field: string; aliases: string[] }[] = [
 const verifyPlayerStatColumns = (rows: CsvRow[], season: number) => {
   if (!rows.length || playerColumnWarnings.has(season)) return;
   const sample = rows[0];
-  const missing = PLAYER_COLUMN_GROUPS
-    .filter((group) => !group.aliases.some((alias) => alias in sample))
-    .map((group) => group.field);
+  const absent = PLAYER_COLUMN_GROUPS.filter((group) => !group.aliases.some((alias) => alias in sample));
+  const missing = absent.filter((group) => !group.optional).map((group) => group.field);
+  const missingOptional = absent.filter((group) => group.optional).map((group) => group.field);
   if (missing.length) {
     // eslint-disable-next-line no-console
     console.warn("[nflverse] Missing expected stat columns", {
       season,
       missing,
+      missingOptional,
       headers: Object.keys(sample),
     });
+  } else if (missingOptional.length) {
+    // eslint-disable-next-line no-console
+    console.warn("[nflverse] Missing optional stat columns; those stats score as 0", { season, missingOptional });
   }
   playerColumnWarnings.add(season);
 };
@@ -1144,6 +1266,32 @@ const parseFumbles = (row: CsvRow): number => {
   return sum;
 };
 
+const PLAYER_COLUMN_ALIASES = new Map(PLAYER_COLUMN_GROUPS.map((group) => [group.field, group.aliases]));
+
+/** First aliased column present on the row; 0 when the asset lacks the column. */
+const readStatColumn = (row: CsvRow, field: string): number => {
+  for (const alias of PLAYER_COLUMN_ALIASES.get(field) ?? [field]) {
+    if (alias in row) return toNumber(row[alias]);
+  }
+  return 0;
+};
+
+/** Kick plus punt return TDs when split out, otherwise the combined special-teams column. */
+const parseReturnTds = (row: CsvRow): number => {
+  if ("kick_return_tds" in row || "punt_return_tds" in row) {
+    return toNumber(row.kick_return_tds) + toNumber(row.punt_return_tds);
+  }
+  return toNumber(row.special_teams_tds ?? row.return_tds);
+};
+
+/** The explicit miss column, or attempts minus makes. */
+const parseMisses = (row: CsvRow, missed: string[], attempts: string, made: number): number => {
+  for (const key of missed) {
+    if (key in row) return toNumber(row[key]);
+  }
+  return attempts in row ? Math.max(0, toNumber(row[attempts]) - made) : 0;
+};
+
 const parsePlayerStatRow = (row: CsvRow, fallbackSeason: number): NflversePlayerStat | null => {
   const season = toInt(row.season) || fallbackSeason;
   const week = toInt(row.week ?? row.game_week ?? row.week_num ?? row.week_number);
@@ -1154,6 +1302,8 @@ const parsePlayerStatRow = (row: CsvRow, fallbackSeason: number): NflversePlayer
   const fallbackId = name ? `${normalize(name)}|${team}` : `${team}|${week}`;
   const playerId = resolvePlayerId(candidates, fallbackId);
   const alt_ids = unique([...candidates, playerId].filter(Boolean));
+  const fieldGoalsMade = toNumber(row.field_goals_made ?? row.fg_made ?? row.fg);
+  const extraPointsMade = toNumber(row.extra_points_made ?? row.pat_made ?? row.xp_made ?? row.xpt);
   return {
     season,
     week,
@@ -1165,14 +1315,42 @@ const parsePlayerStatRow = (row: CsvRow, fallbackSeason: number): NflversePlayer
     passing_yards: toNumber(row.passing_yards ?? row.pass_yards ?? row.pass_yds),
     passing_tds: toNumber(row.passing_tds ?? row.pass_tds ?? row.pass_td),
     interceptions: toNumber(row.interceptions ?? row.int ?? row.ints ?? row.pass_interceptions),
+    passing_first_downs: toNumber(row.passing_first_downs ?? row.pass_first_downs),
     rushing_yards: toNumber(row.rushing_yards ?? row.rush_yards ?? row.rush_yds),
     rushing_tds: toNumber(row.rushing_tds ?? row.rush_tds ?? row.rush_td),
+    rushing_first_downs: toNumber(row.rushing_first_downs ?? row.rush_first_downs),
     receptions: toNumber(row.receptions ?? row.receiving_receptions ?? row.rec ?? row.rec_receptions),
     receiving_yards: toNumber(row.receiving_yards ?? row.rec_yards ?? row.rec_yds),
     receiving_tds: toNumber(row.receiving_tds ?? row.rec_tds ?? row.rec_td),
+    receiving_first_downs: toNumber(row.receiving_first_downs ?? row.rec_first_downs),
     fumbles_lost: parseFumbles(row),
-    field_goals_made: toNumber(row.field_goals_made ?? row.fg_made ?? row.fg),
-    extra_points_made: toNumber(row.extra_points_made ?? row.xp_made ?? row.xpt),
+    field_goals_made: fieldGoalsMade,
+    extra_points_made: extraPointsMade,
+    passing_2pt_conversions: readStatColumn(row, "passing_2pt_conversions"),
+    rushing_2pt_conversions: readStatColumn(row, "rushing_2pt_conversions"),
+    receiving_2pt_conversions: readStatColumn(row, "receiving_2pt_conversions"),
+    return_tds: parseReturnTds(row),
+    field_goals_missed: parseMisses(row, ["fg_missed", "field_goals_missed"], "fg_att", fieldGoalsMade),
+    extra_points_missed: parseMisses(row, ["pat_missed", "extra_points_missed", "xp_missed"], "pat_att", extraPointsMade),
+    field_goals_made_0_19: readStatColumn(row, "field_goals_made_0_19"),
+    field_goals_made_20_29: readStatColumn(row, "field_goals_made_20_29"),
+    field_goals_made_30_39: readStatColumn(row, "field_goals_made_30_39"),
+    field_goals_made_40_49: readStatColumn(row, "field_goals_made_40_49"),
+    field_goals_made_50_59: readStatColumn(row, "field_goals_made_50_59"),
+    field_goals_made_60_plus: readStatColumn(row, "field_goals_made_60_plus"),
+    passing_tds_40_plus: 0,
+    rushing_tds_40_plus: 0,
+    receiving_tds_40_plus: 0,
+    red_zone_touches: 0,
+    def_tackles_solo: toNumber(row.def_tackles_solo ?? row.solo_tackles),
+    def_tackle_assists: toNumber(row.def_tackle_assists ?? row.def_tackles_with_assist ?? row.assist_tackles),
+    def_tackles_for_loss: toNumber(row.def_tackles_for_loss ?? row.tackles_for_loss),
+    def_sacks: toNumber(row.def_sacks),
+    def_qb_hits: toNumber(row.def_qb_hits ?? row.qb_hits),
+    def_interceptions: toNumber(row.def_interceptions),
+    def_pass_defended: toNumber(row.def_pass_defended ?? row.passes_defended),
+    def_fumbles_forced: toNumber(row.def_fumbles_forced ?? row.forced_fumbles),
+    def_tds: toNumber(row.def_tds),
   };
 };
 
@@ -1196,7 +1374,7 @@ const parseSnapRow = (row: CsvRow, fallbackSeason: number): DefSnapRow | null =>
   };
 };
 
-const parseTeamDefenseRow = (row: CsvRow, fallbackSeason: number): TeamDefenseInput | null => {
+const parseTeamDefenseRow = (row: CsvRow, fallbackSeason: number): Omit<TeamDefenseInput, "provenance"> | null => {
   const season = toInt(row.season) || fallbackSeason;
   const week = toInt(row.week ?? row.game_week ?? row.week_num ?? row.week_number);
   if (!week) return null;
@@ -1230,15 +1408,20 @@ const parseTeamDefenseRow = (row: CsvRow, fallbackSeason: number): TeamDefenseIn
   };
 };
 
+const playerStatsCacheExpired = (season: number) => {
+  const fetchedAt = playerStatsSeasonFetchedAt.get(season);
+  return CACHE_MS > 0 && fetchedAt !== undefined && Date.now() - fetchedAt > CACHE_MS;
+};
+
 const loadSeasonPlayerStats = async (season: number): Promise<Map<number, NflversePlayerStat[]>> => {
   const cached = playerStatsSeasonCache.get(season);
-  if (cached) return cached;
+  if (cached && !playerStatsCacheExpired(season)) return cached;
 
   const pending = playerStatsSeasonLoading.get(season);
   if (pending) return pending;
 
   const loadPromise = (async () => {
-    const { rows, asset } = await loadPlayerStatsRows(season);
+    const { rows, asset, hash } = await loadPlayerStatsRows(season);
     verifyPlayerStatColumns(rows, asset.seasonLoaded);
     const grouped = new Map<number, NflversePlayerStat[]>();
     for (const row of rows) {
@@ -1248,6 +1431,15 @@ const loadSeasonPlayerStats = async (season: number): Promise<Map<number, Nflver
       grouped.get(parsed.week)!.push(parsed);
     }
 
+    // Re-downloads are diffed against the last snapshot so stat corrections bump the week's revision.
+    let revisions = new Map<number, number>();
+    try {
+      revisions = await recordStatRevisions(asset.seasonLoaded, hash, grouped);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn("[nflverse] Failed to record stat revisions", { season: asset.seasonLoaded, error });
+    }
+
     const storeMeta = (seasonKey: number, requestedSeason: number) => {
       const meta: PlayerStatsSourceMeta = {
         requestedSeason,
@@ -1257,9 +1449,12 @@ const loadSeasonPlayerStats = async (season: number): Promise<Map<number, Nflver
         url: asset.url,
         format: asset.format,
         compression: asset.compression,
+        contentHash: hash,
       };
       playerStatsSeasonCache.set(seasonKey, grouped);
+      playerStatsSeasonFetchedAt.set(seasonKey, Date.now());
       playerStatsSeasonMeta.set(seasonKey, meta);
+      playerStatsWeekRevisions.set(seasonKey, revisions);
     };
 
     storeMeta(asset.seasonLoaded, asset.seasonLoaded);
@@ -1280,8 +1475,20 @@ const loadSeasonPlayerStats = async (season: number): Promise<Map<number, Nflver
     playerStatsSeasonLoading.delete(season);
   });
 
-  playerStatsSeasonLoading.set(season, loadPromise);
-  return loadPromise;
+  // An expired season keeps serving its last copy if the refresh fails.
+  const guarded = cached
+    ? loadPromise.catch((error) => {
+        // eslint-disable-next-line no-console
+        console.warn("[nflverse] Refreshing weekly stats failed; serving cached season", {
+          season,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        playerStatsSeasonFetchedAt.set(season, Date.now());
+        return cached;
+      })
+    : loadPromise;
+  playerStatsSeasonLoading.set(season, guarded);
+  return guarded;
 };
 
 export async function fetchWeeklyPlayerStats(season: number, week: number): Promise<NflversePlayerStat[]> {
@@ -1289,6 +1496,22 @@ export async function fetchWeeklyPlayerStats(season: number, week: number): Prom
   return grouped.get(week) ?? [];
 }
 
+/** Loads (or refreshes) a season's weekly stats and reports which asset and per-week revisions it is served from. */
+export async function loadPlayerStatsRevisions(season: number) {
+  await loadSeasonPlayerStats(season);
+  const meta = playerStatsSeasonMeta.get(season);
+  return {
+    seasonLoaded: meta?.seasonLoaded ?? season,
+    contentHash: meta?.contentHash,
+    revisions: playerStatsWeekRevisions.get(season) ?? new Map<number, number>(),
+  };
+}
+
+export async function loadPlayerStatsRevision(season: number, week: number) {
+  const { revisions, ...source } = await loadPlayerStatsRevisions(season);
+  return { ...source, revision: revisions.get(week) };
+}
+
 const loadSeasonSnapCounts = async (season: number): Promise<Map<number, DefSnapRow[]>> => {
   if (snapSeasonCache.has(season)) return snapSeasonCache.get(season)!;
   const rows = await fetchCsvAsset({
@@ -1314,23 +1537,35 @@ export async function fetchDefensiveSnaps(season: number, week: number): Promise
   return grouped.get(week) ?? [];
 }
 
-const loadSeasonTeamDefense = async (season: number): Promise<Map<number, TeamDefenseInput[]>> => {
-  if (teamDefenseSeasonCache.has(season)) return teamDefenseSeasonCache.get(season)!;
-  const prefix = `${TEAM_DEFENSE_PREFIX}${season}`;
-  const assets = await fetchReleaseAssets(TEAM_DEFENSE_RELEASE_TAG);
+type SeasonReleaseAsset = {
+  releaseTag: string;
+  prefix: string;
+  extensions: readonly (".parquet" | ".csv.gz" | ".csv")[];
+  /** Columns to keep; unset keeps every column. */
+  columns?: readonly string[];
+};
+
+/**
+ * Finds a season's asset on a release (`<prefix><season>` with the first
+ * extension that parses), downloads it through the disk cache and returns its
+ * rows with the asset's content hash. Corrupt cached gzip/CSV files are
+ * dropped and fetched once more; Parquet falls through to CSV when
+ * parquetjs-lite is missing.
+ */
+const loadSeasonReleaseRows = async (
+  { releaseTag, prefix: basePrefix, extensions, columns }: SeasonReleaseAsset,
+  season: number,
+): Promise<{ rows: CsvRow[]; selected: ReleaseAssetSelection; hash: string }> => {
+  const prefix = `${basePrefix}${season}`;
+  const assets = await fetchReleaseAssets(releaseTag);
   const candidates = assets.filter((asset) => asset.name?.startsWith(prefix));
-  const assetOptions = listReleaseAssetCandidates(
-    TEAM_DEFENSE_RELEASE_TAG,
-    prefix,
-    candidates,
-    TEAM_DEFENSE_EXTENSIONS,
-  );
+  const assetOptions = listReleaseAssetCandidates(releaseTag, prefix, candidates, extensions);
 
   if (!assetOptions.length) {
-    const expectedUrl = `${RELEASE_BASE}/${TEAM_DEFENSE_RELEASE_TAG}/${prefix}${TEAM_DEFENSE_EXTENSIONS[0]}`;
+    const expectedUrl = `${RELEASE_BASE}/${releaseTag}/${prefix}${extensions[0]}`;
     const error = new NflverseAssetMissingError({
       url: expectedUrl,
-      releaseTag: TEAM_DEFENSE_RELEASE_TAG,
+      releaseTag,
       season,
     });
     for (const candidate of candidates) {
@@ -1339,8 +1574,8 @@ const loadSeasonTeamDefense = async (season: number): Promise<Map<number, TeamDe
       }
     }
     // eslint-disable-next-line no-console
-    console.warn("[nflverse] stats_team asset not found", {
-      releaseTag: TEAM_DEFENSE_RELEASE_TAG,
+    console.warn(`[nflverse] ${releaseTag} asset not found`, {
+      releaseTag,
       season,
       prefix,
       candidates: candidates.map((asset) => asset.name),
@@ -1350,6 +1585,7 @@ const loadSeasonTeamDefense = async (season: number): Promise<Map<number, TeamDe
 
   let selected: ReleaseAssetSelection | null = null;
   let rows: CsvRow[] | null = null;
+  let hash = "";
 
   optionLoop: for (const option of assetOptions) {
     for (let attempt = 0; attempt < 2; attempt += 1) {
@@ -1361,7 +1597,7 @@ const loadSeasonTeamDefense = async (season: number): Promise<Map<number, TeamDe
           season,
         });
         if (option.format === "parquet") {
-          rows = await parseParquetBuffer(buffer, `${option.releaseTag}/${option.filename}`);
+          rows = await parseParquetBuffer(buffer, `${option.releaseTag}/${option.filename}`, columns);
         } else {
           let text: string;
           if (option.compression === "gz") {
@@ -1384,7 +1620,7 @@ const loadSeasonTeamDefense = async (season: number): Promise<Map<number, TeamDe
             text = buffer.toString("utf-8");
           }
           try {
-            rows = parseCsvSafe(text, `${option.releaseTag}/${option.filename}`);
+            rows = parseCsvSafe(text, `${option.releaseTag}/${option.filename}`, { columns });
           } catch (error) {
             await deleteCachedBuffer(option.releaseTag, option.filename);
             if (attempt === 0) {
@@ -1394,6 +1630,7 @@ const loadSeasonTeamDefense = async (season: number): Promise<Map<number, TeamDe
           }
         }
         selected = option;
+        hash = hashContent(buffer);
         break optionLoop;
       } catch (error) {
         if (option.format === "parquet" && error instanceof ParquetNotSupportedError) {
@@ -1413,14 +1650,14 @@ const loadSeasonTeamDefense = async (season: number): Promise<Map<number, TeamDe
   if (!selected || !rows) {
     if (assetOptions.some((asset) => asset.format === "parquet")) {
       throw new HttpError(500, "PARQUET_NOT_SUPPORTED", {
-        detail: "Install parquetjs-lite to parse stats_team parquet assets.",
+        detail: `Install parquetjs-lite to parse ${releaseTag} parquet assets.`,
         code: "PARQUET_NOT_SUPPORTED",
       });
     }
-    const expectedUrl = `${RELEASE_BASE}/${TEAM_DEFENSE_RELEASE_TAG}/${prefix}${TEAM_DEFENSE_EXTENSIONS[0]}`;
+    const expectedUrl = `${RELEASE_BASE}/${releaseTag}/${prefix}${extensions[0]}`;
     const error = new NflverseAssetMissingError({
       url: expectedUrl,
-      releaseTag: TEAM_DEFENSE_RELEASE_TAG,
+      releaseTag,
       season,
     });
     for (const candidate of candidates) {
@@ -1432,7 +1669,7 @@ const loadSeasonTeamDefense = async (season: number): Promise<Map<number, TeamDe
   }
 
   // eslint-disable-next-line no-console
-  console.info("[nflverse] Using stats_team asset", {
+  console.info(`[nflverse] Using ${releaseTag} asset`, {
     season,
     releaseTag: selected.releaseTag,
     filename: selected.filename,
@@ -1441,29 +1678,268 @@ const loadSeasonTeamDefense = async (season: number): Promise<Map<number, TeamDe
     prefix,
   });
 
-  const rowsValue = rows as CsvRow[];
+  return { rows: rows as CsvRow[], selected, hash };
+};
+
+const TEAM_DEFENSE_ASSET: SeasonReleaseAsset = {
+  releaseTag: TEAM_DEFENSE_RELEASE_TAG,
+  prefix: TEAM_DEFENSE_PREFIX,
+  extensions: TEAM_DEFENSE_EXTENSIONS,
+};
+
+/** A season's `stats_team` rows by week; refetched after `CACHE_SECONDS` so newly published weeks appear. */
+const loadSeasonTeamDefenseAsset = async (season: number) => {
+  const cached = teamDefenseSeasonCache.get(season);
+  if (cached && !(CACHE_MS > 0 && Date.now() - cached.fetchedAt > CACHE_MS)) return cached;
+  const { rows, selected, hash } = await loadSeasonReleaseRows(TEAM_DEFENSE_ASSET, season);
+  const provenance: TeamDefenseProvenance = { source: "stats_team", url: selected.url };
   const grouped = new Map<number, TeamDefenseInput[]>();
-  for (const row of rowsValue) {
+  for (const row of rows) {
     const parsed = parseTeamDefenseRow(row, season);
     if (!parsed || (parsed.season && parsed.season !== season)) continue;
     if (!grouped.has(parsed.week)) grouped.set(parsed.week, []);
-    grouped.get(parsed.week)!.push(parsed);
+    grouped.get(parsed.week)!.push({ ...parsed, provenance });
   }
-  teamDefenseSeasonCache.set(season, grouped);
-  return grouped;
+  const entry = { fetchedAt: Date.now(), contentHash: hash, weeks: grouped };
+  teamDefenseSeasonCache.set(season, entry);
+  return entry;
+};
+
+const loadSeasonTeamDefense = async (season: number): Promise<Map<number, TeamDefenseInput[]>> =>
+  (await loadSeasonTeamDefenseAsset(season)).weeks;
+
+/** The play-by-play CSV has ~370 columns; `aggregatePlayByPlay` reads only these. */
+const PLAY_BY_PLAY_COLUMNS = [
+  "season",
+  "week",
+  "two_point_attempt",
+  "passer_player_id",
+  "rusher_player_id",
+  "receiver_player_id",
+  "yards_gained",
+  "complete_pass",
+  "pass_touchdown",
+  "rush_touchdown",
+  "rush_attempt",
+  "yardline_100",
+  "first_down_rush",
+  "first_down_pass",
+] as const;
+
+const PLAY_BY_PLAY_ASSET: SeasonReleaseAsset = {
+  releaseTag: PLAY_BY_PLAY_RELEASE_TAG,
+  prefix: PLAY_BY_PLAY_PREFIX,
+  extensions: PLAY_BY_PLAY_EXTENSIONS,
+  columns: PLAY_BY_PLAY_COLUMNS,
+};
+
+const PLAY_BY_PLAY_FIRST_DOWNS = ["passing_first_downs", "rushing_first_downs", "receiving_first_downs"] as const;
+
+/** Per-player event counts for one week. First downs backfill weekly assets that lack those columns. */
+export type PlayByPlayCounts = Record<PlayByPlayStat | (typeof PLAY_BY_PLAY_FIRST_DOWNS)[number], number>;
+
+type PlayByPlaySeason = Map<number, Map<string, PlayByPlayCounts>>;
+
+type PlayByPlayAsset = { weeks: PlayByPlaySeason; contentHash: string };
+
+const BIG_PLAY_YARDS = 40;
+const RED_ZONE_YARDLINE = 20;
+
+const emptyPlayByPlayCounts = (): PlayByPlayCounts => ({
+  passing_tds_40_plus: 0,
+  rushing_tds_40_plus: 0,
+  receiving_tds_40_plus: 0,
+  red_zone_touches: 0,
+  passing_first_downs: 0,
+  rushing_first_downs: 0,
+  receiving_first_downs: 0,
+});
+
+/**
+ * Folds play rows into per-week, per-player counts: 40+ yard passing, rushing
+ * and receiving TDs, red-zone touches (carries and catches snapped inside the
+ * 20) and first downs. Two-point tries are skipped.
+ */
+const aggregatePlayByPlay = (rows: CsvRow[], season: number): PlayByPlaySeason => {
+  const weeks: PlayByPlaySeason = new Map();
+  for (const row of rows) {
+    const week = toInt(row.week);
+    if (!week || (toInt(row.season) || season) !== season) continue;
+    if (toNumber(row.two_point_attempt)) continue;
+    let players = weeks.get(week);
+    if (!players) {
+      players = new Map();
+      weeks.set(week, players);
+    }
+    const bump = (playerId: CsvValue, stat: keyof PlayByPlayCounts) => {
+      const id = toString(playerId);
+      if (!id || id === "NA") return;
+      let counts = players!.get(id);
+      if (!counts) {
+        counts = emptyPlayByPlayCounts();
+        players!.set(id, counts);
+      }
+      counts[stat] += 1;
+    };
+    const complete = toNumber(row.complete_pass) === 1;
+    const bigPlay = toNumber(row.yards_gained) >= BIG_PLAY_YARDS;
+    if (toNumber(row.pass_touchdown) && bigPlay) {
+      bump(row.passer_player_id, "passing_tds_40_plus");
+      bump(row.receiver_player_id, "receiving_tds_40_plus");
+    }
+    if (toNumber(row.rush_touchdown) && bigPlay) bump(row.rusher_player_id, "rushing_tds_40_plus");
+    const yardline = toString(row.yardline_100);
+    if (yardline && yardline !== "NA" && toNumber(yardline) <= RED_ZONE_YARDLINE) {
+      if (toNumber(row.rush_attempt)) bump(row.rusher_player_id, "red_zone_touches");
+      if (complete) bump(row.receiver_player_id, "red_zone_touches");
+    }
+    if (toNumber(row.first_down_rush)) bump(row.rusher_player_id, "rushing_first_downs");
+    if (toNumber(row.first_down_pass) && complete) {
+      bump(row.passer_player_id, "passing_first_downs");
+      bump(row.receiver_player_id, "receiving_first_downs");
+    }
+  }
+  return weeks;
 };
 
+const loadSeasonPlayByPlay = (season: number): Promise<PlayByPlayAsset> => {
+  const cached = playByPlaySeasonCache.get(season);
+  if (cached && !(CACHE_MS > 0 && Date.now() - cached.fetchedAt > CACHE_MS)) return cached.load;
+  const load = loadSeasonReleaseRows(PLAY_BY_PLAY_ASSET, season).then(({ rows, hash }) => ({
+    weeks: aggregatePlayByPlay(rows, season),
+    contentHash: hash,
+  }));
+  playByPlaySeasonCache.set(season, { fetchedAt: Date.now(), load });
+  load.catch(() => {
+    if (playByPlaySeasonCache.get(season)?.load === load) playByPlaySeasonCache.delete(season);
+  });
+  return load;
+};
+
+const joinPlayByPlayCounts = <T extends ScoringStatLine>(stat: T, counts: PlayByPlayCounts | undefined): T => {
+  if (!counts) return stat;
+  const joined = { ...stat };
+  for (const key of PLAY_BY_PLAY_STATS) joined[key] = counts[key];
+  for (const key of PLAY_BY_PLAY_FIRST_DOWNS) {
+    if (!joined[key]) joined[key] = counts[key];
+  }
+  return joined;
+};
+
+const joinPlayByPlayWeek = (stats: NflversePlayerStat[], players: Map<string, PlayByPlayCounts>) =>
+  stats.map((stat) =>
+    joinPlayByPlayCounts(stat, [stat.player_id, ...stat.alt_ids].map((id) => players.get(id)).find(Boolean)),
+  );
+
+/**
+ * The weekly stats with play-by-play counts joined in. Joins are kept per
+ * weekly-stats map and play-by-play asset, so refreshing either rebuilds
+ * them. Without a play-by-play asset the season scores from the weekly stats
+ * alone, and the next call tries the asset again.
+ */
+const joinSeasonPlayByPlay = async (
+  season: number,
+  grouped: Map<number, NflversePlayerStat[]>,
+): Promise<Map<number, NflversePlayerStat[]>> => {
+  let playByPlay: PlayByPlayAsset;
+  try {
+    playByPlay = await loadSeasonPlayByPlay(playerStatsSeasonMeta.get(season)?.seasonLoaded ?? season);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn("[nflverse] Play-by-play unavailable; play-by-play stats score as 0", {
+      season,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return grouped;
+  }
+  const existing = playByPlayJoins.get(grouped);
+  if (existing?.playByPlay === playByPlay) return existing.joined;
+  const joined = new Map<number, NflversePlayerStat[]>();
+  for (const [week, stats] of grouped) {
+    const players = playByPlay.weeks.get(week);
+    joined.set(week, players ? joinPlayByPlayWeek(stats, players) : stats);
+  }
+  playByPlayJoins.set(grouped, { playByPlay, joined });
+  return joined;
+};
+
+/**
+ * The play-by-play asset hash joined into `season`'s weekly stats, for cache
+ * keys, or `none` while the asset is unavailable.
+ */
+export async function playByPlaySourceKey(season: number): Promise<string> {
+  try {
+    const { contentHash } = await loadSeasonPlayByPlay(playerStatsSeasonMeta.get(season)?.seasonLoaded ?? season);
+    return contentHash.slice(0, 16);
+  } catch {
+    return "none";
+  }
+}
+
+/** A season's weekly stats as scoring sees them: play-by-play counts are joined in when `rules` use them. */
+const loadSeasonScoringStats = async (season: number, rules: ScoringRules) => {
+  const grouped = await loadSeasonPlayerStats(season);
+  return rulesUsePlayByPlay(rules) ? joinSeasonPlayByPlay(season, grouped) : grouped;
+};
+
+export async function fetchWeeklyScoringStats(
+  season: number,
+  week: number,
+  format: ScoringFormat,
+): Promise<NflversePlayerStat[]> {
+  const grouped = await loadSeasonScoringStats(season, resolveScoringRules(format));
+  return grouped.get(week) ?? [];
+}
+
+/** The `stats_team` defense rows for a week, without the opponent-offense fallback. */
+export async function fetchOfficialTeamDefense(season: number, week: number): Promise<TeamDefenseInput[]> {
+  const grouped = await loadSeasonTeamDefense(season);
+  return grouped.get(week) ?? [];
+}
+
+/** Weeks with `stats_team` defense rows; empty when the asset cannot be loaded. */
+export async function listTeamDefenseWeeks(season: number): Promise<number[]> {
+  try {
+    const grouped = await loadSeasonTeamDefense(season);
+    return Array.from(grouped.keys()).sort((a, b) => a - b);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Which team defense source scores `week`, for cache keys: the `stats_team`
+ * asset hash when the week has official rows, otherwise `opponent-offense`.
+ * Changes when `stats_team` publishes or corrects the week.
+ */
+export async function teamDefenseSourceKey(season: number, week: number): Promise<string> {
+  try {
+    const { contentHash, weeks } = await loadSeasonTeamDefenseAsset(season);
+    if (weeks.get(week)?.length) return `stats_team:${contentHash.slice(0, 16)}`;
+  } catch {
+    // Scoring falls back to the approximation as well.
+  }
+  return "opponent-offense";
+}
+
+/**
+ * Team defense inputs for scoring: `stats_team` rows when the week has them,
+ * otherwise the opponent-offense approximation. Each row carries its
+ * provenance.
+ */
 export async function fetchTeamDefenseInputs(season: number, week: number): Promise<TeamDefenseInput[]> {
   let grouped: Map<number, TeamDefenseInput[]> | undefined;
+  let fallbackReason: string;
   try {
     grouped = await loadSeasonTeamDefense(season);
     const official = grouped.get(week) ?? [];
     if (official.length > 0) return official;
-    if (grouped) {
-      // eslint-disable-next-line no-console
-      console.info("[nflverse] stats_team defense empty for week, using offense fallback", { season, week });
-    }
+    fallbackReason = "stats_team has no rows for this week";
+    // eslint-disable-next-line no-console
+    console.info("[nflverse] stats_team defense empty for week, using offense fallback", { season, week });
   } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    fallbackReason = `stats_team failed to load: ${err.message}`;
     // eslint-disable-next-line no-console
     console.warn("[nflverse] Failed to load stats_team defense, using offense fallback", {
       season,
@@ -1474,19 +1950,10 @@ export async function fetchTeamDefenseInputs(season: number, week: number): Prom
 
   try {
     const approx = await fetchDefenseApprox({ season, week });
-    if (!approx.rows.length) return grouped?.get(week) ?? [];
-    return approx.rows.map((row) => ({
-      season,
-      week: row.week,
-      team: row.team,
-      sacks: row.sacks,
-      interceptions: row.interceptions,
-      fumble_recoveries: row.fumbles_recovered,
-      safeties: 0,
-      defensive_tds: 0,
-      return_tds: 0,
-      points_allowed: row.points_allowed,
-    }));
+    // The approximation falls back to its latest week; never score one week with another's numbers.
+    if (!approx.rows.length || approx.week !== week) return grouped?.get(week) ?? [];
+    const provenance: TeamDefenseProvenance = { source: "opponent-offense", url: approx.source, fallbackReason };
+    return approx.rows.map((row) => ({ season, week: row.week, team: row.team, ...approxRowStats(row), provenance }));
   } catch (error) {
     if (error instanceof DefenseUnavailableError) {
       return grouped?.get(week) ?? [];
@@ -1495,38 +1962,42 @@ export async function fetchTeamDefenseInputs(season: number, week: number): Prom
   }
 }
 
-export const computeFantasyPoints = (stat: NflversePlayerStat, format: string): number => {
-  const ppr = format === "ppr" ? 1 : format === "half-ppr" ? 0.5 : 0;
-  const passing = (stat.passing_yards / 25) + (stat.passing_tds * 4) - (stat.interceptions * 2);
-  const rushing = (stat.rushing_yards / 10) + (stat.rushing_tds * 6);
-  const receiving = (stat.receiving_yards / 10) + (stat.receiving_tds * 6) + (stat.receptions * ppr);
-  const fumbles = stat.fumbles_lost * -2;
-  const kicking = (stat.field_goals_made * 3) + (stat.extra_points_made * 1);
-  const total = passing + rushing + receiving + fumbles + kicking;
-  return Number(total.toFixed(2));
-};
-
-const dstPointsAllowedBonus = (pointsAllowed: number): number => {
-  if (pointsAllowed <= 0) return 10;
-  if (pointsAllowed <= 6) return 7;
-  if (pointsAllowed <= 13) return 4;
-  if (pointsAllowed <= 20) return 1;
-  if (pointsAllowed <= 27) return 0;
-  if (pointsAllowed <= 34) return -1;
-  return -4;
-};
-
-export const computeDstPoints = (input: TeamDefenseInput): number => {
-  const base =
-    (input.sacks * 1) +
-    (input.interceptions * 2) +
-    (input.fumble_recoveries * 2) +
-    (input.safeties * 2) +
-    (input.defensive_tds * 6) +
-    (input.return_tds * 6);
-  const bonus = dstPointsAllowedBonus(input.points_allowed);
-  return Number((base + bonus).toFixed(2));
-};
+/** Offensive scoring, or the IDP weights for defenders when `idp` is given. */
+export const computeFantasyPoints = (
+  stat: ScoringStatLine & IdpStatLine,
+  format: ScoringFormat,
+  position?: string,
+  idp?: IdpWeights,
+): number =>
+  idp && idpPositionGroup(position ?? stat.position) ? scoreIdpLine(stat, idp) : scoreStatLine(stat, format, position);
+
+export const computeDstPoints = (input: TeamDefenseStats): number => scoreTeamDefense(input);
+
+/**
+ * Scores stat-revision snapshots of one week the way the views score that
+ * week: the same rules and IDP weights, with the week's play-by-play counts
+ * joined in when the rules weigh them.
+ */
+export async function createStatLineScorer(
+  season: number,
+  week: number,
+  format: ScoringFormat,
+  idp?: IdpWeights,
+): Promise<StatLineScorer> {
+  let counts: Map<string, PlayByPlayCounts> | undefined;
+  if (rulesUsePlayByPlay(resolveScoringRules(format))) {
+    try {
+      counts = (await loadSeasonPlayByPlay(playerStatsSeasonMeta.get(season)?.seasonLoaded ?? season)).weeks.get(week);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn("[nflverse] Play-by-play unavailable; play-by-play stats score as 0", {
+        season,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return (line) => computeFantasyPoints(joinPlayByPlayCounts(line, counts?.get(line.player_id)), format, line.position, idp);
+}
 
 const buildDefenseWeek = (snaps: DefSnapRow[], teams: TeamDefenseInput[]): DefenseWeek => {
   const snapMap = new Map<string, Map<string, number>>();
@@ -1539,10 +2010,12 @@ const buildDefenseWeek = (snaps: DefSnapRow[], teams: TeamDefenseInput[]): Defen
     playerMap.set(id, (playerMap.get(id) ?? 0) + snap.defense_snaps);
   }
   const dstMap = new Map<string, number>();
+  const provenanceMap = new Map<string, TeamDefenseProvenance>();
   for (const teamInput of teams) {
     const team = normalizeTeamAbbreviation(teamInput.team);
     if (!team) continue;
     dstMap.set(team, computeDstPoints(teamInput));
+    provenanceMap.set(team, teamInput.provenance);
   }
   const teamsSet = new Set<string>([...snapMap.keys(), ...dstMap.keys()]);
   const resultTeams: DefenseWeek["teams"] = [];
@@ -1553,29 +2026,83 @@ const buildDefenseWeek = (snaps: DefSnapRow[], teams: TeamDefenseInput[]): Defen
     const players = Array.from(playerMap.entries())
       .filter(([, snaps]) => snaps > 0)
       .map(([player_id, snaps]) => ({ player_id, snaps }));
+    const provenance = provenanceMap.get(normalizedTeam);
     resultTeams.push({
       team: normalizedTeam,
       dstPoints: Number((dstMap.get(normalizedTeam) ?? 0).toFixed(2)),
       players,
+      ...(provenance ? { provenance } : {}),
     });
   }
   return { teams: resultTeams };
 };
 
+/**
+ * Override → roster → players master, with the name-only static file as the
+ * last resort when none of them knows the player. Reports the winning source
+ * and the tiers tried for the college diagnostics.
+ */
+const pickCollege = (
+  overrides: CollegeCandidate[],
+  roster: string | undefined,
+  master: () => string,
+  name: string,
+): CollegeLookupResult => {
+  const found = (college: string, source: CollegeSource): CollegeLookupResult => ({
+    college,
+    source,
+    tried: COLLEGE_SOURCE_PRECEDENCE.slice(0, COLLEGE_SOURCE_PRECEDENCE.indexOf(source) + 1),
+  });
+  const override = overrides.find((candidate) => candidate.source !== "static:name");
+  if (override) return found(override.college, override.source);
+  if (roster) return found(roster, "roster");
+  const fromMaster = master();
+  if (fromMaster !== "Unknown") return found(fromMaster, "players-master");
+  const byName = staticCollegeByName(name);
+  if (byName) return found(byName, "static:name");
+  return { college: fromMaster, source: null, tried: COLLEGE_SOURCE_PRECEDENCE.slice() };
+};
+
+/** Diagnostic entry for a lookup that needs triage, or null when it resolved cleanly. */
+const collegeDiagnostic = (
+  season: number,
+  week: number,
+  leader: Leader,
+  lookup: CollegeLookupResult,
+): CollegeDiagnostic | null => {
+  const reason = classifyCollegeResolution(lookup);
+  if (!reason) return null;
+  return {
+    season,
+    week,
+    player_id: String(leader.player_id),
+    name: leader.full_name,
+    team: leader.team,
+    position: leader.position,
+    points: leader.points,
+    reason,
+    ...lookup,
+  };
+};
+
 const ensureDefenseLeaders = (
   leaders: Leader[],
   leaderMap: Map<string, Leader>,
   snaps: DefSnapRow[],
   playersData: PlayersMasterData,
   rosterLookup: RosterCollegeLookup,
+  overrides: CollegeOverrideIndex,
+  onResolved?: (leader: Leader, lookup: CollegeLookupResult) => void,
 ) => {
+  const matchThreshold = playerMatchThreshold();
   for (const snap of snaps) {
     const id = snap.player_id;
     if (!id) continue;
     const key = String(id);
-    const playerRow = resolvePlayerRow(
+    const { row: playerRow, match } = matchPlayerRow(
       { player_id: snap.player_id, alt_ids: snap.alt_ids, player_name: snap.name, team: snap.team },
       playersData.lookup,
+      matchThreshold,
     );
     const rawTeam = (snap.team || (playerRow?.team as string) || (playerRow?.recent_team as string) || "").toString().trim();
     const normalizedTeam = normalizeTeamAbbreviation(rawTeam);
@@ -1606,12 +2133,19 @@ const ensureDefenseLeaders = (
       },
       rosterLookup,
     );
-    const resolvedCollege =
-      rosterCollege ??
-      resolveCollegeFromMaster(
-        { player_id: playerRow?.player_id ?? snap.player_id, player_name: resolvedName, team },
-        playersData.maps,
-      );
+    const lookup = pickCollege(
+      overrideCandidates(
+        { player_id: snap.player_id ?? playerRow?.player_id, alt_ids: rosterAltIds, name: resolvedName, team },
+        overrides,
+      ),
+      rosterCollege,
+      () =>
+        resolveCollegeFromMaster(
+          { player_id: playerRow?.player_id ?? snap.player_id, player_name: resolvedName, team },
+          playersData.maps,
+        ),
+      resolvedName,
+    );
     if (!leaderMap.has(key)) {
       const leader: Leader = {
         player_id: id,
@@ -1619,16 +2153,18 @@ const ensureDefenseLeaders = (
         position,
         team,
         points: 0,
-        college: resolvedCollege,
+        college: lookup.college,
+        match,
       };
       leaders.push(leader);
       leaderMap.set(key, leader);
+      onResolved?.(leader, lookup);
     } else {
       const existing = leaderMap.get(key)!;
       if (!existing.team && team) existing.team = team;
       if ((!existing.position || existing.position === "") && position) existing.position = position;
-      if ((!existing.college || existing.college === "Unknown") && resolvedCollege !== "Unknown") {
-        existing.college = resolvedCollege;
+      if ((!existing.college || existing.college === "Unknown") && lookup.college !== "Unknown") {
+        existing.college = lookup.college;
       }
     }
   }
@@ -1637,7 +2173,7 @@ const ensureDefenseLeaders = (
 export async function loadWeek(options: LoadWeekOptions): Promise<LoadWeekResult> {
   const season = options.season;
   const week = options.week;
-  const format = options.format;
+  const rules = resolveScoringRules(options.format);
   const includeDefense = options.includeDefense ?? false;
   let playersData: PlayersMasterData;
   try {
@@ -1650,14 +2186,19 @@ export async function loadWeek(options: LoadWeekOptions): Promise<LoadWeekResult
       code: "PLAYERS_MASTER_FETCH_FAILED",
     });
   }
-  const stats = await fetchWeeklyPlayerStats(season, week);
+  const stats = await fetchWeeklyScoringStats(season, week, rules);
   const playerStatsSource = playerStatsSeasonMeta.get(season);
   const effectiveSeason = playerStatsSource?.seasonLoaded ?? season;
-  const rosterLookup = await playersData.getRosterColleges(effectiveSeason);
+  const [rosterLookup, overrides] = await Promise.all([
+    playersData.getRosterColleges(effectiveSeason),
+    loadCollegeOverrideIndex(),
+  ]);
   const leaders: Leader[] = [];
   const leaderMap = new Map<string, Leader>();
+  const diagnostics: CollegeDiagnostic[] = [];
+  const matchThreshold = playerMatchThreshold();
   for (const stat of stats) {
-    const playerRow = resolvePlayerRow(stat, playersData.lookup);
+    const { row: playerRow, match } = matchPlayerRow(stat, playersData.lookup, matchThreshold);
     const name =
       (typeof playerRow?.full_name === "string" && playerRow.full_name.trim()) ? playerRow.full_name :
       (stat.name && stat.name.trim()) ? stat.name :
@@ -1694,23 +2235,33 @@ export async function loadWeek(options: LoadWeekOptions): Promise<LoadWeekResult
       },
       rosterLookup,
     );
-    const college =
-      rosterCollege ??
-      resolveCollegeFromMaster(
-        { player_id: playerRow?.player_id ?? stat.player_id, player_name: playerRow?.full_name ?? name, team },
-        playersData.maps,
-      );
-    const points = computeFantasyPoints(stat, format);
+    const lookup = pickCollege(
+      overrideCandidates(
+        { player_id: stat.player_id ?? playerRow?.player_id, alt_ids: rosterAltIds, name: playerRow?.full_name ?? name, team },
+        overrides,
+      ),
+      rosterCollege,
+      () =>
+        resolveCollegeFromMaster(
+          { player_id: playerRow?.player_id ?? stat.player_id, player_name: playerRow?.full_name ?? name, team },
+          playersData.maps,
+        ),
+      playerRow?.full_name ?? name,
+    );
+    const points = computeFantasyPoints(stat, rules, position, options.idp);
     const leader: Leader = {
       player_id: stat.player_id,
       full_name: name,
       position,
       team,
       points,
-      college,
+      college: lookup.college,
+      match,
     };
     leaders.push(leader);
     leaderMap.set(String(stat.player_id), leader);
+    const diagnostic = collegeDiagnostic(season, week, leader, lookup);
+    if (diagnostic) diagnostics.push(diagnostic);
   }
   let defenseData: DefenseWeek | undefined;
   if (includeDefense) {
@@ -1718,29 +2269,74 @@ export async function loadWeek(options: LoadWeekOptions): Promise<LoadWeekResult
       fetchDefensiveSnaps(effectiveSeason, week),
       fetchTeamDefenseInputs(effectiveSeason, week),
     ]);
-    ensureDefenseLeaders(leaders, leaderMap, snaps, playersData, rosterLookup);
+    ensureDefenseLeaders(leaders, leaderMap, snaps, playersData, rosterLookup, overrides, (leader, lookup) => {
+      const diagnostic = collegeDiagnostic(season, week, leader, lookup);
+      if (diagnostic) diagnostics.push(diagnostic);
+    });
     defenseData = buildDefenseWeek(snaps, defenseInputs);
   }
-  return { leaders, defenseData, playerStatsSource };
+  recordCollegeDiagnostics(season, week, rules.name, diagnostics);
+  const revision = playerStatsWeekRevisions.get(season)?.get(week);
+  return { leaders, defenseData, playerStatsSource, revision };
 }
 
-export async function computeHistoricalAverages(season: number, week: number, format: string): Promise<Record<string, number>> {
-  if (week <= 1) return {};
-  const grouped = await loadSeasonPlayerStats(season);
-  const sums = new Map<string, { total: number; count: number }>();
-  for (let w = 1; w < week; w += 1) {
-    const stats = grouped.get(w) ?? [];
-    for (const stat of stats) {
-      const pts = computeFantasyPoints(stat, format);
-      const prev = sums.get(stat.player_id) ?? { total: 0, count: 0 };
-      prev.total += pts;
-      prev.count += 1;
-      sums.set(stat.player_id, prev);
-    }
+/**
+ * Every college source for one player in precedence order (admin overrides,
+ * the by-id static file, the season roster, the players master, then the
+ * name-only static file), with the winner. Backs the admin override lookup.
+ */
+export async function explainPlayerCollege(
+  season: number,
+  player: { gsisId?: string; name?: string; team?: string },
+): Promise<CollegeResolution & { player: { player_id?: string; name?: string; team?: string } }> {
+  const [playersData, overrides] = await Promise.all([ensurePlayersMasterData(), loadCollegeOverrideIndex()]);
+  const rosterLookup = await playersData.getRosterColleges(season);
+  const team = normalizeTeamAbbreviation(player.team) || undefined;
+  const playerRow = resolvePlayerRow({ player_id: player.gsisId, player_name: player.name, team }, playersData.lookup);
+  const playerId = player.gsisId || playerRow?.player_id || playerRow?.gsis_id;
+  const name = player.name || playerRow?.full_name || playerRow?.player_name;
+  const altIds = playerRow ? collectPlayerRowIds(playerRow) : [];
+  const candidates: CollegeCandidate[] = overrideCandidates({ player_id: playerId, alt_ids: altIds, name, team }, overrides);
+  const roster = resolveCollegeFromRoster({ player_id: playerId, alt_ids: altIds, player_name: name, team }, rosterLookup);
+  if (roster) candidates.push({ source: "roster", college: roster });
+  const master = resolveCollegeFromMaster({ player_id: playerId, player_name: name, team }, playersData.maps);
+  if (master) candidates.push({ source: "players-master", college: master });
+  return { ...resolveCollegePrecedence(candidates), player: { player_id: playerId, name, team } };
+}
+
+const cumulativeTables = new WeakMap<Map<number, NflversePlayerStat[]>, Map<string, CumulativeTable>>();
+const MAX_TABLES_PER_SEASON = 8;
+
+/**
+ * Running per-player totals for a season in one scoring format. Tables hang
+ * off the cached season map, so a stat-correction refresh (which replaces the
+ * map) drops them automatically.
+ */
+const loadCumulativeTable = async (season: number, rules: ScoringRules, idp?: IdpWeights): Promise<CumulativeTable> => {
+  const grouped = await loadSeasonScoringStats(season, rules);
+  let tables = cumulativeTables.get(grouped);
+  if (!tables) {
+    tables = new Map();
+    cumulativeTables.set(grouped, tables);
   }
-  const averages: Record<string, number> = {};
-  for (const [playerId, entry] of sums.entries()) {
-    if (entry.count > 0) averages[playerId] = Number((entry.total / entry.count).toFixed(2));
+  const key = idp ? `${scoringRulesKey(rules)}:idp-${idpWeightsKey(idp)}` : scoringRulesKey(rules);
+  let table = tables.get(key);
+  if (!table) {
+    table = buildCumulativeTable(grouped, (stat) => computeFantasyPoints(stat, rules, stat.position, idp));
+    if (tables.size >= MAX_TABLES_PER_SEASON) tables.delete(tables.keys().next().value as string);
+    tables.set(key, table);
   }
-  return averages;
+  return table;
+};
+
+export async function computeHistoricalAverages(
+  season: number,
+  week: number,
+  format: ScoringFormat,
+  window: AveragingWindow = DEFAULT_AVERAGING_WINDOW,
+  idp?: IdpWeights,
+): Promise<Record<string, number>> {
+  if (week <= 1) return {};
+  const table = await loadCumulativeTable(season, resolveScoringRules(format), idp);
+  return averagesAsOf(table, week, window);
 }
@@ -0,0 +1,212 @@
+import type { PlayersMasterRow } from "./playersMaster";
+
+/**
+ * Scored player identity matching for joins where ids are missing or
+ * disagree. Names are canonicalised (accents, punctuation, suffixes, initials,
+ * common nicknames) and candidates sharing a last name are scored on first
+ * name, team history, position and draft year. Callers keep the best match
+ * only when its confidence clears the threshold.
+ */
+
+export const PLAYER_MATCH_METHODS = ["id", "name-team", "name", "fuzzy", "none"] as const;
+
+export type PlayerMatchMethod = (typeof PLAYER_MATCH_METHODS)[number];
+
+export type PlayerMatch = {
+  method: PlayerMatchMethod;
+  /** 0–1; exact id matches are 1. */
+  confidence: number;
+};
+
+export type PlayerMatchCandidate = {
+  name?: string;
+  team?: string;
+  /** Other teams the player is known to have played for. */
+  teams?: string[];
+  position?: string;
+  draftYear?: number;
+};
+
+export const DEFAULT_PLAYER_MATCH_THRESHOLD = 0.7;
+
+/** Matches below this confidence are flagged as uncertain attributions. */
+export const UNCERTAIN_MATCH_BELOW = 0.9;
+
+export const MATCH_CONFIDENCE: Record<Exclude<PlayerMatchMethod, "fuzzy">, number> = {
+  id: 1,
+  "name-team": 0.95,
+  name: 0.8,
+  none: 0,
+};
+
+/** Two fuzzy candidates closer than this are treated as ambiguous. */
+const AMBIGUITY_MARGIN = 0.05;
+
+const SUFFIXES = new Set(["jr", "sr", "ii", "iii", "iv", "v"]);
+
+const NICKNAMES: Record<string, string> = {
+  alex: "alexander",
+  ben: "benjamin",
+  bob: "robert",
+  cam: "cameron",
+  chris: "christopher",
+  dan: "daniel",
+  danny: "daniel",
+  dave: "david",
+  ed: "edward",
+  gabe: "gabriel",
+  greg: "gregory",
+  jake: "jacob",
+  jim: "james",
+  jimmy: "james",
+  joe: "joseph",
+  jon: "jonathan",
+  josh: "joshua",
+  ken: "kenneth",
+  kenny: "kenneth",
+  matt: "matthew",
+  mike: "michael",
+  mitch: "mitchell",
+  nate: "nathan",
+  nick: "nicholas",
+  pat: "patrick",
+  rob: "robert",
+  sam: "samuel",
+  steve: "steven",
+  tom: "thomas",
+  tony: "anthony",
+  will: "william",
+  zach: "zachary",
+  zack: "zachary",
+};
+
+const POSITION_GROUPS: Record<string, string> = {
+  HB: "RB",
+  FB: "RB",
+  PK: "K",
+  DE: "DL",
+  DT: "DL",
+  NT: "DL",
+  OLB: "LB",
+  ILB: "LB",
+  MLB: "LB",
+  CB: "DB",
+  S: "DB",
+  FS: "DB",
+  SS: "DB",
+  SAF: "DB",
+};
+
+export type CanonicalName = { first: string; last: string };
+
+/** "D.J. Moore" and "DJ Moore Jr." both become `{ first: "dj", last: "moore" }`. */
+export function canonicalPlayerName(value?: string | null): CanonicalName {
+  const tokens = String(value ?? "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’`-]/g, "")
+    .replace(/[^a-z]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+  while (tokens.length > 1 && SUFFIXES.has(tokens[tokens.length - 1])) tokens.pop();
+  // Fold leading initials ("d j moore") into one token.
+  while (tokens.length > 2 && tokens[0].length <= 2 && tokens[1].length === 1) {
+    tokens.splice(0, 2, tokens[0] + tokens[1]);
+  }
+  if (tokens.length < 2) return { first: "", last: tokens[0] ?? "" };
+  const first = tokens[0];
+  return { first: NICKNAMES[first] ?? first, last: tokens.slice(1).join("") };
+}
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+const positionGroup = (value?: string) => {
+  const position = text(value).toUpperCase();
+  return POSITION_GROUPS[position] ?? position;
+};
+
+const rowName = (row: PlayersMasterRow) => text(row.full_name) || text(row.player_name) || text(row.display_name);
+
+const rowCurrentTeams = (row: PlayersMasterRow) =>
+  new Set([row.team, row.recent_team, row.latest_team].map((team) => text(team).toUpperCase()).filter(Boolean));
+
+const rowDraftYear = (row: PlayersMasterRow) => {
+  for (const field of ["draft_year", "entry_year", "rookie_season", "rookie_year"]) {
+    const value = Number(row[field]);
+    if (Number.isInteger(value) && value > 1900) return value;
+  }
+  return undefined;
+};
+
+const firstNameScore = (a: string, b: string) => {
+  if (!a || !b) return 0.3;
+  if (a === b) return 0.6;
+  if (a.length === 1 || b.length === 1) return a[0] === b[0] ? 0.4 : 0;
+  if (Math.min(a.length, b.length) >= 3 && (a.startsWith(b) || b.startsWith(a))) return 0.45;
+  return 0;
+};
+
+/**
+ * How likely `row` is the player described by `candidate`: up to 0.6 for the
+ * first name (last names must agree), 0.25 for team, 0.1 for position and
+ * 0.05 for draft year. A draft-year conflict costs 0.2.
+ */
+export function scorePlayerCandidate(candidate: PlayerMatchCandidate, row: PlayersMasterRow): number {
+  const wanted = canonicalPlayerName(candidate.name);
+  const found = canonicalPlayerName(rowName(row));
+  if (!wanted.last || wanted.last !== found.last) return 0;
+  const nameScore = firstNameScore(wanted.first, found.first);
+  if (nameScore === 0) return 0;
+
+  const team = text(candidate.team).toUpperCase();
+  const currentTeams = rowCurrentTeams(row);
+  const candidateTeams = new Set((candidate.teams ?? []).map((t) => t.toUpperCase()));
+  let teamScore = 0.05;
+  if (team && currentTeams.size) {
+    if (currentTeams.has(team)) teamScore = 0.25;
+    // Traded or re-signed: the stat team is the row's draft team, or the row's team is one the player left.
+    else if (text(row.draft_team).toUpperCase() === team || Array.from(currentTeams).some((t) => candidateTeams.has(t))) {
+      teamScore = 0.15;
+    } else teamScore = 0;
+  }
+
+  const wantedPosition = positionGroup(candidate.position);
+  const foundPosition = positionGroup(text(row.position));
+  const positionScore = !wantedPosition || !foundPosition ? 0.05 : wantedPosition === foundPosition ? 0.1 : 0;
+
+  const draftYear = rowDraftYear(row);
+  const draftScore =
+    candidate.draftYear && draftYear ? (candidate.draftYear === draftYear ? 0.05 : -0.2) : 0;
+
+  const total = nameScore + teamScore + positionScore + draftScore;
+  return Number(Math.min(1, Math.max(0, total)).toFixed(2));
+}
+
+/**
+ * Best-scoring row among `rows`, or null when nothing clears `threshold` or
+ * the top two are too close to tell apart.
+ */
+export function bestFuzzyMatch(
+  candidate: PlayerMatchCandidate,
+  rows: PlayersMasterRow[],
+  threshold: number = DEFAULT_PLAYER_MATCH_THRESHOLD,
+): { row: PlayersMasterRow; confidence: number } | null {
+  const scored = rows
+    .map((row) => ({ row, confidence: scorePlayerCandidate(candidate, row) }))
+    .filter((entry) => entry.confidence >= threshold)
+    .sort((a, b) => b.confidence - a.confidence);
+  if (!scored.length) return null;
+  if (scored.length > 1 && scored[0].confidence - scored[1].confidence < AMBIGUITY_MARGIN) return null;
+  return scored[0];
+}
+
+/** `PLAYER_MATCH_THRESHOLD` (0–1) when set, otherwise the default. */
+export function playerMatchThreshold(): number {
+  const raw = Number(process.env.PLAYER_MATCH_THRESHOLD);
+  return Number.isFinite(raw) && raw > 0 && raw <= 1 ? raw : DEFAULT_PLAYER_MATCH_THRESHOLD;
+}
+
+export const isUncertainMatch = (match?: PlayerMatch | null): boolean =>
+  Boolean(match && match.confidence < UNCERTAIN_MATCH_BELOW);
@@ -1,5 +1,12 @@
 import { fetchBuffer } from "./http";
 import { playersMasterCandidates } from "./nflverseUrls";
+import {
+  bestFuzzyMatch,
+  canonicalPlayerName,
+  DEFAULT_PLAYER_MATCH_THRESHOLD,
+  MATCH_CONFIDENCE,
+  type PlayerMatch,
+} from "./playerMatching";
 import { normalize } from "./utils";
 
 export type PlayersMasterRow = {
@@ -166,12 +173,15 @@ export type PlayersMasterLookup = {
   byId: Map<string, PlayersMasterRow>;
   byNameTeam: Map<string, PlayersMasterRow>;
   byName: Map<string, PlayersMasterRow>;
+  /** Rows by canonical last name; the candidate pool for fuzzy matching. */
+  byLastName: Map<string, PlayersMasterRow[]>;
 };
 
 export function buildPlayersLookup(rows: PlayersMasterRow[]): PlayersMasterLookup {
   const byId = new Map<string, PlayersMasterRow>();
   const byNameTeam = new Map<string, PlayersMasterRow>();
   const byName = new Map<string, PlayersMasterRow>();
+  const byLastName = new Map<string, PlayersMasterRow[]>();
 
   for (const row of rows) {
     for (const id of collectIds(row)) {
@@ -185,32 +195,73 @@ export function buildPlayersLookup(rows: PlayersMasterRow[]): PlayersMasterLooku
       const key = nkey(name, team);
       if (!byNameTeam.has(key)) byNameTeam.set(key, row);
     }
+    const { last } = canonicalPlayerName(name);
+    if (last) {
+      const pool = byLastName.get(last);
+      if (pool) pool.push(row);
+      else byLastName.set(last, [row]);
+    }
   }
-  return { byId, byNameTeam, byName };
+  return { byId, byNameTeam, byName, byLastName };
 }
 
-export function resolvePlayerRow(
-  stat: { player_id?: unknown; alt_ids?: unknown[]; player_name?: string; name?: string; team?: string },
+export type PlayerRowCandidate = {
+  player_id?: unknown;
+  alt_ids?: unknown[];
+  player_name?: string;
+  name?: string;
+  team?: string;
+  position?: string;
+  draftYear?: number;
+};
+
+/**
+ * Finds a player's master row by id, then `name|team`, then exact name, then
+ * the fuzzy scorer, and reports how it matched. Matches below `threshold`
+ * (exact name matches included) come back as `none`.
+ */
+export function matchPlayerRow(
+  stat: PlayerRowCandidate,
   lookup: PlayersMasterLookup,
-): PlayersMasterRow | undefined {
+  threshold: number = DEFAULT_PLAYER_MATCH_THRESHOLD,
+): { row: PlayersMasterRow | undefined; match: PlayerMatch } {
+  const matched = (row: PlayersMasterRow, method: PlayerMatch["method"], confidence: number) =>
+    confidence >= threshold ? { row, match: { method, confidence } } : null;
   const ids = new Set<string>();
   appendIdCandidate(ids, stat.player_id);
   if (Array.isArray(stat.alt_ids)) {
     for (const candidate of stat.alt_ids) appendIdCandidate(ids, candidate);
   }
   for (const id of ids) {
-    if (lookup.byId.has(id)) return lookup.byId.get(id);
+    const row = lookup.byId.get(id);
+    if (row) return { row, match: { method: "id", confidence: MATCH_CONFIDENCE.id } };
   }
   const rawName = stat.player_name ?? stat.name ?? "";
   const name = norm(rawName);
   const team = norm(stat.team ?? "");
-  if (name && team) {
-    const key = nkey(name, team);
-    if (lookup.byNameTeam.has(key)) return lookup.byNameTeam.get(key);
-  }
-  if (name) {
-    const key = nameKey(name);
-    if (lookup.byName.has(key)) return lookup.byName.get(key);
+  const none = { row: undefined, match: { method: "none" as const, confidence: MATCH_CONFIDENCE.none } };
+  if (!name) return none;
+  if (team) {
+    const row = lookup.byNameTeam.get(nkey(name, team));
+    const result = row && matched(row, "name-team", MATCH_CONFIDENCE["name-team"]);
+    if (result) return result;
   }
-  return undefined;
+  const byName = lookup.byName.get(nameKey(name));
+  const exact = byName && matched(byName, "name", MATCH_CONFIDENCE.name);
+  if (exact) return exact;
+  const pool = lookup.byLastName.get(canonicalPlayerName(name).last) ?? [];
+  const fuzzy = bestFuzzyMatch(
+    { name, team, position: stat.position, draftYear: stat.draftYear },
+    pool,
+    threshold,
+  );
+  return fuzzy ? { row: fuzzy.row, match: { method: "fuzzy", confidence: fuzzy.confidence } } : none;
+}
+
+export function resolvePlayerRow(
+  stat: PlayerRowCandidate,
+  lookup: PlayersMasterLookup,
+  threshold?: number,
+): PlayersMasterRow | undefined {
+  return matchPlayerRow(stat, lookup, threshold).row;
 }
@@ -0,0 +1,253 @@
+import { HttpError } from "./api";
+import {
+  computeStandings,
+  dedupeRecords,
+  haveAllMet,
+  headToHeadPercentage,
+  loadRecords,
+  winPercentage,
+  type League,
+  type StandingsRow,
+} from "./league";
+import { isWeekFinal, schoolKey, scoreLeagueWeek } from "./leagueResolver";
+import { NflverseAssetMissingError } from "./nflverse";
+import { sameSchool } from "./schoolRegistry";
+import type { SchoolAggregate } from "./types";
+
+export const PLAYOFF_TIEBREAKERS = ["head-to-head", "points-for", "division", "point-differential"] as const;
+
+export type PlayoffTiebreaker = (typeof PLAYOFF_TIEBREAKERS)[number];
+
+export type PlayoffOptions = {
+  teams: number;
+  tiebreakers: PlayoffTiebreaker[];
+};
+
+export const DEFAULT_PLAYOFF_OPTIONS: PlayoffOptions = {
+  teams: 4,
+  tiebreakers: ["head-to-head", "points-for"],
+};
+
+/** The championship is always played in NFL week 17; earlier rounds count back from it. */
+export const PLAYOFF_FINAL_WEEK = 17;
+export const MAX_PLAYOFF_ROUNDS = 3;
+export const MAX_PLAYOFF_TEAMS = 2 ** MAX_PLAYOFF_ROUNDS;
+
+export type PlayoffSeed = StandingsRow & {
+  seed: number;
+  division?: string;
+  divisionWinner?: boolean;
+};
+
+export type PlayoffGame = {
+  id: string;
+  round: number;
+  week: number;
+  home: PlayoffSeed | null;
+  away: PlayoffSeed | null;
+  homePoints?: number;
+  awayPoints?: number;
+  winner: PlayoffSeed | null;
+  status: "bye" | "scheduled" | "pending" | "final";
+};
+
+export type PlayoffRound = {
+  round: number;
+  week: number;
+  name: string;
+  games: PlayoffGame[];
+};
+
+export type PlayoffBracket = {
+  league: string;
+  season: number;
+  teams: number;
+  tiebreakers: PlayoffTiebreaker[];
+  seeds: PlayoffSeed[];
+  rounds: PlayoffRound[];
+  champion: PlayoffSeed | null;
+};
+
+const divisionWinners = (standings: StandingsRow[], divisions: Record<string, string[]> | undefined) => {
+  const winners = new Set<string>();
+  const divisionOf = new Map<string, string>();
+  if (!divisions) return { winners, divisionOf };
+  for (const [division, members] of Object.entries(divisions)) {
+    for (const member of members) divisionOf.set(member.toLowerCase(), division);
+    const leader = standings.find((row) => members.some((member) => sameSchool(member, row.school)));
+    if (leader) winners.add(leader.school.toLowerCase());
+  }
+  return { winners, divisionOf };
+};
+
+/**
+ * Orders standings for seeding. Win percentage decides first; schools that are
+ * level are separated by each tiebreaker in turn (head-to-head only counts
+ * games among the tied schools), with school name as the final fallback.
+ */
+export function seedStandings(
+  standings: StandingsRow[],
+  options: Pick<PlayoffOptions, "tiebreakers"> & { divisions?: Record<string, string[]> },
+): PlayoffSeed[] {
+  const { winners, divisionOf } = divisionWinners(standings, options.divisions);
+  const buckets = new Map<number, StandingsRow[]>();
+  for (const row of standings) {
+    const pct = Number(winPercentage(row).toFixed(6));
+    if (!buckets.has(pct)) buckets.set(pct, []);
+    buckets.get(pct)!.push(row);
+  }
+  const ordered: StandingsRow[] = [];
+  for (const pct of Array.from(buckets.keys()).sort((a, b) => b - a)) {
+    const tied = buckets.get(pct)!;
+    const group = tied.map((row) => row.school);
+    // Head-to-head is neutral unless every tied school has met the others.
+    const useHeadToHead = haveAllMet(tied);
+    const metrics = new Map(
+      tied.map((row) => [
+        row,
+        options.tiebreakers.map((tiebreaker) => {
+          switch (tiebreaker) {
+            case "head-to-head":
+              return useHeadToHead ? headToHeadPercentage(row, group) : 0;
+            case "points-for":
+              return row.pointsFor;
+            case "division":
+              return winners.has(row.school.toLowerCase()) ? 1 : 0;
+            case "point-differential":
+              return row.pointsFor - row.pointsAgainst;
+          }
+        }),
+      ]),
+    );
+    tied.sort((a, b) => {
+      const ma = metrics.get(a)!;
+      const mb = metrics.get(b)!;
+      for (let i = 0; i < ma.length; i += 1) {
+        if (ma[i] !== mb[i]) return mb[i] - ma[i];
+      }
+      return a.school.localeCompare(b.school);
+    });
+    ordered.push(...tied);
+  }
+  return ordered.map((row, index) => ({
+    ...row,
+    seed: index + 1,
+    division: divisionOf.get(row.school.toLowerCase()),
+    divisionWinner: options.divisions ? winners.has(row.school.toLowerCase()) : undefined,
+  }));
+}
+
+/** Standard bracket order (1 v 8, 4 v 5, 2 v 7, 3 v 6, …) so top seeds meet as late as possible. */
+export function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const total = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, total - seed]);
+  }
+  return order;
+}
+
+const ROUND_NAMES: Record<number, string> = { 1: "Championship", 2: "Semifinals", 3: "Quarterfinals" };
+
+const roundName = (round: number, rounds: number) => ROUND_NAMES[rounds - round + 1] ?? `Round ${round}`;
+
+export function parsePlayoffOptions(value: unknown, fallback: PlayoffOptions = DEFAULT_PLAYOFF_OPTIONS): PlayoffOptions {
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== "object" || Array.isArray(value)) throw new HttpError(400, "playoffs must be an object");
+  const { teams = fallback.teams, tiebreakers = fallback.tiebreakers } = value as Record<string, unknown>;
+  if (typeof teams !== "number" || !Number.isInteger(teams) || teams < 2 || teams > MAX_PLAYOFF_TEAMS) {
+    throw new HttpError(400, `playoffs.teams must be an integer between 2 and ${MAX_PLAYOFF_TEAMS}`);
+  }
+  if (!Array.isArray(tiebreakers)) throw new HttpError(400, "playoffs.tiebreakers must be an array");
+  for (const tiebreaker of tiebreakers) {
+    if (!(PLAYOFF_TIEBREAKERS as readonly unknown[]).includes(tiebreaker)) {
+      throw new HttpError(400, `playoffs.tiebreakers must only contain: ${PLAYOFF_TIEBREAKERS.join(", ")}`);
+    }
+  }
+  return { teams, tiebreakers: Array.from(new Set(tiebreakers as PlayoffTiebreaker[])) };
+}
+
+/**
+ * Builds the single-elimination bracket for a league. Seeds come from the
+ * league's recorded regular-season games (`POST /api/standings` records them); seeds without an opponent get a bye, the
+ * higher seed hosts and wins ties, and each final NFL week is scored with the
+ * league's own format, lineup and defense settings.
+ */
+export async function buildPlayoffBracket(
+  league: League,
+  options: PlayoffOptions = league.playoffs ?? DEFAULT_PLAYOFF_OPTIONS,
+  now: Date = new Date(),
+): Promise<PlayoffBracket> {
+  const teams = Math.min(options.teams, league.schools.length);
+  const rounds = Math.max(1, Math.ceil(Math.log2(teams)));
+  const firstWeek = PLAYOFF_FINAL_WEEK - rounds + 1;
+  const records = dedupeRecords(await loadRecords()).filter((record) => record.league === league.id);
+  const regularSeason = records.filter((record) => record.week < firstWeek);
+  const standings = computeStandings(regularSeason, league.schools);
+  const seeds = seedStandings(standings, { tiebreakers: options.tiebreakers, divisions: league.divisions });
+  const qualified = seeds.slice(0, teams);
+  const bySeed = new Map(qualified.map((seed) => [seed.seed, seed]));
+
+  const weekRows = new Map<number, Map<string, SchoolAggregate> | null>();
+  const loadRows = async (week: number) => {
+    if (weekRows.has(week)) return weekRows.get(week)!;
+    let rows: Map<string, SchoolAggregate> | null = null;
+    try {
+      const aggregates = await scoreLeagueWeek(league, week);
+      rows = new Map(aggregates.map((row) => [schoolKey(row.school), row]));
+    } catch (error) {
+      if (!(error instanceof NflverseAssetMissingError)) throw error;
+    }
+    weekRows.set(week, rows);
+    return rows;
+  };
+
+  const bracketSize = 2 ** rounds;
+  let entrants: (PlayoffSeed | null)[] = bracketOrder(bracketSize).map((seed) => bySeed.get(seed) ?? null);
+  const playoffRounds: PlayoffRound[] = [];
+  for (let round = 1; round <= rounds; round += 1) {
+    const week = firstWeek + round - 1;
+    const games: PlayoffGame[] = [];
+    const final = isWeekFinal(league.season, week, now);
+    for (let i = 0; i < entrants.length; i += 2) {
+      const [first, second] = [entrants[i], entrants[i + 1]];
+      const [home, away] = first && second && second.seed < first.seed ? [second, first] : [first, second];
+      const game: PlayoffGame = {
+        id: `r${round}g${i / 2 + 1}`,
+        round,
+        week,
+        home,
+        away,
+        winner: null,
+        status: "scheduled",
+      };
+      if (round === 1 && home && !away) {
+        game.status = "bye";
+        game.winner = home;
+      } else if (home && away && final) {
+        const rows = await loadRows(week);
+        if (rows) {
+          game.homePoints = rows.get(schoolKey(home.school))?.totalPoints ?? 0;
+          game.awayPoints = rows.get(schoolKey(away.school))?.totalPoints ?? 0;
+          game.winner = game.awayPoints > game.homePoints ? away : home;
+          game.status = "final";
+        } else {
+          game.status = "pending";
+        }
+      }
+      games.push(game);
+    }
+    playoffRounds.push({ round, week, name: roundName(round, rounds), games });
+    entrants = games.map((game) => game.winner);
+  }
+
+  return {
+    league: league.id,
+    season: league.season,
+    teams,
+    tiebreakers: options.tiebreakers,
+    seeds,
+    rounds: playoffRounds,
+    champion: playoffRounds[playoffRounds.length - 1]?.games[0]?.winner ?? null,
+  };
+}
@@ -0,0 +1,134 @@
+import registryData from "@/data/schools.json";
+
+/**
+ * Canonical school registry loaded from `data/schools.json`. Every route and
+ * page resolves a school name, slug, id or alias through here so that
+ * "Miami", "Miami FL" and "miami-fl" all land on the same school.
+ */
+
+export const SCHOOL_LEVELS = ["FBS", "FCS", "D-II", "D-III"] as const;
+
+export type SchoolLevel = (typeof SCHOOL_LEVELS)[number];
+
+export type ConferenceEra = {
+  /** First season the school played in this conference. */
+  from: number;
+  conference: string;
+};
+
+export type SchoolRecord = {
+  id: string;
+  name: string;
+  slug: string;
+  mascot: string;
+  level: SchoolLevel;
+  aliases: string[];
+  /** Ascending by `from`; the last era whose `from` ≤ season applies. */
+  conferences: ConferenceEra[];
+};
+
+export type SchoolRegistry = {
+  version: string;
+  updatedAt: string;
+  schools: SchoolRecord[];
+};
+
+const REGISTRY = registryData as SchoolRegistry;
+
+export const SCHOOL_REGISTRY_VERSION = REGISTRY.version;
+
+/** Lookup key shared by names, slugs and aliases: lowercase alphanumerics without filler words. */
+export const registryKey = (value?: string | null): string =>
+  String(value ?? "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\b(university|the|of|at)\b/g, " ")
+    .replace(/\s+/g, "");
+
+const buildIndex = (registry: SchoolRegistry) => {
+  const index = new Map<string, SchoolRecord>();
+  for (const school of registry.schools) {
+    for (const value of [school.id, school.slug, school.name, ...school.aliases]) {
+      const key = registryKey(value);
+      if (!key) continue;
+      const existing = index.get(key);
+      if (existing && existing.id !== school.id) {
+        // eslint-disable-next-line no-console
+        console.warn("[schoolRegistry] Ambiguous alias ignored", { alias: value, schools: [existing.id, school.id] });
+        continue;
+      }
+      index.set(key, school);
+    }
+  }
+  return index;
+};
+
+const INDEX = buildIndex(REGISTRY);
+const BY_ID = new Map(REGISTRY.schools.map((school) => [school.id, school]));
+
+export function listSchools(): SchoolRecord[] {
+  return REGISTRY.schools;
+}
+
+export function getSchoolById(id: string): SchoolRecord | null {
+  return BY_ID.get(id) ?? null;
+}
+
+/** The registry entry for a name, slug, id or alias, or null for schools outside the registry. */
+export function resolveSchool(value?: string | null): SchoolRecord | null {
+  const key = registryKey(value);
+  return key ? INDEX.get(key) ?? null : null;
+}
+
+/** Registry display name, falling back to the trimmed input. */
+export function schoolDisplayName(value?: string | null): string {
+  return resolveSchool(value)?.name ?? String(value ?? "").replace(/\s+/g, " ").trim();
+}
+
+export function schoolSlug(value: string): string {
+  return (
+    resolveSchool(value)?.slug ??
+    value
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+  );
+}
+
+export function sameSchool(a?: string | null, b?: string | null): boolean {
+  const left = resolveSchool(a);
+  const right = resolveSchool(b);
+  if (left || right) return left?.id === right?.id;
+  const key = registryKey(a);
+  return key.length > 0 && key === registryKey(b);
+}
+
+export function conferenceFor(school: SchoolRecord | string, season: number): string | null {
+  const record = typeof school === "string" ? resolveSchool(school) : school;
+  if (!record) return null;
+  let conference: string | null = null;
+  for (const era of record.conferences) {
+    if (era.from > season) break;
+    conference = era.conference;
+  }
+  return conference;
+}
+
+/** Conferences with at least one registry school in `season`, alphabetically. */
+export function listConferences(season: number): string[] {
+  const names = new Set<string>();
+  for (const school of REGISTRY.schools) {
+    const conference = conferenceFor(school, season);
+    if (conference) names.add(conference);
+  }
+  return Array.from(names).sort((a, b) => a.localeCompare(b));
+}
+
+export function resolveConference(value: string, season: number): string | null {
+  const key = registryKey(value);
+  return listConferences(season).find((conference) => registryKey(conference) === key) ?? null;
+}
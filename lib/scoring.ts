@@ -1,27 +1,33 @@
 
-import type { Leader, SchoolAggregate } from "./types";
+import type { DefenseContributor, Leader, Performer, PerformerMeta, SchoolAggregate } from "./types";
+import type { TeamDefenseSource } from "./defense";
 import { normalizeTeamAbbreviation, type DefenseWeek } from "./nflverse";
 import { normalizeSchool as normalizeCollegeName } from "@/utils/schoolNames";
+import { resolveScoringRules, type ScoringFormat } from "./scoringRules";
+import { isUncertainMatch } from "./playerMatching";
+import { DEFAULT_IDP_SETTINGS, IDP_POSITIONS, idpPositionGroup, type DefenseMode, type IdpSettings } from "./idp";
+import { applyKickerPreference, fillLineup, resolveLineupTemplate, type LineupInput, type LineupTemplate } from "./lineups";
+import {
+  allocateCollegeCredit,
+  DEFAULT_COLLEGE_ALLOCATION,
+  lookupCollegeHistory,
+  type CollegeAllocationPolicy,
+} from "./collegeAllocation";
 
 type Mode = 'weekly' | 'avg';
-type DefenseMode = 'none' | 'approx';
+/** A leader seated in a lineup slot; the synthetic DEF row carries its contributors in `meta`. */
+type LineupEntry = Leader & { slot: string; meta?: PerformerMeta };
 
 const normalizePosition = (pos?: string): string => (pos ?? "").toString().trim().toUpperCase();
-function byPosition(players: Leader[], pos: string) {
-  const target = normalizePosition(pos);
-  return players.filter((player) => normalizePosition(player.position) === target);
-}
 function isDefPos(pos?: string) {
   const normalized = normalizePosition(pos);
   return ['LB', 'DB', 'DL', 'DE', 'DT', 'S', 'CB', 'OLB', 'ILB', 'EDGE', 'FS', 'SS', 'NT', 'MLB', 'NB', 'SAF', 'DEF'].includes(normalized);
 }
-function sortBy(points: Record<string, number>) { return (a: Leader, b: Leader) => (points[String(b.player_id)] ?? 0) - (points[String(a.player_id)] ?? 0); }
-function lineupForSchool(players: Leader[], selectorPoints: Record<string, number>, includeK: boolean) {
-  const qbs=byPosition(players,'QB').sort(sortBy(selectorPoints)), rbs=byPosition(players,'RB').sort(sortBy(selectorPoints)), wrs=byPosition(players,'WR').sort(sortBy(selectorPoints)), tes=byPosition(players,'TE').sort(sortBy(selectorPoints)), ks=byPosition(players,'K').sort(sortBy(selectorPoints));
-  const pick=(arr:Leader[], n:number)=>arr.slice(0, Math.max(0,n));
-  const chosen: Leader[] = []; chosen.push(...pick(qbs,1), ...pick(tes,1), ...pick(wrs,2), ...pick(rbs,2)); if (includeK) chosen.push(...pick(ks,1));
-  const chosenIds=new Set(chosen.map(p=>String(p.player_id))); const remWR=wrs.filter(p=>!chosenIds.has(String(p.player_id))), remRB=rbs.filter(p=>!chosenIds.has(String(p.player_id))), remTE=tes.filter(p=>!chosenIds.has(String(p.player_id)));
-  const flex=[...pick(remWR,1),...pick(remRB,1),...pick(remTE,1)].sort(sortBy(selectorPoints)); if (flex.length) chosen.push(flex[0]); return chosen;
+function lineupForSchool(players: Leader[], selectorPoints: Record<string, number>, shares: Map<string, number>, template: LineupTemplate) {
+  return fillLineup(template, players, (player) => {
+    const id = String(player.player_id);
+    return (selectorPoints[id] ?? 0) * (shares.get(id) ?? 1);
+  });
 }
 
 const cleanCollegeValue = (value: unknown): string => String(value ?? '').replace(/\s+/g, ' ').trim();
@@ -57,29 +63,54 @@ const sanitizeCollegeValue = (value: string): string => {
 };
 
 export async function aggregateByCollegeMode(
-  leaders: Leader[], week: number, format: string, mode: Mode, historicalAverages: Record<string, number> | undefined,
-  opts: { includeK: boolean; defense: DefenseMode; defenseData?: DefenseWeek } = { includeK: true, defense: 'none' }
+  leaders: Leader[], week: number, format: ScoringFormat, mode: Mode, historicalAverages: Record<string, number> | undefined,
+  opts: { includeK: boolean; defense: DefenseMode; defenseData?: DefenseWeek; lineup?: LineupInput; allocation?: CollegeAllocationPolicy; idp?: IdpSettings } = { includeK: true, defense: 'none' }
 ): Promise<SchoolAggregate[]> {
+  const allocation = opts.allocation ?? DEFAULT_COLLEGE_ALLOCATION;
+  const formatName = resolveScoringRules(format).name;
+  const baseTemplate = applyKickerPreference(resolveLineupTemplate(opts.lineup), opts.includeK);
+  const idpSettings = opts.defense === 'idp' ? (opts.idp ?? DEFAULT_IDP_SETTINGS) : null;
+  // IDP mode adds DL/LB/DB slots; defenders are listed under their slot group
+  const template = idpSettings
+    ? {
+        ...baseTemplate,
+        slots: [
+          ...baseTemplate.slots,
+          ...IDP_POSITIONS.filter((position) => idpSettings.slots[position] > 0).map((position) => ({
+            slot: position,
+            eligible: [position],
+            count: idpSettings.slots[position],
+          })),
+        ],
+      }
+    : baseTemplate;
   const thisWeekPoints: Record<string, number> = {}; for (const l of leaders) thisWeekPoints[String(l.player_id)] = l.points || 0;
   const selectorPoints = (mode==='avg' && historicalAverages) ? historicalAverages : thisWeekPoints;
 
-  // group by college
+  // group by college; shares[school][player] is the fraction of the player's points that school receives
   const groups = new Map<string, Leader[]>();
+  const shares = new Map<string, Map<string, number>>();
+  const allocationMeta: Record<string, { policy: CollegeAllocationPolicy; colleges: string[] }> = {};
   for (const leader of leaders) {
     const extracted = extractCollegeNames(leader.college).map(sanitizeCollegeValue);
     const colleges = extracted.filter((name, _idx, arr) => name !== 'Unknown' || arr.length === 1);
     const targets = colleges.length ? colleges : ['Unknown'];
-    for (const college of targets) {
+    const history = allocation === 'most-games' || allocation === 'fractional' ? lookupCollegeHistory(leader) : null;
+    allocationMeta[String(leader.player_id)] = { policy: allocation, colleges: targets };
+    for (const { college, share } of allocateCollegeCredit(targets, allocation, history)) {
       const normalized = normalizeCollegeName(college);
       const trimmed = college.trim();
       const targetName = normalized || (trimmed ? trimmed : "Unknown");
       if (!groups.has(targetName)) groups.set(targetName, []);
-      groups.get(targetName)!.push({ ...leader, college: targetName } as Leader);
+      if (!shares.has(targetName)) shares.set(targetName, new Map());
+      const position = idpSettings ? idpPositionGroup(leader.position) ?? leader.position : leader.position;
+      groups.get(targetName)!.push({ ...leader, position, college: targetName });
+      shares.get(targetName)!.set(String(leader.player_id), share);
     }
   }
 
   const defenseData = opts.defense === 'approx' ? (opts.defenseData ?? null) : null;
-  const teamDefense: Record<string, { dstPoints:number; totalSnaps:number; snapsById:Record<string,number> }> = {};
+  const teamDefense: Record<string, { dstPoints:number; totalSnaps:number; snapsById:Record<string,number>; source?: TeamDefenseSource }> = {};
   if (defenseData) {
     for (const entry of defenseData.teams) {
       const teamKey = normalizeTeamAbbreviation(entry.team);
@@ -87,41 +118,56 @@ export async function aggregateByCollegeMode(
       const total = entry.players.reduce((sum, player) => sum + (player.snaps || 0), 0);
       const map: Record<string, number> = {};
       for (const player of entry.players) map[String(player.player_id)] = player.snaps || 0;
-      teamDefense[teamKey] = { dstPoints: entry.dstPoints || 0, totalSnaps: total, snapsById: map };
+      teamDefense[teamKey] = { dstPoints: entry.dstPoints || 0, totalSnaps: total, snapsById: map, source: entry.provenance?.source };
     }
   }
 
   const results: SchoolAggregate[] = [];
   for (const [school, players] of groups) {
-    const chosen = lineupForSchool(players, selectorPoints, opts.includeK);
-    let total = chosen.reduce((s, p) => s + (thisWeekPoints[String(p.player_id)] ?? 0), 0);
+    const schoolShares = shares.get(school)!;
+    const creditedPoints = (id: string) => (thisWeekPoints[id] ?? 0) * (schoolShares.get(id) ?? 1);
+    const assignments = lineupForSchool(players, selectorPoints, schoolShares, template);
+    const chosen: LineupEntry[] = assignments.map(({ slot, player }) => ({ ...player, slot }));
+    let total = chosen.reduce((s, p) => s + creditedPoints(String(p.player_id)), 0);
 
     if (opts.defense==='approx' && defenseData) {
       const defs = players.filter(p => isDefPos(p.position));
-      const credits: { player: Leader; credit: number }[] = [];
+      const credits: { player: Leader; credit: number; source?: TeamDefenseSource }[] = [];
       for (const p of defs) {
         const team = normalizeTeamAbbreviation(p.team);
         if (!team) continue;
         const t = teamDefense[team]; if (!t || t.totalSnaps<=0) continue;
-        const snaps=t.snapsById[String(p.player_id)] ?? 0; const share=snaps/t.totalSnaps; const credit=t.dstPoints*share; if (credit>0) credits.push({ player: p, credit });
+        const snaps=t.snapsById[String(p.player_id)] ?? 0; const share=snaps/t.totalSnaps; const credit=t.dstPoints*share*(schoolShares.get(String(p.player_id)) ?? 1); if (credit>0) credits.push({ player: p, credit, source: t.source });
       }
       credits.sort((a,b)=>b.credit-a.credit); const top11=credits.slice(0,11); const defPoints = Number(top11.reduce((s,c)=>s+c.credit,0).toFixed(2));
       total += defPoints;
       // Add display-only DEF row with contributor list
-      // @ts-ignore
-      chosen.push({ player_id:`DEF-${school}-${week}`, full_name:'Defense', position:'DEF', team: undefined, points: defPoints as any, meta: { contributors: top11.map(x=>({ label: (x.player as any)?.full_name || `ID ${(x.player as any)?.player_id ?? ''}`, points: Number(x.credit.toFixed(2)) })) } } as any);
+      const contributors: DefenseContributor[] = top11.map(x=>({ label: x.player.full_name || `ID ${x.player.player_id ?? ''}`, points: Number(x.credit.toFixed(2)), source: x.source }));
+      chosen.push({ player_id:`DEF-${school}-${week}`, full_name:'Defense', position:'DEF', slot:'DEF', team: undefined, points: defPoints, meta: { contributors } });
     }
 
     results.push({
-      school, week, format, totalPoints: Number(total.toFixed(2)),
-      performers: chosen.map(p => ({
-        name: (p as any).full_name,
-        position: (p as any).position,
-        team: (p as any).team,
-        points: thisWeekPoints[String((p as any).player_id)] ?? (p as any).points,
-        college: (p as Leader).college,
-        meta: (p as any).meta
-      }))
+      school, week, format: formatName, totalPoints: Number(total.toFixed(2)),
+      performers: chosen.map((p): Performer => {
+        const id = String(p.player_id);
+        const allocated = allocationMeta[id];
+        return {
+          name: p.full_name,
+          position: p.position,
+          team: p.team,
+          slot: p.slot,
+          points: id in thisWeekPoints ? Number(creditedPoints(id).toFixed(2)) : p.points,
+          college: p.college,
+          meta: allocated
+            ? {
+                ...p.meta,
+                allocation: { ...allocated, share: Number((schoolShares.get(id) ?? 1).toFixed(4)) },
+                // flag attributions that rest on a name-only or fuzzy players-master match
+                ...(isUncertainMatch(p.match) ? { match: p.match } : {}),
+              }
+            : p.meta
+        };
+      })
     });
   }
   results.sort((a,b)=>b.totalPoints - a.totalPoints); return results;
@@ -0,0 +1,345 @@
+import { HttpError, parseStringParam } from "./api";
+
+export const SCORING_STATS = [
+  "passing_yards",
+  "passing_tds",
+  "interceptions",
+  "passing_first_downs",
+  "rushing_yards",
+  "rushing_tds",
+  "rushing_first_downs",
+  "receptions",
+  "receiving_yards",
+  "receiving_tds",
+  "receiving_first_downs",
+  "fumbles_lost",
+  "field_goals_made",
+  "extra_points_made",
+  "passing_2pt_conversions",
+  "rushing_2pt_conversions",
+  "receiving_2pt_conversions",
+  "return_tds",
+  "field_goals_missed",
+  "extra_points_missed",
+  "field_goals_made_0_19",
+  "field_goals_made_20_29",
+  "field_goals_made_30_39",
+  "field_goals_made_40_49",
+  "field_goals_made_50_59",
+  "field_goals_made_60_plus",
+  "passing_tds_40_plus",
+  "rushing_tds_40_plus",
+  "receiving_tds_40_plus",
+  "red_zone_touches",
+] as const;
+
+export type ScoringStat = (typeof SCORING_STATS)[number];
+
+/**
+ * Stats the weekly aggregates do not carry. Rules that weigh them (or set a
+ * bonus on them) make scoring join counts derived from the play-by-play feed.
+ */
+export const PLAY_BY_PLAY_STATS = [
+  "passing_tds_40_plus",
+  "rushing_tds_40_plus",
+  "receiving_tds_40_plus",
+  "red_zone_touches",
+] as const satisfies readonly ScoringStat[];
+
+export type PlayByPlayStat = (typeof PLAY_BY_PLAY_STATS)[number];
+
+export type ScoringStatLine = Partial<Record<ScoringStat, number>> & { position?: string };
+
+export type StatWeights = Partial<Record<ScoringStat, number>>;
+
+export type YardageBonus = {
+  stat: ScoringStat;
+  threshold: number;
+  points: number;
+};
+
+export type ScoringRules = {
+  name: string;
+  description?: string;
+  weights: StatWeights;
+  bonuses: YardageBonus[];
+  positionWeights: Record<string, StatWeights>;
+};
+
+export type ScoringFormat = string | ScoringRules;
+
+export class ScoringRulesError extends HttpError {
+  code = "INVALID_SCORING_RULES" as const;
+
+  constructor(message: string) {
+    super(400, message, { code: "INVALID_SCORING_RULES" });
+    this.name = "ScoringRulesError";
+  }
+}
+
+const STANDARD_WEIGHTS: StatWeights = {
+  passing_yards: 1 / 25,
+  passing_tds: 4,
+  interceptions: -2,
+  rushing_yards: 1 / 10,
+  rushing_tds: 6,
+  receptions: 0,
+  receiving_yards: 1 / 10,
+  receiving_tds: 6,
+  fumbles_lost: -2,
+  field_goals_made: 3,
+  extra_points_made: 1,
+};
+
+const preset = (
+  name: string,
+  description: string,
+  overrides: Partial<Omit<ScoringRules, "name" | "description">> = {},
+): ScoringRules => ({
+  name,
+  description,
+  weights: { ...STANDARD_WEIGHTS, ...(overrides.weights ?? {}) },
+  bonuses: overrides.bonuses ?? [],
+  positionWeights: overrides.positionWeights ?? {},
+});
+
+export const SCORING_PRESETS: Record<string, ScoringRules> = {
+  standard: preset("standard", "No points per reception, 4-pt passing TDs"),
+  "half-ppr": preset("half-ppr", "0.5 points per reception", { weights: { receptions: 0.5 } }),
+  ppr: preset("ppr", "1 point per reception", { weights: { receptions: 1 } }),
+  "ppr-6pt-pass": preset("ppr-6pt-pass", "PPR with 6-pt passing TDs", {
+    weights: { receptions: 1, passing_tds: 6 },
+  }),
+  "te-premium": preset("te-premium", "PPR with an extra 0.5 per tight end reception", {
+    weights: { receptions: 1 },
+    positionWeights: { TE: { receptions: 0.5 } },
+  }),
+  "half-ppr-first-downs": preset("half-ppr-first-downs", "Half-PPR plus 0.5 per rushing/receiving first down", {
+    weights: { receptions: 0.5, rushing_first_downs: 0.5, receiving_first_downs: 0.5 },
+  }),
+  "ppr-extras": preset("ppr-extras", "PPR plus 2-pt conversions (2) and kick/punt return TDs (6)", {
+    weights: {
+      receptions: 1,
+      passing_2pt_conversions: 2,
+      rushing_2pt_conversions: 2,
+      receiving_2pt_conversions: 2,
+      return_tds: 6,
+    },
+  }),
+  "ppr-bonus": preset("ppr-bonus", "PPR with 300-yard passing and 100-yard rushing/receiving bonuses", {
+    weights: { receptions: 1 },
+    bonuses: [
+      { stat: "passing_yards", threshold: 300, points: 3 },
+      { stat: "rushing_yards", threshold: 100, points: 3 },
+      { stat: "receiving_yards", threshold: 100, points: 3 },
+    ],
+  }),
+};
+
+export const SCORING_PRESET_NAMES = Object.keys(SCORING_PRESETS);
+
+export const DEFAULT_SCORING_FORMAT = "ppr";
+
+const CUSTOM_RULES_NAME = "custom";
+const MAX_BONUSES = 20;
+
+const isScoringStat = (value: string): value is ScoringStat =>
+  (SCORING_STATS as readonly string[]).includes(value);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const validateWeights = (value: unknown, path: string): StatWeights => {
+  if (value === undefined) return {};
+  if (!isPlainObject(value)) {
+    throw new ScoringRulesError(`${path} must be an object of stat weights`);
+  }
+  const weights: StatWeights = {};
+  for (const [stat, weight] of Object.entries(value)) {
+    if (!isScoringStat(stat)) {
+      throw new ScoringRulesError(`${path}.${stat} is not a supported stat. Allowed: ${SCORING_STATS.join(", ")}`);
+    }
+    if (typeof weight !== "number" || !Number.isFinite(weight)) {
+      throw new ScoringRulesError(`${path}.${stat} must be a finite number`);
+    }
+    weights[stat] = weight;
+  }
+  return weights;
+};
+
+const validateBonuses = (value: unknown, path: string): YardageBonus[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    throw new ScoringRulesError(`${path} must be an array`);
+  }
+  if (value.length > MAX_BONUSES) {
+    throw new ScoringRulesError(`${path} must contain at most ${MAX_BONUSES} entries`);
+  }
+  return value.map((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    if (!isPlainObject(entry)) {
+      throw new ScoringRulesError(`${entryPath} must be an object`);
+    }
+    const { stat, threshold, points } = entry;
+    if (typeof stat !== "string" || !isScoringStat(stat)) {
+      throw new ScoringRulesError(`${entryPath}.stat must be one of: ${SCORING_STATS.join(", ")}`);
+    }
+    if (typeof threshold !== "number" || !Number.isFinite(threshold) || threshold <= 0) {
+      throw new ScoringRulesError(`${entryPath}.threshold must be a positive number`);
+    }
+    if (typeof points !== "number" || !Number.isFinite(points)) {
+      throw new ScoringRulesError(`${entryPath}.points must be a finite number`);
+    }
+    return { stat, threshold, points };
+  });
+};
+
+const validatePositionWeights = (value: unknown, path: string): Record<string, StatWeights> | undefined => {
+  if (value === undefined) return undefined;
+  if (!isPlainObject(value)) {
+    throw new ScoringRulesError(`${path} must be an object keyed by position`);
+  }
+  const result: Record<string, StatWeights> = {};
+  for (const [position, weights] of Object.entries(value)) {
+    const key = position.trim().toUpperCase();
+    if (!key) continue;
+    result[key] = validateWeights(weights, `${path}.${position}`);
+  }
+  return result;
+};
+
+const findPreset = (name: string): ScoringRules | undefined => SCORING_PRESETS[name.trim().toLowerCase()];
+
+const unknownFormatError = (name: string) =>
+  new ScoringRulesError(`Unknown scoring format "${name}". format must be one of: ${SCORING_PRESET_NAMES.join(", ")}`);
+
+/**
+ * Builds a rule set from a JSON-like definition. `base` names the preset the
+ * definition starts from; `weights` and `positionWeights` are merged on top of
+ * it while `bonuses` replaces the preset list when provided.
+ */
+export function buildCustomScoringRules(definition: unknown): ScoringRules {
+  if (!isPlainObject(definition)) {
+    throw new ScoringRulesError("rules must be a JSON object");
+  }
+  const baseName = definition.base === undefined ? DEFAULT_SCORING_FORMAT : definition.base;
+  if (typeof baseName !== "string") {
+    throw new ScoringRulesError("rules.base must be a preset name");
+  }
+  const base = findPreset(baseName);
+  if (!base) throw unknownFormatError(baseName);
+  const weights = validateWeights(definition.weights, "rules.weights");
+  const bonuses = validateBonuses(definition.bonuses, "rules.bonuses");
+  const positionWeights = validatePositionWeights(definition.positionWeights, "rules.positionWeights");
+  const mergedPositions: Record<string, StatWeights> = { ...base.positionWeights };
+  for (const [position, extra] of Object.entries(positionWeights ?? {})) {
+    mergedPositions[position] = { ...(mergedPositions[position] ?? {}), ...extra };
+  }
+  return {
+    name: CUSTOM_RULES_NAME,
+    description: `Custom rules based on ${base.name}`,
+    weights: { ...base.weights, ...weights },
+    bonuses: bonuses ?? base.bonuses,
+    positionWeights: mergedPositions,
+  };
+}
+
+export function resolveScoringRules(format: ScoringFormat | undefined | null): ScoringRules {
+  if (format === undefined || format === null) return SCORING_PRESETS[DEFAULT_SCORING_FORMAT];
+  if (typeof format !== "string") return format;
+  const normalized = format.trim().toLowerCase();
+  if (!normalized) return SCORING_PRESETS[DEFAULT_SCORING_FORMAT];
+  const match = findPreset(normalized);
+  if (!match) throw unknownFormatError(format);
+  return match;
+}
+
+const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i += 1) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/** Stable identifier for a rule set, suitable for cache keys. */
+export function scoringRulesKey(rules: ScoringRules): string {
+  const preset = SCORING_PRESETS[rules.name];
+  if (preset === rules) return rules.name;
+  const signature = JSON.stringify({
+    weights: Object.entries(rules.weights).sort(([a], [b]) => a.localeCompare(b)),
+    bonuses: rules.bonuses,
+    positionWeights: Object.entries(rules.positionWeights)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([position, weights]) => [position, Object.entries(weights).sort(([a], [b]) => a.localeCompare(b))]),
+  });
+  return `${rules.name}-${hashString(signature)}`;
+}
+
+const isPlayByPlayStat = (stat: ScoringStat) => (PLAY_BY_PLAY_STATS as readonly string[]).includes(stat);
+
+const weighsPlayByPlay = (weights: StatWeights) =>
+  Object.entries(weights).some(([stat, weight]) => weight && isPlayByPlayStat(stat as ScoringStat));
+
+/** Whether scoring with `rules` needs the play-by-play join. */
+export function rulesUsePlayByPlay(rules: ScoringRules): boolean {
+  return (
+    weighsPlayByPlay(rules.weights) ||
+    Object.values(rules.positionWeights).some(weighsPlayByPlay) ||
+    rules.bonuses.some((bonus) => isPlayByPlayStat(bonus.stat))
+  );
+}
+
+const applyWeights = (stat: ScoringStatLine, weights: StatWeights): number => {
+  let total = 0;
+  for (const [key, weight] of Object.entries(weights) as [ScoringStat, number][]) {
+    if (!weight) continue;
+    const value = stat[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) continue;
+    total += value * weight;
+  }
+  return total;
+};
+
+export function scoreStatLine(stat: ScoringStatLine, format: ScoringFormat, position?: string): number {
+  const rules = resolveScoringRules(format);
+  let total = applyWeights(stat, rules.weights);
+  const positionKey = (position ?? stat.position ?? "").toString().trim().toUpperCase();
+  const positionWeights = positionKey ? rules.positionWeights[positionKey] : undefined;
+  if (positionWeights) total += applyWeights(stat, positionWeights);
+  for (const bonus of rules.bonuses) {
+    const value = stat[bonus.stat];
+    if (typeof value === "number" && value >= bonus.threshold) total += bonus.points;
+  }
+  return Number(total.toFixed(2));
+}
+
+const MAX_RULES_PARAM_LENGTH = 4000;
+
+/**
+ * Reads `format` (preset name) and the optional `rules` JSON definition from a
+ * request URL. Unknown presets and malformed rule sets raise a 400.
+ */
+export function parseScoringParams(
+  url: URL,
+  fallback: string = DEFAULT_SCORING_FORMAT,
+): { format: string; rules: ScoringRules } {
+  const format = parseStringParam(url, "format", fallback, { maxLength: 32, toLowerCase: true });
+  const rulesParam = parseStringParam(url, "rules", "", { maxLength: MAX_RULES_PARAM_LENGTH });
+  if (!rulesParam) {
+    const rules = resolveScoringRules(format);
+    return { format: rules.name, rules };
+  }
+  let definition: unknown;
+  try {
+    definition = JSON.parse(rulesParam);
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    throw new ScoringRulesError(`rules must be valid JSON: ${err.message}`);
+  }
+  if (isPlainObject(definition) && definition.base === undefined && format !== CUSTOM_RULES_NAME) {
+    definition = { ...definition, base: format };
+  }
+  const rules = buildCustomScoringRules(definition);
+  return { format: rules.name, rules };
+}
@@ -0,0 +1,225 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { DEFAULT_COLLEGE_ALLOCATION, type CollegeAllocationPolicy } from "./collegeAllocation";
+import { loadCollegeOverrideIndex } from "./collegeOverrides";
+import { DEFAULT_IDP_SETTINGS, idpSettingsKey, type DefenseMode, type IdpSettings } from "./idp";
+import { kvConfigured, kvGet, kvSet } from "./kv";
+import { resolveLineupTemplate, type LineupInput } from "./lineups";
+import {
+  computeHistoricalAverages,
+  loadPlayerStatsRevisions,
+  loadWeek,
+  playByPlaySourceKey,
+  teamDefenseSourceKey,
+  type LoadWeekResult,
+} from "./nflverse";
+import { aggregateByCollegeMode } from "./scoring";
+import { resolveScoringRules, rulesUsePlayByPlay, scoringRulesKey, type ScoringFormat } from "./scoringRules";
+import { averagingWindowKey, DEFAULT_AVERAGING_WINDOW, type AveragingWindow } from "./seasonAverages";
+import { hashContent } from "./statRevisions";
+import type { SchoolAggregate } from "./types";
+
+/**
+ * Every school's weekly `SchoolAggregate` for one season and scoring setup,
+ * computed once per week and shared by the scores, school and summary views.
+ * Entries live in memory, on disk and (when configured) in KV, and are tagged
+ * with the nflverse stat revisions they were built from so a stat correction
+ * re-scores only the affected weeks.
+ */
+
+export type SeasonAggregateOptions = {
+  season: number;
+  format: ScoringFormat;
+  mode: "weekly" | "avg";
+  includeK: boolean;
+  defense: DefenseMode;
+  lineup?: LineupInput;
+  averaging?: AveragingWindow;
+  allocation?: CollegeAllocationPolicy;
+  /** Slots and weights for `defense: "idp"`. */
+  idp?: IdpSettings;
+};
+
+export type SeasonAggregateWeek = {
+  week: number;
+  /**
+   * Stat revisions the rows were computed from (the week itself, or every
+   * week up to it in avg mode), the college-override version, the
+   * play-by-play asset for rules that use it and, for `defense: "approx"`,
+   * the week's team defense source.
+   */
+  statsKey: string;
+  revision?: number;
+  seasonLoaded: number;
+  playerStatsSource?: LoadWeekResult["playerStatsSource"];
+  computedAt: number;
+  rows: SchoolAggregate[];
+};
+
+const KV_TTL_SECONDS = 60 * 60 * 24 * 30;
+const MAX_MEMORY_ENTRIES = 256;
+
+const aggregatesDir = () =>
+  process.env.SEASON_AGGREGATES_DIR?.trim() ||
+  path.join(process.env.NFLVERSE_CACHE_DIR?.trim() || path.join(os.tmpdir(), "next-cache", "nflverse"), "aggregates");
+
+const memory = new Map<string, SeasonAggregateWeek>();
+const inflight = new Map<string, Promise<SeasonAggregateWeek>>();
+
+/** Stable id for everything except season and week that changes the computed rows. */
+export function seasonAggregateKey(options: SeasonAggregateOptions): string {
+  const rules = resolveScoringRules(options.format);
+  const signature = JSON.stringify({
+    rules: scoringRulesKey(rules),
+    mode: options.mode,
+    includeK: options.includeK,
+    defense: options.defense,
+    lineup: resolveLineupTemplate(options.lineup),
+    averaging: options.mode === "avg" ? averagingWindowKey(options.averaging ?? DEFAULT_AVERAGING_WINDOW) : undefined,
+    allocation: options.allocation ?? DEFAULT_COLLEGE_ALLOCATION,
+    idp: options.defense === "idp" ? idpSettingsKey(options.idp) : undefined,
+  });
+  return `${rules.name}-${options.mode}-${hashContent(signature).slice(0, 16)}`;
+}
+
+const entryKey = (season: number, key: string, week: number) => `agg:${season}:${key}:${week}`;
+
+const weekFile = (season: number, key: string, week: number) =>
+  path.join(aggregatesDir(), String(season), key, `week-${week}.json`);
+
+const remember = (id: string, entry: SeasonAggregateWeek) => {
+  memory.delete(id);
+  memory.set(id, entry);
+  if (memory.size > MAX_MEMORY_ENTRIES) memory.delete(memory.keys().next().value as string);
+};
+
+const readPersisted = async (season: number, key: string, week: number): Promise<SeasonAggregateWeek | null> => {
+  try {
+    return JSON.parse(await fs.readFile(weekFile(season, key, week), "utf-8")) as SeasonAggregateWeek;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") {
+      // eslint-disable-next-line no-console
+      console.warn("[seasonAggregates] Ignoring unreadable cache file", { season, key, week, error });
+    }
+  }
+  return kvConfigured ? kvGet<SeasonAggregateWeek>(entryKey(season, key, week)) : null;
+};
+
+const persist = async (season: number, key: string, entry: SeasonAggregateWeek) => {
+  const file = weekFile(season, key, entry.week);
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(entry), "utf-8");
+    await fs.rename(tmp, file);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn("[seasonAggregates] Failed to write cache file", { file, error });
+  }
+  if (kvConfigured) await kvSet(entryKey(season, key, entry.week), entry, KV_TTL_SECONDS);
+};
+
+const statsKeyFor = (
+  mode: SeasonAggregateOptions["mode"],
+  week: number,
+  source: Awaited<ReturnType<typeof loadPlayerStatsRevisions>>,
+) => {
+  const weeks = mode === "avg" ? Array.from({ length: week }, (_, index) => index + 1) : [week];
+  const parts = weeks.map((w) => source.revisions.get(w) ?? 0);
+  // Without recorded revisions fall back to the asset hash, which changes on any correction.
+  if (parts.every((part) => part === 0)) return `${source.seasonLoaded}:${source.contentHash ?? "unknown"}`;
+  return `${source.seasonLoaded}:r${parts.join(".")}`;
+};
+
+const computeWeek = async (
+  options: SeasonAggregateOptions,
+  week: number,
+  statsKey: string,
+): Promise<SeasonAggregateWeek> => {
+  const rules = resolveScoringRules(options.format);
+  const includeDefense = options.defense === "approx";
+  const idp = options.defense === "idp" ? options.idp ?? DEFAULT_IDP_SETTINGS : undefined;
+  const averagesPromise: Promise<Record<string, number> | undefined> =
+    options.mode === "avg" && week > 1
+      ? computeHistoricalAverages(options.season, week, rules, options.averaging, idp?.weights)
+      : Promise.resolve(undefined);
+  const [{ leaders, defenseData, playerStatsSource, revision }, averages] = await Promise.all([
+    loadWeek({ season: options.season, week, format: rules, includeDefense, idp: idp?.weights }),
+    averagesPromise,
+  ]);
+  const rows = await aggregateByCollegeMode(leaders, week, rules, options.mode, averages, {
+    includeK: options.includeK,
+    defense: options.defense,
+    defenseData,
+    lineup: options.lineup,
+    allocation: options.allocation,
+    idp,
+  });
+  return {
+    week,
+    statsKey,
+    revision,
+    seasonLoaded: playerStatsSource?.seasonLoaded ?? options.season,
+    playerStatsSource,
+    computedAt: Date.now(),
+    rows,
+  };
+};
+
+/**
+ * Aggregates for one week, reused while the underlying stat revisions are
+ * unchanged. Missing nflverse assets surface as `NflverseAssetMissingError`
+ * exactly as `loadWeek` would throw them.
+ */
+export async function loadWeekAggregates(options: SeasonAggregateOptions, week: number): Promise<SeasonAggregateWeek> {
+  const key = seasonAggregateKey(options);
+  const id = entryKey(options.season, key, week);
+  const [source, overrides, defenseSource] = await Promise.all([
+    loadPlayerStatsRevisions(options.season),
+    loadCollegeOverrideIndex(),
+    options.defense === "approx" ? teamDefenseSourceKey(options.season, week) : undefined,
+  ]);
+  // College overrides change which school a player counts for, so they invalidate like a stat correction.
+  let statsKey = `${statsKeyFor(options.mode, week, source)}:o${overrides.version}`;
+  // DST points switch from the approximation to stats_team once nflverse publishes the week.
+  if (defenseSource) statsKey += `:d${defenseSource}`;
+  // Play-by-play is published separately from the weekly stats; it loads after them to join the same season.
+  if (rulesUsePlayByPlay(resolveScoringRules(options.format))) {
+    statsKey += `:p${await playByPlaySourceKey(options.season)}`;
+  }
+
+  const cached = memory.get(id);
+  if (cached?.statsKey === statsKey) return cached;
+
+  const pending = inflight.get(id);
+  if (pending) return pending;
+
+  const promise = (async () => {
+    const persisted = await readPersisted(options.season, key, week);
+    if (persisted?.statsKey === statsKey) {
+      remember(id, persisted);
+      return persisted;
+    }
+    const entry = await computeWeek(options, week, statsKey);
+    remember(id, entry);
+    await persist(options.season, key, entry);
+    return entry;
+  })().finally(() => {
+    inflight.delete(id);
+  });
+  inflight.set(id, promise);
+  return promise;
+}
+
+export async function loadSeasonAggregates(
+  options: SeasonAggregateOptions,
+  weeks: number[],
+): Promise<SeasonAggregateWeek[]> {
+  return Promise.all(weeks.map((week) => loadWeekAggregates(options, week)));
+}
+
+/** Drops in-memory entries (tests). */
+export function clearSeasonAggregateMemory() {
+  memory.clear();
+}
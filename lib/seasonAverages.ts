@@ -0,0 +1,149 @@
+import { HttpError, parseStringParam } from "./api";
+
+/**
+ * Season-to-date averages for avg (manager) mode. A season's weekly stats are
+ * folded once into a cumulative table per scoring format; averages "as of"
+ * any week are then read from running totals instead of re-scoring every
+ * earlier week.
+ */
+
+export type AveragingWindow =
+  | { type: "season" }
+  | { type: "last"; weeks: number }
+  | { type: "ewma"; alpha: number }
+  | { type: "median" };
+
+export const DEFAULT_AVERAGING_WINDOW: AveragingWindow = { type: "season" };
+
+const DEFAULT_EWMA_ALPHA = 0.5;
+const MAX_LAST_WEEKS = 18;
+
+export class AveragingWindowError extends HttpError {
+  code = "INVALID_AVERAGING_WINDOW" as const;
+
+  constructor(message: string) {
+    super(400, message, { code: "INVALID_AVERAGING_WINDOW" });
+    this.name = "AveragingWindowError";
+  }
+}
+
+/** Accepts `season`, `last-N` (1–18 weeks), `ewma` / `ewma-ALPHA` (0 < alpha ≤ 1), or `median`. */
+export function parseAveragingWindow(value: string): AveragingWindow {
+  const raw = value.trim().toLowerCase();
+  if (!raw || raw === "season") return DEFAULT_AVERAGING_WINDOW;
+  if (raw === "median") return { type: "median" };
+  if (raw === "ewma") return { type: "ewma", alpha: DEFAULT_EWMA_ALPHA };
+  const last = raw.match(/^last-?(\d+)$/);
+  if (last) {
+    const weeks = Number(last[1]);
+    if (weeks < 1 || weeks > MAX_LAST_WEEKS) {
+      throw new AveragingWindowError(`avgWindow last-N must use between 1 and ${MAX_LAST_WEEKS} weeks`);
+    }
+    return { type: "last", weeks };
+  }
+  const ewma = raw.match(/^ewma-(\d*\.?\d+)$/);
+  if (ewma) {
+    const alpha = Number(ewma[1]);
+    if (!(alpha > 0 && alpha <= 1)) throw new AveragingWindowError("avgWindow ewma alpha must be in (0, 1]");
+    return { type: "ewma", alpha };
+  }
+  throw new AveragingWindowError("avgWindow must be season, last-N, ewma, ewma-ALPHA, or median");
+}
+
+export function averagingWindowKey(window: AveragingWindow): string {
+  switch (window.type) {
+    case "last":
+      return `last-${window.weeks}`;
+    case "ewma":
+      return `ewma-${window.alpha}`;
+    default:
+      return window.type;
+  }
+}
+
+export const parseAveragingParam = (url: URL, key = "avgWindow"): AveragingWindow =>
+  parseAveragingWindow(parseStringParam(url, key, "season", { maxLength: 16, toLowerCase: true }));
+
+type PlayerHistory = {
+  /** Weeks with a stat row, ascending. */
+  weeks: number[];
+  points: number[];
+  /** `totals[i]` is the sum of the first `i` games, so counts are implicit. */
+  totals: number[];
+};
+
+export type CumulativeTable = {
+  players: Map<string, PlayerHistory>;
+};
+
+export function buildCumulativeTable<T extends { player_id: string }>(
+  weeks: Map<number, T[]>,
+  score: (stat: T) => number,
+): CumulativeTable {
+  const players = new Map<string, PlayerHistory>();
+  for (const week of Array.from(weeks.keys()).sort((a, b) => a - b)) {
+    for (const stat of weeks.get(week) ?? []) {
+      let history = players.get(stat.player_id);
+      if (!history) {
+        history = { weeks: [], points: [], totals: [0] };
+        players.set(stat.player_id, history);
+      }
+      const points = score(stat);
+      history.weeks.push(week);
+      history.points.push(points);
+      history.totals.push(history.totals[history.totals.length - 1] + points);
+    }
+  }
+  return { players };
+}
+
+/** Index of the first game played in `week` or later. */
+const gamesBefore = (weeks: number[], week: number) => {
+  let lo = 0;
+  let hi = weeks.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (weeks[mid] < week) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+const windowAverage = (history: PlayerHistory, week: number, window: AveragingWindow): number | null => {
+  const end = gamesBefore(history.weeks, week);
+  if (end === 0) return null;
+  switch (window.type) {
+    case "season":
+      return history.totals[end] / end;
+    case "last": {
+      const start = gamesBefore(history.weeks, week - window.weeks);
+      if (start === end) return null;
+      return (history.totals[end] - history.totals[start]) / (end - start);
+    }
+    case "ewma": {
+      let value = history.points[0];
+      for (let i = 1; i < end; i += 1) value = window.alpha * history.points[i] + (1 - window.alpha) * value;
+      return value;
+    }
+    case "median": {
+      const sorted = history.points.slice(0, end).sort((a, b) => a - b);
+      const mid = end >> 1;
+      return end % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+  }
+};
+
+/** Per-player averages over games before `week`, rounded to two decimals. */
+export function averagesAsOf(
+  table: CumulativeTable,
+  week: number,
+  window: AveragingWindow = DEFAULT_AVERAGING_WINDOW,
+): Record<string, number> {
+  const averages: Record<string, number> = {};
+  if (week <= 1) return averages;
+  for (const [playerId, history] of table.players) {
+    const value = windowAverage(history, week, window);
+    if (value !== null) averages[playerId] = Number(value.toFixed(2));
+  }
+  return averages;
+}
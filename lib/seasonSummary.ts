@@ -1,15 +1,26 @@
-import { getCfbSeasonSlate } from "@/utils/cfbd";
+import { getCfbSeasonSlate } from "@/utils/cfbScheduleProvider";
+import { regularSeasonWeeksForSeason } from "@/utils/nflWeek";
 import { normalizeSchool } from "@/utils/schoolNames";
-import { aggregateByCollegeMode } from "./scoring";
-import { computeHistoricalAverages, loadWeek, NflverseAssetMissingError } from "./nflverse";
-import { computeStandings, loadRecords } from "./league";
+import { DEFAULT_IDP_SETTINGS, type DefenseMode, type IdpSettings } from "./idp";
+import { NflverseAssetMissingError } from "./nflverse";
+import { computeStandings, loadRecords, winPercentage, type RecordSplit } from "./league";
+import { resolveSchool } from "./schoolRegistry";
+import { resolveScoringRules, type ScoringFormat } from "./scoringRules";
+import { loadWeekAggregates } from "./seasonAggregates";
+import type { AveragingWindow } from "./seasonAverages";
 
 export type SeasonSummaryOptions = {
   season: number;
-  format: string;
+  format: ScoringFormat;
   includeK?: boolean;
-  defense?: "none" | "approx";
+  defense?: DefenseMode;
+  /** Slots and weights for `defense: "idp"`. */
+  idp?: IdpSettings;
   maxWeeks?: number;
+  /** Count playoff weeks (Wild Card through Super Bowl) in the totals; defaults to true. */
+  includePostseason?: boolean;
+  /** Window for the manager (avg-mode) totals; defaults to the full season to date. */
+  averaging?: AveragingWindow;
 };
 
 type PlayerContribution = {
@@ -35,26 +46,65 @@ export type SeasonSummaryRow = {
   record?: string;
 };
 
+/** Weekly-mode `totalPoints` for every school that fielded a lineup in a completed week. */
+export type SeasonSummaryWeek = {
+  week: number;
+  totals: Array<{ school: string; points: number }>;
+};
+
 export type SeasonSummary = {
   season: number;
   format: string;
   includeK: boolean;
-  defense: "none" | "approx";
+  defense: DefenseMode;
+  idp?: IdpSettings;
+  includePostseason: boolean;
   lastCompletedWeek: number;
   rows: SeasonSummaryRow[];
+  weeks: SeasonSummaryWeek[];
+};
+
+export type AllPlayRow = {
+  school: string;
+  weeks: number;
+  pointsFor: number;
+  /** Record against every other school, every week. */
+  allPlay: RecordSplit;
+  allPlayPct: number;
+  /** One result per week against that week's median score. */
+  median: RecordSplit;
+  /** Average of the all-play and median win percentages. */
+  combinedPct: number;
+};
+
+export type AllPlayStandings = {
+  season: number;
+  format: string;
+  includeK: boolean;
+  defense: DefenseMode;
+  idp?: IdpSettings;
+  includePostseason: boolean;
+  lastCompletedWeek: number;
+  medians: Array<{ week: number; median: number }>;
+  rows: AllPlayRow[];
 };
 
 const DEFAULT_MAX_WEEKS = 30;
 
 export async function loadSeasonSummary(options: SeasonSummaryOptions): Promise<SeasonSummary> {
   const season = options.season;
-  const format = options.format;
+  const rules = resolveScoringRules(options.format);
+  const format = rules.name;
   const includeK = options.includeK ?? true;
   const defense = options.defense ?? "approx";
-  const maxWeeks = options.maxWeeks ?? DEFAULT_MAX_WEEKS;
-  const includeDefense = defense === "approx";
+  const idp = defense === "idp" ? options.idp ?? DEFAULT_IDP_SETTINGS : undefined;
+  const includePostseason = options.includePostseason ?? true;
+  const maxWeeks = includePostseason
+    ? options.maxWeeks ?? DEFAULT_MAX_WEEKS
+    : Math.min(options.maxWeeks ?? DEFAULT_MAX_WEEKS, regularSeasonWeeksForSeason(season));
 
   const schools = new Map<string, MutableSchoolRow>();
+  const weeks: SeasonSummaryWeek[] = [];
   let lastCompletedWeek = 0;
   let lastWeekTotals = new Map<string, number>();
   type RecordCounter = { wins: number; losses: number; ties: number };
@@ -143,9 +193,10 @@ export async function loadSeasonSummary(options: SeasonSummaryOptions): Promise<
   };
 
   for (let week = 1; week <= maxWeeks; week += 1) {
-    let weekResult;
+    const aggregateOptions = { season, format: rules, includeK, defense, idp, averaging: options.averaging };
+    let weeklyRows;
     try {
-      weekResult = await loadWeek({ season, week, format, includeDefense });
+      weeklyRows = (await loadWeekAggregates({ ...aggregateOptions, mode: "weekly" }, week)).rows;
     } catch (error) {
       if (error instanceof NflverseAssetMissingError) {
         break;
@@ -153,28 +204,15 @@ export async function loadSeasonSummary(options: SeasonSummaryOptions): Promise<
       throw error;
     }
 
-    const { leaders, defenseData } = weekResult;
-    if (!leaders.length) {
-      break;
-    }
-
-    const weeklyRows = await aggregateByCollegeMode(leaders, week, format, "weekly", undefined, {
-      includeK,
-      defense,
-      defenseData,
-    });
-
     if (!weeklyRows.length) {
       break;
     }
-
-    const averages = week > 1 ? await computeHistoricalAverages(season, week, format) : undefined;
-    const managerRows = await aggregateByCollegeMode(leaders, week, format, "avg", averages, {
-      includeK,
-      defense,
-      defenseData,
+    weeks.push({
+      week,
+      totals: weeklyRows.map((row) => ({ school: row.school, points: Number(row.totalPoints.toFixed(2)) })),
     });
 
+    const managerRows = (await loadWeekAggregates({ ...aggregateOptions, mode: "avg" }, week)).rows;
     const managerBySchool = new Map(managerRows.map((row) => [row.school.toLowerCase(), row]));
     const weekTotals = new Map<string, number>();
 
@@ -354,7 +392,83 @@ export async function loadSeasonSummary(options: SeasonSummaryOptions): Promise<
     format,
     includeK,
     defense,
+    idp,
+    includePostseason,
     lastCompletedWeek,
     rows,
+    weeks,
+  };
+}
+
+const median = (values: number[]): number => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const tally = (split: RecordSplit, points: number, against: number) => {
+  if (points > against) split.wins += 1;
+  else if (points < against) split.losses += 1;
+  else split.ties += 1;
+};
+
+/**
+ * All-play table: each week every school is compared with every other school
+ * that scored that week, plus one extra result against the weekly median, so
+ * schedule luck drops out of the record. Only registry schools take part; the
+ * "Unknown" bucket and other unregistered names are left out of the records
+ * and the medians.
+ */
+export function computeAllPlayStandings(weeks: SeasonSummaryWeek[]): Pick<AllPlayStandings, "medians" | "rows"> {
+  const rows = new Map<string, AllPlayRow>();
+  const medians: AllPlayStandings["medians"] = [];
+  for (const { week, totals: weekTotals } of weeks) {
+    const totals = weekTotals.filter((entry) => resolveSchool(entry.school) !== null);
+    const weekMedian = median(totals.map((entry) => entry.points));
+    medians.push({ week, median: Number(weekMedian.toFixed(2)) });
+    for (const entry of totals) {
+      const key = entry.school.toLowerCase();
+      const row = rows.get(key) ?? {
+        school: entry.school,
+        weeks: 0,
+        pointsFor: 0,
+        allPlay: { wins: 0, losses: 0, ties: 0 },
+        allPlayPct: 0,
+        median: { wins: 0, losses: 0, ties: 0 },
+        combinedPct: 0,
+      };
+      row.weeks += 1;
+      row.pointsFor += entry.points;
+      for (const other of totals) {
+        if (other !== entry) tally(row.allPlay, entry.points, other.points);
+      }
+      tally(row.median, entry.points, weekMedian);
+      rows.set(key, row);
+    }
+  }
+
+  for (const row of rows.values()) {
+    row.pointsFor = Number(row.pointsFor.toFixed(2));
+    row.allPlayPct = Number(winPercentage(row.allPlay).toFixed(3));
+    row.combinedPct = Number(((winPercentage(row.allPlay) + winPercentage(row.median)) / 2).toFixed(3));
+  }
+  const sorted = Array.from(rows.values()).sort(
+    (a, b) => b.combinedPct - a.combinedPct || b.allPlayPct - a.allPlayPct || b.pointsFor - a.pointsFor,
+  );
+  return { medians, rows: sorted };
+}
+
+export async function loadAllPlayStandings(options: SeasonSummaryOptions): Promise<AllPlayStandings> {
+  const summary = await loadSeasonSummary(options);
+  return {
+    season: summary.season,
+    format: summary.format,
+    includeK: summary.includeK,
+    defense: summary.defense,
+    idp: summary.idp,
+    includePostseason: summary.includePostseason,
+    lastCompletedWeek: summary.lastCompletedWeek,
+    ...computeAllPlayStandings(summary.weeks),
   };
 }
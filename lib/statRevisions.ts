@@ -0,0 +1,287 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { IDP_STATS, type IdpStatLine } from "./idp";
+import { scoreStatLine, SCORING_STATS, type ScoringFormat, type ScoringStatLine } from "./scoringRules";
+
+/**
+ * Tracks nflverse stat corrections. Each time a season's player-stats asset
+ * changes (by content hash), every week is diffed row-by-row against the last
+ * snapshot; weeks with changed rows get a new revision and a history entry
+ * holding the before/after stat lines of the players that moved. Snapshots
+ * are only diffed against snapshots of the same `SNAPSHOT_VERSION`.
+ */
+
+export type StatLineSnapshot = ScoringStatLine & IdpStatLine & {
+  player_id: string;
+  name: string;
+  team: string;
+};
+
+export type StatRowChange = {
+  player_id: string;
+  kind: "added" | "removed" | "changed";
+  before: StatLineSnapshot | null;
+  after: StatLineSnapshot | null;
+};
+
+export type WeekRevisionEntry = {
+  revision: number;
+  assetHash: string;
+  detectedAt: number;
+  changes: StatRowChange[];
+};
+
+type WeekRevisionState = {
+  revision: number;
+  hash: string;
+  rows: Record<string, StatLineSnapshot>;
+  history: WeekRevisionEntry[];
+};
+
+type SeasonRevisionState = {
+  season: number;
+  /** `SNAPSHOT_VERSION` the rows were taken with; unset on states written before versioning. */
+  snapshotVersion?: number;
+  assetHash: string;
+  checkedAt: number;
+  weeks: Record<string, WeekRevisionState>;
+};
+
+export type StatSourceRow = Omit<StatLineSnapshot, "player_id" | "name" | "team"> & {
+  player_id: string;
+  name?: string;
+  team?: string;
+};
+
+/** Points for one snapshot line; see `createStatLineScorer` for the one the views use. */
+export type StatLineScorer = (line: StatLineSnapshot) => number;
+
+export type PlayerPointsChange = {
+  player_id: string;
+  name: string;
+  team: string;
+  position?: string;
+  kind: StatRowChange["kind"];
+  before: number;
+  after: number;
+  delta: number;
+};
+
+const MAX_HISTORY = 25;
+
+/**
+ * Bump whenever `snapshotStatLine` keeps different fields. States from another
+ * version are re-baselined instead of diffed, since every row would differ.
+ */
+const SNAPSHOT_VERSION = 2;
+
+const revisionsDir = () =>
+  process.env.NFLVERSE_REVISIONS_DIR?.trim() ||
+  path.join(process.env.NFLVERSE_CACHE_DIR?.trim() || path.join(os.tmpdir(), "next-cache", "nflverse"), "revisions");
+
+const statePath = (season: number) => path.join(revisionsDir(), `player_stats_${season}.json`);
+
+const seasonStates = new Map<number, SeasonRevisionState>();
+
+export const hashContent = (contents: Buffer | string): string => createHash("sha256").update(contents).digest("hex");
+
+export function snapshotStatLine(stat: StatSourceRow): StatLineSnapshot {
+  const snapshot: StatLineSnapshot = { player_id: stat.player_id, name: stat.name ?? "", team: stat.team ?? "" };
+  if (stat.position) snapshot.position = stat.position;
+  for (const key of [...SCORING_STATS, ...IDP_STATS]) {
+    const value = stat[key];
+    if (typeof value === "number" && value !== 0) snapshot[key] = value;
+  }
+  return snapshot;
+}
+
+const sameLine = (a: StatLineSnapshot, b: StatLineSnapshot) => JSON.stringify(a) === JSON.stringify(b);
+
+const weekHash = (rows: Record<string, StatLineSnapshot>) =>
+  hashContent(
+    JSON.stringify(
+      Object.keys(rows)
+        .sort()
+        .map((id) => rows[id]),
+    ),
+  );
+
+/** Row-level diff between two snapshots of the same week, keyed by player id. */
+export function diffStatRows(
+  previous: Record<string, StatLineSnapshot>,
+  next: Record<string, StatLineSnapshot>,
+): StatRowChange[] {
+  const changes: StatRowChange[] = [];
+  for (const [id, after] of Object.entries(next)) {
+    const before = previous[id];
+    if (!before) changes.push({ player_id: id, kind: "added", before: null, after });
+    else if (!sameLine(before, after)) changes.push({ player_id: id, kind: "changed", before, after });
+  }
+  for (const [id, before] of Object.entries(previous)) {
+    if (!(id in next)) changes.push({ player_id: id, kind: "removed", before, after: null });
+  }
+  return changes.sort((a, b) => a.player_id.localeCompare(b.player_id));
+}
+
+const readState = async (season: number): Promise<SeasonRevisionState | null> => {
+  const cached = seasonStates.get(season);
+  if (cached) return cached;
+  try {
+    const parsed = JSON.parse(await fs.readFile(statePath(season), "utf-8")) as SeasonRevisionState;
+    seasonStates.set(season, parsed);
+    return parsed;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+    // eslint-disable-next-line no-console
+    console.warn(`[statRevisions] Ignoring unreadable revision state for ${season}`, error);
+    return null;
+  }
+};
+
+/** Caches `state` only once it is on disk, so a failed write leaves the previous state in place. */
+const writeState = async (state: SeasonRevisionState) => {
+  const file = statePath(state.season);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(state), "utf-8");
+  await fs.rename(tmp, file);
+  seasonStates.set(state.season, state);
+};
+
+const currentRevisions = (state: SeasonRevisionState) =>
+  new Map(Object.entries(state.weeks).map(([week, entry]) => [Number(week), entry.revision]));
+
+/**
+ * Records a freshly parsed season and returns the revision of each week. An
+ * unchanged asset hash short-circuits; otherwise weeks whose rows differ from
+ * the stored snapshot move to the next revision. The first snapshot of a week
+ * is revision 1. A state from another snapshot version takes the new rows as
+ * its baseline and keeps every week's revision.
+ */
+export async function recordStatRevisions(
+  season: number,
+  assetHash: string,
+  weeks: Map<number, StatSourceRow[]>,
+  now: number = Date.now(),
+): Promise<Map<number, number>> {
+  const existing = await readState(season);
+  const rebaseline = existing !== null && (existing.snapshotVersion ?? 1) !== SNAPSHOT_VERSION;
+  if (existing && !rebaseline && existing.assetHash === assetHash) return currentRevisions(existing);
+
+  // week entries are replaced, never mutated, so copying `weeks` keeps the cached state intact until written
+  const state: SeasonRevisionState = existing
+    ? { ...existing, weeks: { ...existing.weeks } }
+    : { season, assetHash, checkedAt: now, weeks: {} };
+  for (const [week, stats] of weeks) {
+    const rows: Record<string, StatLineSnapshot> = {};
+    for (const stat of stats) rows[stat.player_id] = snapshotStatLine(stat);
+    const hash = weekHash(rows);
+    const previous = state.weeks[String(week)];
+    if (!previous) {
+      state.weeks[String(week)] = {
+        revision: 1,
+        hash,
+        rows,
+        history: [{ revision: 1, assetHash, detectedAt: now, changes: [] }],
+      };
+      continue;
+    }
+    if (previous.hash === hash) continue;
+    if (rebaseline) {
+      state.weeks[String(week)] = { ...previous, hash, rows };
+      continue;
+    }
+    const changes = diffStatRows(previous.rows, rows);
+    const revision = previous.revision + 1;
+    // eslint-disable-next-line no-console
+    console.warn("[statRevisions] Stat corrections detected", { season, week, revision, changed: changes.length });
+    state.weeks[String(week)] = {
+      revision,
+      hash,
+      rows,
+      history: [...previous.history, { revision, assetHash, detectedAt: now, changes }].slice(-MAX_HISTORY),
+    };
+  }
+  if (rebaseline) {
+    // eslint-disable-next-line no-console
+    console.warn("[statRevisions] Re-baselined stat snapshots", {
+      season,
+      from: existing?.snapshotVersion ?? 1,
+      to: SNAPSHOT_VERSION,
+    });
+  }
+  state.snapshotVersion = SNAPSHOT_VERSION;
+  state.assetHash = assetHash;
+  state.checkedAt = now;
+  await writeState(state);
+  return currentRevisions(state);
+}
+
+export async function getWeekRevisionHistory(season: number, week: number) {
+  const state = await readState(season);
+  const entry = state?.weeks[String(week)];
+  if (!entry) return null;
+  return {
+    revision: entry.revision,
+    hash: entry.hash,
+    history: entry.history.map(({ changes, ...rest }) => ({ ...rest, changed: changes.length })),
+  };
+}
+
+/**
+ * Players whose points moved between two revisions of a week, scored with
+ * `score` (or the offensive rules of a format). `from` is exclusive and `to`
+ * inclusive, so the default (previous → latest) lists the most recent correction.
+ */
+export async function listPointChanges(
+  season: number,
+  week: number,
+  score: StatLineScorer | ScoringFormat,
+  range: { from?: number; to?: number } = {},
+): Promise<{ revision: number; from: number; to: number; changes: PlayerPointsChange[] } | null> {
+  const state = await readState(season);
+  const entry = state?.weeks[String(week)];
+  if (!entry) return null;
+  const to = Math.min(range.to ?? entry.revision, entry.revision);
+  const from = Math.max(0, Math.min(range.from ?? to - 1, to));
+
+  const merged = new Map<string, { before: StatLineSnapshot | null; after: StatLineSnapshot | null }>();
+  for (const revision of entry.history) {
+    if (revision.revision <= from || revision.revision > to) continue;
+    for (const change of revision.changes) {
+      const current = merged.get(change.player_id);
+      merged.set(change.player_id, { before: current ? current.before : change.before, after: change.after });
+    }
+  }
+
+  const scoreLine: StatLineScorer =
+    typeof score === "function" ? score : (line) => scoreStatLine(line, score, line.position);
+  const changes: PlayerPointsChange[] = [];
+  for (const [playerId, { before, after }] of merged) {
+    if (!before && !after) continue;
+    const beforePoints = before ? scoreLine(before) : 0;
+    const afterPoints = after ? scoreLine(after) : 0;
+    const delta = Number((afterPoints - beforePoints).toFixed(2));
+    if (delta === 0 && before && after) continue;
+    const line = after ?? before!;
+    changes.push({
+      player_id: playerId,
+      name: line.name,
+      team: line.team,
+      position: line.position,
+      kind: !before ? "added" : !after ? "removed" : "changed",
+      before: beforePoints,
+      after: afterPoints,
+      delta,
+    });
+  }
+  changes.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.player_id.localeCompare(b.player_id));
+  return { revision: entry.revision, from, to, changes };
+}
+
+/** Drops in-memory state (tests). */
+export function resetStatRevisionCache() {
+  seasonStates.clear();
+}
@@ -1,6 +1,16 @@
 
-export type Leader = { player_id: string | number; full_name: string; position: string; team?: string; points: number; college?: string | null; };
+import type { CollegeAllocationPolicy } from "./collegeAllocation";
+import type { TeamDefenseSource } from "./defense";
+import type { PlayerMatch } from "./playerMatching";
+
+/** `match` records how the player was joined to the players master (see `matchPlayerRow`). */
+export type Leader = { player_id: string | number; full_name: string; position: string; team?: string; points: number; college?: string | null; match?: PlayerMatch; };
+/** `share` is the fraction of the player's points credited to this school under `policy`. */
+export type PerformerAllocation = { policy: CollegeAllocationPolicy; colleges: string[]; share: number };
+export type DefenseContributor = { label: string; points: number; source?: TeamDefenseSource };
+export type PerformerMeta = { allocation?: PerformerAllocation; match?: PlayerMatch; contributors?: DefenseContributor[] };
+export type Performer = { name: string; position: string; slot?: string; team?: string; points: number; college?: string | null; meta?: PerformerMeta };
 export type SchoolAggregate = {
   school: string; week: number; format: string; totalPoints: number;
-  performers: { name: string; position: string; team?: string; points: number; college?: string | null; meta?: any }[];
+  performers: Performer[];
 };
@@ -0,0 +1,97 @@
+#!/usr/bin/env tsx
+
+import type { SeasonType } from "@/utils/cfbd";
+import {
+  CFB_SLATE_FILE_FORMATS,
+  cfbScheduleDir,
+  getCfbScheduleProvider,
+  writeCfbSlateFile,
+  type CfbSlateFileFormat,
+} from "@/utils/cfbScheduleProvider";
+
+type Source = "cfbd" | "espn";
+
+type CliArgs = {
+  season?: number;
+  seasonTypes: SeasonType[];
+  from: Source;
+  format: CfbSlateFileFormat;
+  out: string;
+};
+
+const USAGE =
+  "Usage: importCfbSchedule --season <year> [--seasonType regular|postseason|all] [--from cfbd|espn] [--format json|csv] [--out <dir>]";
+
+const parseCliArgs = (argv: string[]): CliArgs => {
+  const result: CliArgs = {
+    seasonTypes: ["regular", "postseason"],
+    from: "cfbd",
+    format: "json",
+    out: cfbScheduleDir(),
+  };
+  for (let i = 0; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (!token.startsWith("--")) {
+      throw new Error(`Unknown argument: ${token}`);
+    }
+    const [flag, inline] = token.slice(2).split("=");
+    if (flag === "help") {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    const value = inline !== undefined ? inline : argv[i + 1];
+    if (inline === undefined) i += 1;
+    if (!value) throw new Error(`Missing value for --${flag}`);
+    switch (flag) {
+      case "season": {
+        const season = Number(value);
+        if (!Number.isInteger(season)) throw new Error(`Invalid number for --season: ${value}`);
+        result.season = season;
+        break;
+      }
+      case "seasonType":
+        if (value !== "regular" && value !== "postseason" && value !== "all") {
+          throw new Error(`Invalid value for --seasonType: ${value}`);
+        }
+        result.seasonTypes = value === "all" ? ["regular", "postseason"] : [value];
+        break;
+      case "from":
+        if (value !== "cfbd" && value !== "espn") throw new Error(`Invalid value for --from: ${value}`);
+        result.from = value;
+        break;
+      case "format":
+        if (!(CFB_SLATE_FILE_FORMATS as readonly string[]).includes(value)) {
+          throw new Error(`Invalid value for --format: ${value}`);
+        }
+        result.format = value as CfbSlateFileFormat;
+        break;
+      case "out":
+        result.out = value;
+        break;
+      default:
+        throw new Error(`Unknown flag --${flag}`);
+    }
+  }
+  return result;
+};
+
+const main = async () => {
+  const args = parseCliArgs(process.argv.slice(2));
+  if (args.season === undefined) throw new Error(`Missing --season\n${USAGE}`);
+  const season = args.season;
+  const provider = getCfbScheduleProvider(args.from);
+  for (const seasonType of args.seasonTypes) {
+    const slate = await provider.getSeasonSlate(season, seasonType);
+    if (!slate.length) {
+      console.warn(`[schedule:import] ${args.from} returned no ${seasonType} games for ${season}; nothing written`);
+      continue;
+    }
+    const file = await writeCfbSlateFile(slate, { season, seasonType, format: args.format, dir: args.out });
+    console.log(`[schedule:import] ${season} ${seasonType}: ${slate.length} games from ${args.from} -> ${file}`);
+  }
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -83,4 +83,7 @@ test('scores API uses stat fallback to populate colleges', async (t) => {
   const qb = oklahoma.performers.find((performer) => (performer.position || '').toUpperCase() === 'QB');
   assert.ok(qb, 'expected quarterback performer for Oklahoma');
   assert.equal(qb.college, 'Oklahoma');
+
+  const { listCollegeDiagnostics } = loadTsModule(path.resolve(__dirname, '../lib/collegeDiagnostics.ts'));
+  assert.deepEqual(listCollegeDiagnostics(2025, { weeks: [1] }), []);
 });
@@ -0,0 +1,186 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs/promises');
+const os = require('node:os');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const {
+  createFileCfbScheduleProvider,
+  formatCfbSlate,
+  getCfbScheduleProvider,
+  getCfbSeasonSlate,
+  parseCfbSlate,
+  writeCfbSlateFile,
+} = loadTsModule(path.resolve(__dirname, '../utils/cfbScheduleProvider.ts'));
+const { getCfbWeekGames } = loadTsModule(path.resolve(__dirname, '../utils/datasources.ts'));
+
+const game = (overrides) => ({
+  id: null,
+  season: 2024,
+  week: 1,
+  seasonType: 'regular',
+  home: 'Miami (FL)',
+  away: 'Florida A&M',
+  homePoints: null,
+  awayPoints: null,
+  venue: null,
+  neutralSite: null,
+  conferenceGame: null,
+  startTimeTBD: null,
+  excitementIndex: null,
+  highlights: null,
+  notes: null,
+  kickoffISO: '2024-08-31T16:00:00.000Z',
+  ...overrides,
+});
+
+test('CSV slates round-trip quoted fields and typed columns', () => {
+  const slate = [
+    game({ id: 401, homePoints: 56, awayPoints: 9, neutralSite: false, venue: 'Hard Rock Stadium, Miami Gardens' }),
+    game({ week: 2, home: 'Florida State', away: 'Boston College', notes: 'Played "Monday" night', kickoffISO: null }),
+  ];
+  const csv = formatCfbSlate(slate, 'csv');
+  assert.ok(csv.startsWith('id,season,week,seasonType,home,away,'));
+  assert.deepEqual(parseCfbSlate(csv, 'csv', 2024, 'regular'), slate);
+  assert.deepEqual(parseCfbSlate(formatCfbSlate(slate, 'json'), 'json', 2024, 'regular'), slate);
+  // Rows for another season or season type are ignored.
+  assert.deepEqual(parseCfbSlate(csv, 'csv', 2024, 'postseason'), []);
+  assert.throws(() => parseCfbSlate('{}', 'json', 2024, 'regular'), /JSON array/);
+});
+
+test('the file provider serves slates and weeks without network access', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cfb-schedules-'));
+  const originalFetch = global.fetch;
+  const originalProvider = process.env.CFB_SCHEDULE_PROVIDER;
+  const originalDir = process.env.CFB_SCHEDULE_DIR;
+  process.env.CFB_SCHEDULE_PROVIDER = 'file';
+  process.env.CFB_SCHEDULE_DIR = dir;
+  global.fetch = async () => {
+    throw new Error('unexpected network request');
+  };
+  t.after(async () => {
+    global.fetch = originalFetch;
+    if (originalProvider === undefined) delete process.env.CFB_SCHEDULE_PROVIDER;
+    else process.env.CFB_SCHEDULE_PROVIDER = originalProvider;
+    if (originalDir === undefined) delete process.env.CFB_SCHEDULE_DIR;
+    else process.env.CFB_SCHEDULE_DIR = originalDir;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const regularGames = [game({ season: 2098, week: 2, home: 'Ohio State', away: 'Western Michigan' }), game({ season: 2098 })];
+  await writeCfbSlateFile(regularGames, { season: 2098, seasonType: 'regular' });
+  await writeCfbSlateFile([game({ season: 2098, seasonType: 'postseason', notes: 'CFP National Championship' })], {
+    season: 2098,
+    seasonType: 'postseason',
+    format: 'csv',
+  });
+
+  const regular = await getCfbSeasonSlate(2098);
+  assert.equal(regular.provider, 'file');
+  assert.equal(regular.error, undefined);
+  assert.deepEqual(
+    regular.slate.map((entry) => [entry.week, entry.home]),
+    [
+      [1, 'Miami (FL)'],
+      [2, 'Ohio State'],
+    ],
+  );
+  const postseason = await getCfbSeasonSlate(2098, 'postseason');
+  assert.equal(postseason.slate[0].notes, 'CFP National Championship');
+
+  const week2 = await getCfbWeekGames(2098, 2);
+  assert.deepEqual(week2, [
+    {
+      season: 2098,
+      week: 2,
+      seasonType: 'regular',
+      home: 'Ohio State',
+      away: 'Western Michigan',
+      kickoffISO: '2024-08-31T16:00:00.000Z',
+      provider: 'file',
+    },
+  ]);
+
+  const missing = await getCfbSeasonSlate(2097);
+  assert.deepEqual(missing.slate, []);
+  assert.match(missing.error, /No CFB schedule file for 2097 regular/);
+  await assert.rejects(createFileCfbScheduleProvider(dir).getWeekGames(2097, 1, 'regular'), /2097-regular\.json/);
+});
+
+test('cfbd and espn resolve through the provider factory', async (t) => {
+  const originalFetch = global.fetch;
+  const originalKey = process.env.CFBD_API_KEY;
+  process.env.CFBD_API_KEY = 'test-key';
+  const requests = [];
+  global.fetch = async (url) => {
+    requests.push(String(url));
+    if (String(url).startsWith('https://api.collegefootballdata.com/games')) {
+      return {
+        ok: true,
+        status: 200,
+        json: async () => [{ id: 7, week: 3, homeTeam: 'Ohio St.', awayTeam: 'Western Michigan', startDate: '2096-09-12T23:30:00.000Z' }],
+      };
+    }
+    const week = new URL(url).searchParams.get('week');
+    return {
+      ok: true,
+      status: 200,
+      json: async () => ({
+        events:
+          week === '1'
+            ? [
+                {
+                  competitions: [
+                    {
+                      date: '2096-12-07T01:00Z',
+                      competitors: [
+                        { homeAway: 'home', team: { displayName: 'Georgia' } },
+                        { homeAway: 'away', team: { displayName: 'Alabama' } },
+                      ],
+                    },
+                  ],
+                },
+              ]
+            : [],
+      }),
+    };
+  };
+  t.after(() => {
+    global.fetch = originalFetch;
+    if (originalKey === undefined) delete process.env.CFBD_API_KEY;
+    else process.env.CFBD_API_KEY = originalKey;
+  });
+
+  assert.deepEqual(
+    ['cfbd', 'espn', 'file'].map((kind) => getCfbScheduleProvider(kind).kind),
+    ['cfbd', 'espn', 'file'],
+  );
+
+  const week3 = await getCfbWeekGames(2096, 3, 'regular', 'cfbd');
+  assert.deepEqual(week3, [
+    {
+      season: 2096,
+      week: 3,
+      seasonType: 'regular',
+      home: 'Ohio State',
+      away: 'Western Michigan',
+      kickoffISO: '2096-09-12T23:30:00.000Z',
+      provider: 'cfbd',
+    },
+  ]);
+  assert.equal(requests[0], 'https://api.collegefootballdata.com/games?year=2096&week=3&seasonType=regular');
+
+  const postseason = await getCfbScheduleProvider('espn').getSeasonSlate(2096, 'postseason');
+  assert.deepEqual(postseason, [
+    game({
+      season: 2096,
+      seasonType: 'postseason',
+      home: 'Georgia',
+      away: 'Alabama',
+      kickoffISO: '2096-12-07T01:00:00.000Z',
+    }),
+  ]);
+  assert.equal(requests.length, 2, 'postseason walks one ESPN week');
+});
@@ -0,0 +1,65 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const {
+  classifyCollegeResolution,
+  listCollegeDiagnostics,
+  recordCollegeDiagnostics,
+  recordedDiagnosticWeeks,
+  resetCollegeDiagnostics,
+} = loadTsModule(path.resolve(__dirname, '../lib/collegeDiagnostics.ts'));
+
+test('classifyCollegeResolution flags missing, name-only and unregistered colleges', () => {
+  assert.equal(classifyCollegeResolution({ college: 'Unknown', source: null }), 'unresolved');
+  assert.equal(classifyCollegeResolution({ college: 'Alabama', source: 'static:name' }), 'name-only');
+  assert.equal(classifyCollegeResolution({ college: 'Nowhere Tech', source: 'roster' }), 'unregistered-school');
+  assert.equal(classifyCollegeResolution({ college: 'Ohio St.', source: 'roster' }), null);
+  assert.equal(classifyCollegeResolution({ college: 'Alabama;Oklahoma', source: 'players-master' }), null);
+});
+
+test('listCollegeDiagnostics merges weeks per player and sorts by fantasy points', () => {
+  resetCollegeDiagnostics();
+  const entry = (week, player_id, points, reason = 'unresolved') => ({
+    season: 2024,
+    week,
+    player_id,
+    name: player_id.toUpperCase(),
+    team: 'HOU',
+    position: 'WR',
+    points,
+    reason,
+    college: 'Unknown',
+    source: null,
+    tried: ['override:id', 'override:name-team', 'static:id', 'roster', 'players-master', 'static:name'],
+  });
+  recordCollegeDiagnostics(2024, 1, 'PPR', [entry(1, 'a', 4), entry(1, 'b', 10)]);
+  recordCollegeDiagnostics(2024, 2, 'PPR', [entry(2, 'a', 8.25), entry(2, 'c', 3, 'name-only')]);
+
+  const all = listCollegeDiagnostics(2024);
+  assert.deepEqual(
+    all.map((row) => [row.player_id, row.points, row.weeks]),
+    [
+      ['a', 12.25, [1, 2]],
+      ['b', 10, [1]],
+      ['c', 3, [2]],
+    ],
+  );
+  assert.deepEqual(
+    listCollegeDiagnostics(2024, { weeks: [2], reasons: ['unresolved'] }).map((row) => row.player_id),
+    ['a'],
+  );
+  assert.deepEqual(
+    recordedDiagnosticWeeks(2024).map((row) => [row.week, row.format]),
+    [
+      [1, 'PPR'],
+      [2, 'PPR'],
+    ],
+  );
+
+  recordCollegeDiagnostics(2024, 1, 'PPR', []);
+  assert.deepEqual(listCollegeDiagnostics(2024).map((row) => row.player_id), ['a', 'c']);
+  assert.deepEqual(listCollegeDiagnostics(2023), []);
+});
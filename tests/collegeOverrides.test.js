@@ -0,0 +1,75 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const {
+  buildCollegeOverride,
+  loadCollegeOverrideHistory,
+  loadCollegeOverrideIndex,
+  overrideCandidates,
+  removeCollegeOverride,
+  resetCollegeOverrideCache,
+  resolveCollegePrecedence,
+  saveCollegeOverride,
+} = loadTsModule(path.resolve(__dirname, '../lib/collegeOverrides.ts'));
+const { createMemoryLeagueStorage, setLeagueStorage } = loadTsModule(path.resolve(__dirname, '../lib/leagueStorage.ts'));
+
+test('buildCollegeOverride validates identity and the school registry', () => {
+  const override = buildCollegeOverride({ gsisId: '00-001', college: 'miami fl' }, 5);
+  assert.equal(override.key, 'id:00-001');
+  assert.equal(override.college, 'Miami (FL)');
+  assert.equal(override.schoolId, 'miami-fl');
+  assert.equal(buildCollegeOverride({ name: 'Some  Player', team: 'kc', college: 'LSU' }).key, 'name:some player|KC');
+  assert.throws(() => buildCollegeOverride({ name: 'No Team', college: 'LSU' }), (error) => error.status === 400);
+  assert.throws(
+    () => buildCollegeOverride({ gsisId: '1', college: 'Nowhere Tech' }),
+    (error) => error.status === 400 && error.code === 'UNKNOWN_SCHOOL',
+  );
+});
+
+test('college overrides record history and take precedence over every other source', async () => {
+  setLeagueStorage(createMemoryLeagueStorage());
+  resetCollegeOverrideCache();
+  try {
+    const created = await saveCollegeOverride(buildCollegeOverride({ gsisId: '12', college: 'Ohio State' }, 1), 'ops');
+    assert.equal(created.action, 'created');
+    const same = await saveCollegeOverride(buildCollegeOverride({ gsisId: '12', college: 'Ohio State' }, 2));
+    assert.equal(same.action, 'unchanged');
+    const updated = await saveCollegeOverride(buildCollegeOverride({ gsisId: '12', college: 'Oregon' }, 3));
+    assert.equal(updated.action, 'updated');
+    assert.equal(updated.override.createdAt, 1);
+
+    const index = await loadCollegeOverrideIndex();
+    // data/player_colleges_by_id.json maps id 12 to Michigan; the admin override wins.
+    const resolution = resolveCollegePrecedence([
+      { source: 'roster', college: 'Texas' },
+      ...overrideCandidates({ player_id: '12', name: 'Nico Collins', team: 'HOU' }, index),
+    ]);
+    assert.equal(resolution.college, 'Oregon');
+    assert.equal(resolution.source, 'override:id');
+    assert.deepEqual(
+      resolution.candidates.map((candidate) => candidate.source),
+      ['override:id', 'static:id', 'roster', 'static:name'],
+    );
+
+    await removeCollegeOverride('id:12', 'ops', 4);
+    await assert.rejects(removeCollegeOverride('id:12'), (error) => error.status === 404);
+    const afterRemoval = resolveCollegePrecedence(overrideCandidates({ player_id: '12' }, await loadCollegeOverrideIndex()));
+    assert.equal(afterRemoval.source, 'static:id');
+
+    const history = await loadCollegeOverrideHistory('id:12');
+    assert.deepEqual(
+      history.map((entry) => [entry.action, entry.before?.college ?? null, entry.after?.college ?? null]),
+      [
+        ['created', null, 'Ohio State'],
+        ['updated', 'Ohio State', 'Oregon'],
+        ['removed', 'Oregon', null],
+      ],
+    );
+  } finally {
+    setLeagueStorage(null);
+    resetCollegeOverrideCache();
+  }
+});
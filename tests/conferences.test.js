@@ -0,0 +1,75 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const { aggregateByConference } = loadTsModule(path.resolve(__dirname, '../lib/conferences.ts'));
+const { listSchools } = loadTsModule(path.resolve(__dirname, '../lib/schoolRegistry.ts'));
+
+const row = (school, totalPoints) => ({ school, week: 3, format: 'PPR', totalPoints, performers: [] });
+
+const rows = [row('Texas', 40), row('Oklahoma', 30), row('Baylor', 20), row('Georgia', 50), row('Nowhere Tech', 99)];
+
+test('aggregateByConference groups schools by their conference for the season', () => {
+  const before = aggregateByConference(rows, 2023, { method: 'sum', bestN: 5 });
+  assert.deepEqual(
+    before.rows.map((entry) => [entry.conference, entry.totalPoints, entry.schoolCount]),
+    [
+      ['Big 12', 90, 3],
+      ['SEC', 50, 1],
+    ],
+  );
+  assert.deepEqual(before.unassigned, ['Nowhere Tech']);
+
+  const after = aggregateByConference(rows, 2024, { method: 'sum', bestN: 5 });
+  assert.deepEqual(
+    after.rows.map((entry) => [entry.conference, entry.totalPoints]),
+    [
+      ['SEC', 120],
+      ['Big 12', 20],
+    ],
+  );
+});
+
+test('aggregateByConference supports average and best-N scoring', () => {
+  const average = aggregateByConference(rows, 2024, { method: 'average', bestN: 5 });
+  assert.equal(average.rows.find((entry) => entry.conference === 'SEC').totalPoints, 40);
+
+  const bestTwo = aggregateByConference(rows, 2024, { method: 'best-n', bestN: 2 });
+  const sec = bestTwo.rows.find((entry) => entry.conference === 'SEC');
+  assert.equal(sec.totalPoints, 90);
+  assert.equal(sec.schoolCount, 3);
+  assert.deepEqual(sec.schools.map((entry) => entry.school), ['Georgia', 'Texas']);
+});
+
+test('aggregateByConference assigns every member of a Group of Five conference', () => {
+  const sunBelt = [
+    'App State',
+    'Arkansas State',
+    'Coastal Carolina',
+    'Georgia Southern',
+    'Georgia State',
+    'James Madison',
+    'Louisiana',
+    'Louisiana-Monroe',
+    'Marshall',
+    'Old Dominion',
+    'South Alabama',
+    'Southern Miss',
+    'Texas State',
+    'Troy',
+  ];
+  const result = aggregateByConference(sunBelt.map((school) => row(school, 10)), 2025, { method: 'sum', bestN: 5 });
+  assert.deepEqual(result.unassigned, []);
+  assert.deepEqual(
+    result.rows.map((entry) => [entry.conference, entry.schoolCount, entry.totalPoints]),
+    [['Sun Belt', 14, 140]],
+  );
+
+  const fbs = listSchools().filter((school) => school.level === 'FBS');
+  const everyFbs = aggregateByConference(fbs.map((school) => row(school.name, 1)), 2025, { method: 'sum', bestN: 5 });
+  assert.deepEqual(everyFbs.unassigned, []);
+  assert.equal(everyFbs.rows.find((entry) => entry.conference === 'MAC').schoolCount, 13);
+  assert.equal(everyFbs.rows.find((entry) => entry.conference === 'Conference USA').schoolCount, 12);
+});
@@ -0,0 +1,20 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const { parseCsv } = loadTsModule(path.resolve(__dirname, '../lib/csv.ts'));
+
+test('parseCsv keeps empty and quoted cells under their headers', () => {
+  const csv = '\uFEFFteam,venue,points\r\nPHI,"Lincoln Financial Field, ""The Linc""",\r\n,,\r\nDAL,,24\r\n';
+  assert.deepEqual(parseCsv(csv), [
+    { team: 'PHI', venue: 'Lincoln Financial Field, "The Linc"', points: '' },
+    { team: 'DAL', venue: '', points: '24' },
+  ]);
+});
+
+test('parseCsv drops columns outside the requested list', () => {
+  const csv = 'desc,team,points\n"pass deep, 52 yards",PHI,7\n';
+  assert.deepEqual(parseCsv(csv, { columns: ['team', 'points'] }), [{ team: 'PHI', points: '7' }]);
+});
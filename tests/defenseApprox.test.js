@@ -92,3 +92,36 @@ test('fetchDefenseApprox falls back to gzipped assets', async (t) => {
   assert.deepEqual(requests, [primarySource, `${primarySource}.gz`]);
   assert.equal(result.rows.length, 2);
 });
+
+test('fetchDefenseApprox keeps empty and quoted fields under their headers', async (t) => {
+  const originalFetch = global.fetch;
+  const csv = [
+    'season,week_num,club_code,opp_club_code,stadium,points_for,pass_sacks_allowed,interceptions_thrown,fumbles_lost_offense',
+    '2025,4,PHI,TB,"Raymond James Stadium, Tampa",,2,1,0',
+    '2025,4,TB,PHI,"Raymond James Stadium, Tampa",31,,0,1',
+  ].join('\n');
+  global.fetch = async () => ({
+    ok: true,
+    status: 200,
+    arrayBuffer: async () => Buffer.from(csv, 'utf8'),
+    headers: new Map(),
+  });
+  t.after(() => {
+    global.fetch = originalFetch;
+  });
+
+  const { fetchDefenseApprox } = loadTsModule(modulePath);
+  const result = await fetchDefenseApprox({ season: 2025, week: 4 });
+
+  const phi = result.rows.find((row) => row.team === 'PHI');
+  assert.equal(phi.points_allowed, 31);
+  assert.equal(phi.sacks, 0, 'an empty sacks-allowed cell does not shift later columns');
+  assert.equal(phi.interceptions, 0);
+  assert.equal(phi.fumbles_recovered, 1);
+
+  const tb = result.rows.find((row) => row.team === 'TB');
+  assert.equal(tb.points_allowed, 0);
+  assert.equal(tb.sacks, 2);
+  assert.equal(tb.interceptions, 1);
+  assert.equal(tb.fumbles_recovered, 0);
+});
@@ -0,0 +1,53 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const { scoreTeamDefense, approxRowStats } = loadTsModule(path.resolve(__dirname, '../lib/defense.ts'));
+const { computeDstPoints } = loadTsModule(path.resolve(__dirname, '../lib/nflverse.ts'));
+const { reconcileDefenseSources } = loadTsModule(path.resolve(__dirname, '../lib/defenseData.ts'));
+
+const line = (team, overrides = {}) => ({
+  team,
+  sacks: 0,
+  interceptions: 0,
+  fumble_recoveries: 0,
+  safeties: 0,
+  defensive_tds: 0,
+  return_tds: 0,
+  points_allowed: 17,
+  ...overrides,
+});
+
+test('both defense sources score through the one table', () => {
+  const official = line('PHI', { sacks: 3, interceptions: 2, fumble_recoveries: 1, defensive_tds: 1, points_allowed: 10 });
+  assert.equal(scoreTeamDefense(official), 3 + 4 + 2 + 6 + 4);
+  assert.equal(computeDstPoints(official), scoreTeamDefense(official));
+
+  const approx = approxRowStats({ points_allowed: 21, sacks: 3, interceptions: 2, fumbles_recovered: 2 });
+  const { team, ...expected } = line('DAL', { sacks: 3, interceptions: 2, fumble_recoveries: 2, points_allowed: 21 });
+  assert.deepEqual(approx, expected);
+  assert.equal(scoreTeamDefense(approx), 11);
+});
+
+test('reconcileDefenseSources reports per-team differences and the source scoring uses', () => {
+  const rows = reconcileDefenseSources(
+    [line('PHI', { sacks: 3, defensive_tds: 1 }), line('DAL', { sacks: 1 }), line('NYG')],
+    [line('PHI', { sacks: 2 }), line('DAL', { sacks: 1 }), line('JAX')],
+  );
+  assert.deepEqual(
+    rows.map((row) => [row.team, row.status, row.used]),
+    [
+      ['PHI', 'differs', 'stats_team'],
+      ['DAL', 'match', 'stats_team'],
+      ['JAX', 'opponent-offense-only', null],
+      ['NYG', 'stats_team-only', 'stats_team'],
+    ],
+  );
+  assert.deepEqual(rows[0].differences, { sacks: 1, defensive_tds: 1, score: 7 });
+  assert.equal(rows[0].sources['opponent-offense'].score, 3);
+
+  const approxOnly = reconcileDefenseSources([], [line('KC')]);
+  assert.equal(approxOnly[0].used, 'opponent-offense');
+});
@@ -0,0 +1,63 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const { buildIdpSettings, idpPositionGroup, parseDefenseParams, scoreIdpLine, DEFAULT_IDP_SETTINGS } = loadTsModule(
+  path.resolve(__dirname, '../lib/idp.ts'),
+);
+const { aggregateByCollegeMode } = loadTsModule(path.resolve(__dirname, '../lib/scoring.ts'));
+
+test('scoreIdpLine applies the default and custom weights', () => {
+  const line = { def_tackles_solo: 5, def_tackle_assists: 2, def_sacks: 1.5, def_interceptions: 1, def_tds: 1 };
+  assert.equal(scoreIdpLine(line), 5 + 1 + 3 + 3 + 6);
+  assert.equal(scoreIdpLine(line, { ...DEFAULT_IDP_SETTINGS.weights, def_sacks: 4, def_tds: 0 }), 5 + 1 + 6 + 3);
+  assert.equal(idpPositionGroup('edge'), 'DL');
+  assert.equal(idpPositionGroup('SS'), 'DB');
+  assert.equal(idpPositionGroup('WR'), null);
+});
+
+test('parseDefenseParams reads idpSlots and idpWeights only in idp mode', () => {
+  assert.deepEqual(parseDefenseParams(new URL('http://x/api/scores?defense=none&idpSlots=DL:1')), { defense: 'none' });
+  assert.deepEqual(parseDefenseParams(new URL('http://x/api/scores')), { defense: 'approx' });
+
+  const parsed = parseDefenseParams(
+    new URL(`http://x/api/scores?defense=idp&idpSlots=DL:1,LB:3&idpWeights=${encodeURIComponent('{"def_sacks":3}')}`),
+  );
+  assert.equal(parsed.defense, 'idp');
+  assert.deepEqual(parsed.idp.slots, { DL: 1, LB: 3, DB: 2 });
+  assert.equal(parsed.idp.weights.def_sacks, 3);
+  assert.equal(parsed.idp.weights.def_tackles_solo, 1);
+
+  assert.throws(() => parseDefenseParams(new URL('http://x/?defense=idp&idpSlots=K:1')), { code: 'INVALID_IDP_SETTINGS' });
+  assert.throws(() => parseDefenseParams(new URL('http://x/?defense=idp&idpSlots=DL:9')), { status: 400 });
+  assert.throws(() => parseDefenseParams(new URL('http://x/?defense=idp&idpWeights=nope')), /valid JSON/);
+  assert.throws(() => buildIdpSettings({ weights: { def_safeties: 2 } }), /not a supported IDP stat/);
+  assert.deepEqual(buildIdpSettings(undefined), DEFAULT_IDP_SETTINGS);
+});
+
+test('aggregateByCollegeMode fills DL / LB / DB slots in idp mode', async () => {
+  const leaders = [
+    { player_id: '1', full_name: 'QB One', position: 'QB', team: 'KC', points: 20, college: 'IDP U' },
+    { player_id: '2', full_name: 'Edge One', position: 'DE', team: 'KC', points: 9, college: 'IDP U' },
+    { player_id: '3', full_name: 'Tackle One', position: 'DT', team: 'KC', points: 4, college: 'IDP U' },
+    { player_id: '4', full_name: 'Nose One', position: 'NT', team: 'KC', points: 2, college: 'IDP U' },
+    { player_id: '5', full_name: 'Backer One', position: 'ILB', team: 'KC', points: 11, college: 'IDP U' },
+    { player_id: '6', full_name: 'Safety One', position: 'FS', team: 'KC', points: 7, college: 'IDP U' },
+  ];
+
+  const [row] = await aggregateByCollegeMode(leaders, 1, 'ppr', 'weekly', undefined, {
+    includeK: false,
+    defense: 'idp',
+    idp: { ...DEFAULT_IDP_SETTINGS, slots: { DL: 2, LB: 1, DB: 0 } },
+  });
+
+  assert.equal(row.school, 'IDP U');
+  assert.equal(row.totalPoints, 20 + 9 + 4 + 11);
+  const slots = row.performers.map((player) => [player.name, player.slot]);
+  assert.ok(slots.some(([name, slot]) => name === 'Edge One' && slot === 'DL'));
+  assert.ok(slots.some(([name, slot]) => name === 'Backer One' && slot === 'LB'));
+  assert.equal(slots.some(([name]) => name === 'Nose One' || name === 'Safety One'), false);
+  assert.equal(row.performers.some((player) => player.position === 'DEF'), false);
+});
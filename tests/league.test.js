@@ -0,0 +1,198 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const {
+  buildLeague,
+  computeStandings,
+  generateDivisionalSchedule,
+  generateRoundRobinSchedule,
+  loadAuditTrail,
+  loadRecords,
+  matchKey,
+  saveRecord,
+} = loadTsModule(path.resolve(__dirname, '../lib/league.ts'));
+const { createMemoryLeagueStorage, setLeagueStorage } = loadTsModule(path.resolve(__dirname, '../lib/leagueStorage.ts'));
+
+const pairKey = (game) => [game.home, game.away].sort().join(' vs ');
+
+const assertNoDoubleBookings = (schedule) => {
+  const byWeek = new Map();
+  for (const game of schedule) {
+    const seen = byWeek.get(game.week) ?? new Set();
+    assert.equal(seen.has(game.home), false, `${game.home} plays twice in week ${game.week}`);
+    assert.equal(seen.has(game.away), false, `${game.away} plays twice in week ${game.week}`);
+    seen.add(game.home);
+    seen.add(game.away);
+    byWeek.set(game.week, seen);
+  }
+};
+
+test('generateRoundRobinSchedule pairs every school once per cycle', () => {
+  const schools = ['Alabama', 'Georgia', 'LSU', 'Michigan', 'Ohio State', 'USC'];
+  const schedule = generateRoundRobinSchedule(schools, 1, 5);
+  assert.equal(schedule.length, 15);
+  assertNoDoubleBookings(schedule);
+  const pairs = new Set(schedule.map(pairKey));
+  assert.equal(pairs.size, 15);
+
+  const secondCycle = generateRoundRobinSchedule(schools, 1, 10).filter((game) => game.week > 5);
+  const firstByPair = new Map(schedule.map((game) => [pairKey(game), game.home]));
+  for (const game of secondCycle) {
+    assert.notEqual(firstByPair.get(pairKey(game)), game.home, 'second cycle should swap venues');
+  }
+});
+
+test('generateRoundRobinSchedule gives byes with an odd number of schools', () => {
+  const schedule = generateRoundRobinSchedule(['A', 'B', 'C', 'D', 'E'], 3, 7);
+  assert.equal(schedule.length, 10);
+  assert.ok(schedule.every((game) => game.week >= 3 && game.week <= 7));
+  assertNoDoubleBookings(schedule);
+  assert.equal(new Set(schedule.map(pairKey)).size, 10);
+});
+
+test('generateDivisionalSchedule plays division rivals home and away first', () => {
+  const divisions = { East: ['A', 'B', 'C', 'D'], West: ['E', 'F', 'G', 'H'] };
+  const schedule = generateDivisionalSchedule(divisions, 1, 13);
+  assertNoDoubleBookings(schedule);
+  const divisionOf = new Map(Object.entries(divisions).flatMap(([name, members]) => members.map((m) => [m, name])));
+  const early = schedule.filter((game) => game.week <= 6);
+  assert.ok(early.every((game) => divisionOf.get(game.home) === divisionOf.get(game.away)));
+  const homeAway = new Set(early.map((game) => `${game.home}>${game.away}`));
+  assert.equal(homeAway.size, 24);
+  assert.equal(schedule.filter((game) => game.week === 13).length, 4);
+});
+
+test('buildLeague validates definitions and schedules games', () => {
+  const league = buildLeague(
+    { id: 'big-ten', season: 2024, schools: ['Michigan', 'Ohio State', 'Penn State', 'Iowa'], endWeek: 6, lineup: 'superflex' },
+    1700000000000,
+  );
+  assert.equal(league.scheduleType, 'round-robin');
+  assert.equal(league.format, 'ppr');
+  assert.equal(league.lineup, 'superflex');
+  assert.equal(league.schedule.length, 12);
+
+  assert.throws(() => buildLeague({ id: 'Bad Id', season: 2024, schools: ['A', 'B'] }), (error) => error.status === 400);
+  assert.throws(() => buildLeague({ id: 'dupes', season: 2024, schools: ['A', 'a'] }), (error) => error.status === 400);
+  assert.throws(() => buildLeague({ id: 'fmt', season: 2024, schools: ['A', 'B'], format: 'nope' }), (error) => error.status === 400);
+
+  const idpLeague = buildLeague({ id: 'idp', season: 2024, schools: ['A', 'B'], defense: 'idp', idp: { slots: { DB: 3 } } });
+  assert.deepEqual(idpLeague.idp.slots, { DL: 2, LB: 2, DB: 3 });
+  assert.equal(buildLeague({ id: 'dst', season: 2024, schools: ['A', 'B'] }).idp, undefined);
+  assert.throws(() => buildLeague({ id: 'def', season: 2024, schools: ['A', 'B'], defense: 'dst' }), (error) => error.status === 400);
+});
+
+test('computeStandings lists league schools without games', () => {
+  const standings = computeStandings(
+    [{ season: 2024, week: 1, format: 'ppr', mode: 'weekly', home: 'A', away: 'B', homePoints: 10, awayPoints: 5, winner: 'home', timestamp: 0 }],
+    ['A', 'B', 'C'],
+  );
+  assert.deepEqual(standings.map((row) => row.school), ['A', 'C', 'B']);
+});
+
+test('saveRecord upserts by match key and audits score corrections', async () => {
+  setLeagueStorage(createMemoryLeagueStorage());
+  try {
+    const base = { season: 2024, week: 3, format: 'ppr', mode: 'weekly', home: 'Alabama', away: 'LSU' };
+    const first = await saveRecord({ ...base, homePoints: 90, awayPoints: 80, winner: 'home', timestamp: 1 });
+    assert.equal(first.action, 'insert');
+    assert.equal(first.key, matchKey(base));
+
+    const repeat = await saveRecord({ ...base, homePoints: 90, awayPoints: 80, winner: 'home', timestamp: 2 });
+    assert.equal(repeat.action, 'unchanged');
+
+    const corrected = await saveRecord({ ...base, home: 'alabama', homePoints: 78.5, awayPoints: 80, winner: 'away', timestamp: 3 });
+    assert.equal(corrected.action, 'update');
+    assert.deepEqual(corrected.previous, { homePoints: 90, awayPoints: 80, winner: 'home' });
+
+    const records = await loadRecords();
+    assert.equal(records.length, 1);
+    const standings = computeStandings(records);
+    assert.equal(standings.find((row) => row.school.toLowerCase() === 'alabama').losses, 1);
+
+    const audit = await loadAuditTrail({ key: first.key });
+    assert.deepEqual(audit.map((entry) => entry.action), ['insert', 'update']);
+    assert.equal(audit[1].next.homePoints, 78.5);
+  } finally {
+    setLeagueStorage(null);
+  }
+});
+
+test('computeStandings ignores duplicate legacy records', () => {
+  const record = { season: 2024, week: 1, format: 'ppr', mode: 'weekly', home: 'A', away: 'B', homePoints: 10, awayPoints: 5, winner: 'home' };
+  const standings = computeStandings([
+    { ...record, timestamp: 1 },
+    { ...record, timestamp: 2, homePoints: 4, winner: 'away' },
+  ]);
+  const rowA = standings.find((row) => row.school === 'A');
+  assert.equal(rowA.wins + rowA.losses, 1);
+  assert.equal(rowA.losses, 1);
+});
+
+test('computeStandings reports streaks, splits, all-play and head-to-head order', () => {
+  const game = (week, home, away, homePoints, awayPoints) => ({
+    season: 2024,
+    week,
+    format: 'ppr',
+    mode: 'weekly',
+    home,
+    away,
+    homePoints,
+    awayPoints,
+    winner: homePoints > awayPoints ? 'home' : awayPoints > homePoints ? 'away' : 'tie',
+    timestamp: week,
+  });
+  const standings = computeStandings([
+    game(1, 'A', 'B', 100, 90),
+    game(1, 'C', 'D', 80, 70),
+    game(2, 'B', 'C', 95, 60),
+    game(2, 'D', 'A', 75, 50),
+    game(3, 'A', 'C', 110, 40),
+    game(3, 'B', 'D', 85, 120),
+  ]);
+  // A and D finish 2-1 and D beat A; B and C finish 1-2 and B beat C.
+  assert.deepEqual(standings.map((row) => row.school), ['D', 'A', 'B', 'C']);
+
+  const a = standings.find((row) => row.school === 'A');
+  assert.equal(a.streak, 'W1');
+  assert.deepEqual(a.home, { wins: 2, losses: 0, ties: 0 });
+  assert.deepEqual(a.away, { wins: 0, losses: 1, ties: 0 });
+  assert.deepEqual(a.headToHead.B, { wins: 1, losses: 0, ties: 0 });
+  assert.deepEqual(a.allPlay, { wins: 5, losses: 4, ties: 0 });
+  assert.equal(a.gamesBehind, 0);
+
+  const c = standings.find((row) => row.school === 'C');
+  assert.equal(c.streak, 'L2');
+  assert.deepEqual(c.lastFive, { wins: 1, losses: 2, ties: 0 });
+
+test('computeStandings skips head-to-head when the tied schools have not all met', () => {
+  const game = (week, home, away, homePoints, awayPoints) => ({
+    season: 2024,
+    week,
+    format: 'ppr',
+    mode: 'weekly',
+    home,
+    away,
+    homePoints,
+    awayPoints,
+    winner: homePoints > awayPoints ? 'home' : 'away',
+    timestamp: week,
+  });
+  const standings = computeStandings([
+    game(1, 'A', 'B', 100, 90),
+    game(2, 'B', 'A', 100, 90),
+    game(1, 'C', 'D', 150, 60),
+    game(2, 'E', 'C', 95, 90),
+  ]);
+  // A, B and C are all 1-1, but C never played A or B: point differential decides.
+  assert.deepEqual(
+    standings.filter((row) => ['A', 'B', 'C'].includes(row.school)).map((row) => row.school),
+    ['C', 'A', 'B'],
+  );
+});
+  assert.equal(c.gamesBehind, 1);
+  assert.equal(c.strengthOfSchedule, 0.556);
+});
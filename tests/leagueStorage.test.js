@@ -0,0 +1,193 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs/promises');
+const os = require('node:os');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+process.env.UPSTASH_REDIS_REST_URL = 'https://kv.test';
+process.env.UPSTASH_REDIS_REST_TOKEN = 'test-token';
+
+const { createFileLeagueStorage, createKvLeagueStorage, createMemoryLeagueStorage, setLeagueStorage } = loadTsModule(
+  path.resolve(__dirname, '../lib/leagueStorage.ts'),
+);
+const { loadRecords, saveRecord, saveLeague, buildLeague } = loadTsModule(path.resolve(__dirname, '../lib/league.ts'));
+
+const record = (week) => ({
+  season: 2024,
+  week,
+  format: 'ppr',
+  mode: 'weekly',
+  home: 'A',
+  away: 'B',
+  homePoints: week,
+  awayPoints: 0,
+  winner: 'home',
+  timestamp: week,
+});
+
+test('file storage keeps every record under concurrent writes', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'league-storage-'));
+  const file = path.join(dir, 'records.json');
+  try {
+    const storage = createFileLeagueStorage({ records: file });
+    await Promise.all(
+      Array.from({ length: 20 }, (_, index) => storage.update('records', (items) => [...items, record(index + 1)])),
+    );
+    const stored = JSON.parse(await fs.readFile(file, 'utf-8'));
+    assert.equal(stored.length, 20);
+    assert.deepEqual(
+      stored.map((row) => row.week).sort((a, b) => a - b),
+      Array.from({ length: 20 }, (_, index) => index + 1),
+    );
+    const leftovers = (await fs.readdir(dir)).filter((name) => name !== 'records.json');
+    assert.deepEqual(leftovers, []);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('file storage clears stale locks', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'league-storage-'));
+  const file = path.join(dir, 'records.json');
+  try {
+    const lockPath = `${file}.lock`;
+    await fs.writeFile(lockPath, '999999');
+    const old = new Date(Date.now() - 60_000);
+    await fs.utimes(lockPath, old, old);
+    const storage = createFileLeagueStorage({ records: file });
+    await storage.update('records', (items) => [...items, record(1)]);
+    assert.equal((await storage.read('records')).length, 1);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('file storage removes its lock when writing the lock file fails', async (t) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'league-storage-'));
+  const file = path.join(dir, 'records.json');
+  const originalOpen = fs.open;
+  t.after(async () => {
+    fs.open = originalOpen;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+  let failed = false;
+  fs.open = async (target, flags) => {
+    const handle = await originalOpen(target, flags);
+    if (target === `${file}.lock` && !failed) {
+      failed = true;
+      handle.writeFile = async () => {
+        throw new Error('disk full');
+      };
+    }
+    return handle;
+  };
+  const storage = createFileLeagueStorage({ records: file });
+  await assert.rejects(storage.update('records', (items) => [...items, record(1)]), /disk full/);
+  await assert.rejects(fs.stat(`${file}.lock`), { code: 'ENOENT' });
+
+  await storage.update('records', (items) => [...items, record(2)]);
+  assert.deepEqual((await storage.read('records')).map((row) => row.week), [2]);
+});
+
+test('league helpers read and write through the active storage', async () => {
+  const storage = createMemoryLeagueStorage();
+  setLeagueStorage(storage);
+  try {
+    await Promise.all([saveRecord(record(1)), saveRecord(record(2))]);
+    assert.equal((await loadRecords()).length, 2);
+
+    const league = buildLeague({ id: 'mem', season: 2024, schools: ['A', 'B'] });
+    await saveLeague(league);
+    await assert.rejects(saveLeague(league), (error) => error.status === 409);
+    assert.equal((await storage.read('leagues')).length, 1);
+  } finally {
+    setLeagueStorage(null);
+  }
+});
+
+/** Minimal Upstash REST stand-in; `failGets` makes the next GETs of a key answer 500. */
+const fakeKv = () => {
+  const store = new Map();
+  const failGets = new Map();
+  const fetch = async (url, init = {}) => {
+    const [command, rawKey, ...rest] = new URL(url).pathname.slice(1).split('/');
+    const key = decodeURIComponent(rawKey);
+    const reply = (result) => ({ ok: true, status: 200, json: async () => ({ result }) });
+    if (command === 'get') {
+      if (failGets.get(key)) {
+        failGets.set(key, failGets.get(key) - 1);
+        return { ok: false, status: 500, json: async () => ({}) };
+      }
+      return reply(store.has(key) ? store.get(key) : null);
+    }
+    if (command === 'set' && rest[1] === 'NX') {
+      if (store.has(key)) return reply(null);
+      store.set(key, decodeURIComponent(rest[0]));
+      return reply('OK');
+    }
+    if (command === 'set') {
+      store.set(key, JSON.parse(init.body).value);
+      return reply('OK');
+    }
+    if (command === 'del') return reply(store.delete(key) ? 1 : 0);
+    if (command === 'eval') {
+      // Only the compare-and-delete script that releases locks: eval/<script>/1/<key>/<token>.
+      const [, lockKey, token] = rest.map(decodeURIComponent);
+      if (store.get(lockKey) !== token) return reply(0);
+      store.delete(lockKey);
+      return reply(1);
+    }
+    throw new Error(`unexpected KV command ${command}`);
+  };
+  return { store, failGets, fetch };
+};
+
+test('kv storage refuses to write back a collection it failed to read', async (t) => {
+  const kv = fakeKv();
+  const originalFetch = global.fetch;
+  global.fetch = kv.fetch;
+  t.after(() => {
+    global.fetch = originalFetch;
+  });
+  const storage = createKvLeagueStorage('test');
+  await storage.update('records', (items) => [...items, record(1), record(2)]);
+
+  kv.failGets.set('test:records', 1);
+  let mutated = false;
+  await assert.rejects(
+    storage.update('records', (items) => {
+      mutated = true;
+      return [...items, record(3)];
+    }),
+    (error) => error.status === 502 && error.code === 'LEAGUE_STORAGE_UNAVAILABLE',
+  );
+  assert.equal(mutated, false);
+  assert.equal(JSON.parse(kv.store.get('test:records')).length, 2);
+  assert.equal(kv.store.has('test:records:lock'), false);
+
+  kv.failGets.set('test:records', 1);
+  await assert.rejects(storage.read('records'), { status: 502 });
+  assert.equal((await storage.read('records')).length, 2);
+});
+
+test('kv storage only releases the lock it still holds', async (t) => {
+  const kv = fakeKv();
+  const originalFetch = global.fetch;
+  global.fetch = kv.fetch;
+  t.after(() => {
+    global.fetch = originalFetch;
+  });
+  const storage = createKvLeagueStorage('test');
+  await storage.update('records', (items) => {
+    // The lock expired mid-update and another writer took it.
+    kv.store.set('test:records:lock', 'other-writer');
+    return [...items, record(1)];
+  });
+  assert.equal(kv.store.get('test:records:lock'), 'other-writer');
+
+  kv.store.delete('test:records:lock');
+  await storage.update('records', (items) => [...items, record(2)]);
+  assert.equal(kv.store.has('test:records:lock'), false);
+});
@@ -0,0 +1,43 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const { parseLineupParam, applyKickerPreference, resolveLineupTemplate } = loadTsModule(
+  path.resolve(__dirname, '../lib/lineups.ts'),
+);
+
+test('parseLineupParam accepts presets and JSON templates', () => {
+  const preset = parseLineupParam(new URL('http://localhost/api/scores?lineup=2QB'));
+  assert.equal(preset.name, '2qb');
+  assert.equal(preset.slots.find((slot) => slot.slot === 'QB').count, 2);
+
+  const template = JSON.stringify({
+    name: 'two-flex',
+    slots: [{ slot: 'qb' }, { slot: 'flex', eligible: ['rb', 'wr', 'te'], count: 2 }],
+  });
+  const custom = parseLineupParam(new URL(`http://localhost/api/scores?lineup=${encodeURIComponent(template)}`));
+  assert.equal(custom.name, 'two-flex');
+  assert.deepEqual(custom.slots, [
+    { slot: 'QB', eligible: ['QB'], count: 1 },
+    { slot: 'FLEX', eligible: ['RB', 'WR', 'TE'], count: 2 },
+  ]);
+});
+
+test('invalid lineups are rejected with a 400', () => {
+  assert.throws(() => parseLineupParam(new URL('http://localhost/api/scores?lineup=dynasty')), (error) => {
+    assert.equal(error.status, 400);
+    assert.equal(error.code, 'INVALID_LINEUP_TEMPLATE');
+    return true;
+  });
+  const badPosition = encodeURIComponent(JSON.stringify({ slots: [{ slot: 'IDP', eligible: ['LB'] }] }));
+  assert.throws(() => parseLineupParam(new URL(`http://localhost/api/scores?lineup=${badPosition}`)), (error) => error.status === 400);
+});
+
+test('applyKickerPreference removes kicker-only slots', () => {
+  const withoutK = applyKickerPreference(resolveLineupTemplate('bestball-10'), false);
+  assert.deepEqual(withoutK.slots[0].eligible, ['QB', 'RB', 'WR', 'TE']);
+  const standard = applyKickerPreference(resolveLineupTemplate('standard'), false);
+  assert.equal(standard.slots.some((slot) => slot.slot === 'K'), false);
+});
@@ -6,6 +6,9 @@ const { loadTsModule } = require('./helpers/loadTsModule');
 
 const {
   estimateNflWeekForDate,
+  isPostseasonWeek,
+  lastCompletedNflWeek,
+  nflWeekLabel,
   nflWeekWindowUtc,
   preseasonWeekCapForSeason,
 } = loadTsModule(path.resolve(__dirname, '../utils/nflWeek.ts'));
@@ -62,3 +65,27 @@ test('estimateNflWeekForDate retains regular season behavior', () => {
   assert.equal(estimate.startISO, window.startISO);
   assert.equal(estimate.endISO, window.endISO);
 });
+
+test('lastCompletedNflWeek advances through the playoffs and skips the Super Bowl bye', () => {
+  const at = (month, day) => lastCompletedNflWeek(new Date(Date.UTC(2026, month, day, 12)));
+  assert.deepEqual(at(0, 7), { season: 2025, week: 18 });
+  assert.deepEqual(at(0, 14), { season: 2025, week: 19 });
+  assert.deepEqual(at(0, 28), { season: 2025, week: 21 });
+  assert.deepEqual(at(1, 4), { season: 2025, week: 21 }, 'the bye week completes no round');
+  assert.deepEqual(at(1, 11), { season: 2025, week: 22 });
+  assert.deepEqual(at(6, 1), { season: 2025, week: 22 });
+
+  const superBowl = estimateNflWeekForDate(2025, new Date(Date.UTC(2026, 1, 8, 23, 30)));
+  assert.equal(superBowl.week, 22);
+  assert.deepEqual(nflWeekWindowUtc(2025, 22), { startISO: superBowl.startISO, endISO: superBowl.endISO });
+});
+
+test('nflWeekLabel names playoff rounds for both week numberings', () => {
+  assert.equal(nflWeekLabel(2025, 18), 'Week 18');
+  assert.equal(nflWeekLabel(2025, 19), 'Wild Card');
+  assert.equal(nflWeekLabel(2025, 22, { short: true }), 'SB');
+  assert.equal(nflWeekLabel(2020, 18), 'Wild Card', '17-game seasons start the playoffs a week earlier');
+  assert.equal(nflWeekLabel(2020, 21), 'Super Bowl');
+  assert.equal(isPostseasonWeek(2025, 18), false);
+  assert.equal(isPostseasonWeek(2025, 23), false);
+});
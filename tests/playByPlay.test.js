@@ -0,0 +1,90 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const zlib = require('node:zlib');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+test('play-by-play counts join into weekly stats only for rules that use them', async (t) => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nflverse-pbp-'));
+  const previousCacheDir = process.env.NFLVERSE_CACHE_DIR;
+  const previousNextCacheDir = process.env.NEXT_CACHE_DIR;
+  process.env.NFLVERSE_CACHE_DIR = tmpDir;
+  process.env.NEXT_CACHE_DIR = tmpDir;
+
+  const httpModule = loadTsModule(path.resolve(__dirname, '../lib/http.ts'));
+  const statsCsv = [
+    'season,week,player_id,player_display_name,team,position,passing_yards,passing_tds,rushing_yards,rushing_tds,receptions,receiving_yards,receiving_tds',
+    '2025,3,00-0030001,Deep Passer,CIN,QB,250,2,0,0,0,0,0',
+    '2025,3,00-0030002,Deep Target,CIN,WR,0,0,0,0,4,90,1',
+    '2025,3,00-0030003,Goal Line Back,CIN,RB,0,0,45,2,0,0,0',
+  ].join('\n');
+  const statsBuffer = zlib.gzipSync(Buffer.from(statsCsv, 'utf8'));
+  const pbpCsv = [
+    'season,week,play_type,passer_player_id,rusher_player_id,receiver_player_id,yards_gained,pass_touchdown,rush_touchdown,complete_pass,rush_attempt,yardline_100,first_down_pass,first_down_rush,two_point_attempt',
+    '2025,3,pass,00-0030001,NA,00-0030002,52,1,0,1,0,52,1,0,0',
+    '2025,3,pass,00-0030001,NA,00-0030002,12,1,0,1,0,12,1,0,0',
+    '2025,3,run,NA,00-0030003,NA,41,0,1,0,1,41,0,1,0',
+    '2025,3,run,NA,00-0030003,NA,3,0,1,0,1,3,0,1,0',
+    '2025,3,run,NA,00-0030003,NA,2,0,0,0,1,2,0,0,1',
+    '2025,3,no_play,NA,NA,NA,0,0,0,0,0,NA,0,0,0',
+  ].join('\n');
+  const pbpUrl = 'https://example.com/play_by_play_2025.csv.gz';
+  const pbpBuffer = zlib.gzipSync(Buffer.from(pbpCsv, 'utf8'));
+
+  const originalFetchBuffer = httpModule.fetchBuffer;
+  httpModule.fetchBuffer = async (url, init) => {
+    if (url.includes('stats_player_week_2025')) {
+      if (init?.method === 'HEAD') return Buffer.alloc(0);
+      return statsBuffer;
+    }
+    if (url.includes('/releases/tags/pbp')) {
+      return Buffer.from(JSON.stringify({ assets: [{ name: 'play_by_play_2025.csv.gz', browser_download_url: pbpUrl }] }));
+    }
+    if (url === pbpUrl) {
+      if (init?.method === 'HEAD') return Buffer.alloc(0);
+      return pbpBuffer;
+    }
+    throw new Error(`Unexpected fetchBuffer call for ${url}`);
+  };
+
+  t.after(() => {
+    httpModule.fetchBuffer = originalFetchBuffer;
+    if (previousCacheDir === undefined) delete process.env.NFLVERSE_CACHE_DIR;
+    else process.env.NFLVERSE_CACHE_DIR = previousCacheDir;
+    if (previousNextCacheDir === undefined) delete process.env.NEXT_CACHE_DIR;
+    else process.env.NEXT_CACHE_DIR = previousNextCacheDir;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const { fetchWeeklyScoringStats, computeFantasyPoints } = loadTsModule(path.resolve(__dirname, '../lib/nflverse.ts'));
+  const { buildCustomScoringRules, rulesUsePlayByPlay } = loadTsModule(path.resolve(__dirname, '../lib/scoringRules.ts'));
+
+  const plain = await fetchWeeklyScoringStats(2025, 3, 'ppr');
+  assert.equal(plain.find((row) => row.name === 'Deep Target').receiving_tds_40_plus, 0, 'presets skip the join');
+
+  const rules = buildCustomScoringRules({
+    base: 'ppr',
+    weights: { receiving_tds_40_plus: 2, rushing_tds_40_plus: 2, passing_tds_40_plus: 1 },
+    bonuses: [{ stat: 'red_zone_touches', threshold: 2, points: 1 }],
+  });
+  assert.equal(rulesUsePlayByPlay(rules), true);
+
+  const rows = await fetchWeeklyScoringStats(2025, 3, rules);
+  const passer = rows.find((row) => row.name === 'Deep Passer');
+  const target = rows.find((row) => row.name === 'Deep Target');
+  const back = rows.find((row) => row.name === 'Goal Line Back');
+
+  assert.equal(passer.passing_tds_40_plus, 1);
+  assert.equal(passer.passing_first_downs, 2, 'first downs backfill when the weekly asset lacks them');
+  assert.equal(target.receiving_tds_40_plus, 1);
+  assert.equal(target.red_zone_touches, 1);
+  assert.equal(back.rushing_tds_40_plus, 1);
+  assert.equal(back.red_zone_touches, 1, 'two-point tries are not touches');
+  assert.equal(back.rushing_first_downs, 2);
+
+  assert.equal(computeFantasyPoints(target, rules, 'WR'), 4 + 9 + 6 + 2);
+  assert.equal(computeFantasyPoints(back, rules, 'RB'), 4.5 + 12 + 2);
+});
@@ -0,0 +1,70 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const zlib = require('node:zlib');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+test('a failed play-by-play load is retried and keys the aggregate cache once it lands', async (t) => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nflverse-pbp-retry-'));
+  const previousCacheDir = process.env.NFLVERSE_CACHE_DIR;
+  const previousNextCacheDir = process.env.NEXT_CACHE_DIR;
+  process.env.NFLVERSE_CACHE_DIR = tmpDir;
+  process.env.NEXT_CACHE_DIR = tmpDir;
+
+  const httpModule = loadTsModule(path.resolve(__dirname, '../lib/http.ts'));
+  const statsCsv = [
+    'season,week,player_id,player_display_name,team,position,receptions,receiving_yards,receiving_tds',
+    '2024,5,00-0030002,Deep Target,CIN,WR,4,90,1',
+  ].join('\n');
+  const statsBuffer = zlib.gzipSync(Buffer.from(statsCsv, 'utf8'));
+  // Columns scoring never reads (`desc`, with quoted commas) are dropped while parsing.
+  const pbpCsv = [
+    'season,week,desc,passer_player_id,rusher_player_id,receiver_player_id,yards_gained,pass_touchdown,rush_touchdown,complete_pass,rush_attempt,yardline_100,first_down_pass,first_down_rush,two_point_attempt',
+    '2024,5,"(9:12) J.Burrow pass deep right to D.Target, 52 yards, TOUCHDOWN",00-0030001,NA,00-0030002,52,1,0,1,0,52,1,0,0',
+  ].join('\n');
+  const pbpUrl = 'https://example.com/play_by_play_2024.csv.gz';
+  const pbpBuffer = zlib.gzipSync(Buffer.from(pbpCsv, 'utf8'));
+  let pbpAvailable = false;
+
+  const originalFetchBuffer = httpModule.fetchBuffer;
+  httpModule.fetchBuffer = async (url, init) => {
+    if (url.includes('stats_player_week_2024')) {
+      if (init?.method === 'HEAD') return Buffer.alloc(0);
+      return statsBuffer;
+    }
+    if (url.includes('/releases/tags/pbp')) {
+      return Buffer.from(JSON.stringify({ assets: [{ name: 'play_by_play_2024.csv.gz', browser_download_url: pbpUrl }] }));
+    }
+    if (url === pbpUrl) {
+      if (!pbpAvailable) throw new Error('pbp asset unavailable');
+      if (init?.method === 'HEAD') return Buffer.alloc(0);
+      return pbpBuffer;
+    }
+    throw new Error(`Unexpected fetchBuffer call for ${url}`);
+  };
+
+  t.after(() => {
+    httpModule.fetchBuffer = originalFetchBuffer;
+    if (previousCacheDir === undefined) delete process.env.NFLVERSE_CACHE_DIR;
+    else process.env.NFLVERSE_CACHE_DIR = previousCacheDir;
+    if (previousNextCacheDir === undefined) delete process.env.NEXT_CACHE_DIR;
+    else process.env.NEXT_CACHE_DIR = previousNextCacheDir;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const { fetchWeeklyScoringStats, playByPlaySourceKey } = loadTsModule(path.resolve(__dirname, '../lib/nflverse.ts'));
+  const { buildCustomScoringRules } = loadTsModule(path.resolve(__dirname, '../lib/scoringRules.ts'));
+  const rules = buildCustomScoringRules({ base: 'ppr', weights: { receiving_tds_40_plus: 2 } });
+
+  const before = await fetchWeeklyScoringStats(2024, 5, rules);
+  assert.equal(before.find((row) => row.name === 'Deep Target').receiving_tds_40_plus, 0);
+  assert.equal(await playByPlaySourceKey(2024), 'none');
+
+  pbpAvailable = true;
+  const after = await fetchWeeklyScoringStats(2024, 5, rules);
+  assert.equal(after.find((row) => row.name === 'Deep Target').receiving_tds_40_plus, 1, 'the unjoined fallback is not kept');
+  assert.match(await playByPlaySourceKey(2024), /^[0-9a-f]{16}$/);
+});
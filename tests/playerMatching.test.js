@@ -0,0 +1,65 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const { canonicalPlayerName, scorePlayerCandidate, bestFuzzyMatch, isUncertainMatch } = loadTsModule(
+  path.resolve(__dirname, '../lib/playerMatching.ts'),
+);
+const { buildPlayersLookup, matchPlayerRow } = loadTsModule(path.resolve(__dirname, '../lib/playersMaster.ts'));
+
+test('canonicalPlayerName folds initials, suffixes, accents and nicknames', () => {
+  assert.deepEqual(canonicalPlayerName('D.J. Moore'), { first: 'dj', last: 'moore' });
+  assert.deepEqual(canonicalPlayerName('DJ Moore Jr.'), { first: 'dj', last: 'moore' });
+  assert.deepEqual(canonicalPlayerName("Ja'Marr Chase"), { first: 'jamarr', last: 'chase' });
+  assert.deepEqual(canonicalPlayerName('Amon-Ra St. Brown'), { first: 'amonra', last: 'stbrown' });
+  assert.deepEqual(canonicalPlayerName('Mike Evans'), canonicalPlayerName('Michael Evans'));
+  assert.deepEqual(canonicalPlayerName('Pierre Garçon III'), { first: 'pierre', last: 'garcon' });
+});
+
+test('scorePlayerCandidate weighs first name, team history, position and draft year', () => {
+  const row = { full_name: 'Jalen Hurts', team: 'PHI', position: 'QB', draft_year: '2020', draft_team: 'PHI' };
+  assert.equal(scorePlayerCandidate({ name: 'Jalen Hurts', team: 'PHI', position: 'QB', draftYear: 2020 }, row), 1);
+  assert.equal(scorePlayerCandidate({ name: 'J. Hurts', team: 'PHI', position: 'QB' }, row), 0.75);
+  assert.equal(scorePlayerCandidate({ name: 'Jalen Hurts', team: 'DAL', position: 'QB' }, row), 0.7);
+  assert.equal(scorePlayerCandidate({ name: 'Jalen Hurts', team: 'DAL', teams: ['PHI'], position: 'QB' }, row), 0.85);
+  assert.equal(scorePlayerCandidate({ name: 'Jalen Hurts', team: 'PHI', draftYear: 2016 }, row), 0.7);
+  assert.equal(scorePlayerCandidate({ name: 'Kevin Hurts', team: 'PHI', position: 'QB' }, row), 0);
+  assert.equal(scorePlayerCandidate({ name: 'Jalen Hurt', team: 'PHI', position: 'QB' }, row), 0);
+});
+
+test('bestFuzzyMatch rejects low scores and near ties', () => {
+  const a = { full_name: 'Josh Allen', team: 'BUF', position: 'QB' };
+  const b = { full_name: 'Josh Allen', team: 'JAX', position: 'DE' };
+  assert.equal(bestFuzzyMatch({ name: 'Joshua Allen', team: 'JAX', position: 'DE' }, [a, b]).row, b);
+  assert.equal(bestFuzzyMatch({ name: 'Joshua Allen' }, [a, b]), null);
+  assert.equal(bestFuzzyMatch({ name: 'J. Allen', team: 'BUF', position: 'QB' }, [a, b], 0.8), null);
+});
+
+test('matchPlayerRow reports the method and applies the threshold', () => {
+  const lookup = buildPlayersLookup([
+    { gsis_id: '00-0034827', full_name: 'DJ Moore', team: 'CHI', position: 'WR' },
+    { gsis_id: '00-0033559', full_name: 'Jalen Hurts', team: 'PHI', position: 'QB' },
+  ]);
+
+  assert.deepEqual(matchPlayerRow({ player_id: '00-0033559' }, lookup).match, { method: 'id', confidence: 1 });
+  assert.deepEqual(matchPlayerRow({ player_name: 'jalen hurts', team: 'phi' }, lookup).match, {
+    method: 'name-team',
+    confidence: 0.95,
+  });
+  assert.deepEqual(matchPlayerRow({ player_name: 'Jalen Hurts', team: 'NYG' }, lookup).match, {
+    method: 'name',
+    confidence: 0.8,
+  });
+
+  const fuzzy = matchPlayerRow({ player_id: 'unknown', player_name: 'D.J. Moore', team: 'CHI', position: 'WR' }, lookup);
+  assert.equal(fuzzy.row.gsis_id, '00-0034827');
+  assert.deepEqual(fuzzy.match, { method: 'fuzzy', confidence: 0.95 });
+  assert.equal(isUncertainMatch(fuzzy.match), false);
+
+  const strict = matchPlayerRow({ player_name: 'Jalen Hurts', team: 'NYG' }, lookup, 0.9);
+  assert.equal(strict.row, undefined);
+  assert.deepEqual(strict.match, { method: 'none', confidence: 0 });
+  assert.equal(isUncertainMatch({ method: 'name', confidence: 0.8 }), true);
+});
@@ -0,0 +1,60 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const zlib = require('node:zlib');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+test('weekly player stats ingest conversions, return TDs, misses and kick distance', async (t) => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nflverse-columns-'));
+  const previousCacheDir = process.env.NFLVERSE_CACHE_DIR;
+  const previousNextCacheDir = process.env.NEXT_CACHE_DIR;
+  process.env.NFLVERSE_CACHE_DIR = tmpDir;
+  process.env.NEXT_CACHE_DIR = tmpDir;
+
+  const httpModule = loadTsModule(path.resolve(__dirname, '../lib/http.ts'));
+  const statsCsv = [
+    'season,week,player_id,player_display_name,team,position,receptions,receiving_yards,receiving_2pt_conversions,kick_return_tds,punt_return_tds,special_teams_tds,fg_made,fg_att,fg_made_40_49,fg_made_60_,pat_made,pat_missed',
+    '2025,2,00-0036900,Ret Man,DET,WR,3,40,1,1,1,2,0,0,0,0,0,0',
+    '2025,2,00-0033000,Boot Guy,BAL,K,0,0,0,0,0,0,3,4,1,1,4,1',
+  ].join('\n');
+  const statsBuffer = zlib.gzipSync(Buffer.from(statsCsv, 'utf8'));
+
+  const originalFetchBuffer = httpModule.fetchBuffer;
+  httpModule.fetchBuffer = async (url, init) => {
+    if (url.includes('stats_player_week_2025')) {
+      if (init?.method === 'HEAD') return Buffer.alloc(0);
+      return statsBuffer;
+    }
+    throw new Error(`Unexpected fetchBuffer call for ${url}`);
+  };
+
+  t.after(() => {
+    httpModule.fetchBuffer = originalFetchBuffer;
+    if (previousCacheDir === undefined) delete process.env.NFLVERSE_CACHE_DIR;
+    else process.env.NFLVERSE_CACHE_DIR = previousCacheDir;
+    if (previousNextCacheDir === undefined) delete process.env.NEXT_CACHE_DIR;
+    else process.env.NEXT_CACHE_DIR = previousNextCacheDir;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const { fetchWeeklyPlayerStats, computeFantasyPoints } = loadTsModule(path.resolve(__dirname, '../lib/nflverse.ts'));
+  const rows = await fetchWeeklyPlayerStats(2025, 2);
+  const returner = rows.find((row) => row.name === 'Ret Man');
+  const kicker = rows.find((row) => row.name === 'Boot Guy');
+
+  assert.equal(returner.receiving_2pt_conversions, 1);
+  assert.equal(returner.return_tds, 2, 'kick and punt return TDs are summed');
+  assert.equal(computeFantasyPoints(returner, 'ppr', 'WR'), 3 + 4);
+  assert.equal(computeFantasyPoints(returner, 'ppr-extras', 'WR'), 3 + 4 + 2 + 12);
+
+  assert.equal(kicker.field_goals_made, 3);
+  assert.equal(kicker.field_goals_missed, 1, 'misses fall back to attempts minus makes');
+  assert.equal(kicker.extra_points_made, 4);
+  assert.equal(kicker.extra_points_missed, 1);
+  assert.equal(kicker.field_goals_made_40_49, 1);
+  assert.equal(kicker.field_goals_made_60_plus, 1);
+  assert.equal(kicker.field_goals_made_0_19, 0);
+});
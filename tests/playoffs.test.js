@@ -0,0 +1,59 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const { bracketOrder, parsePlayoffOptions, seedStandings } = loadTsModule(path.resolve(__dirname, '../lib/playoffs.ts'));
+const { computeStandings } = loadTsModule(path.resolve(__dirname, '../lib/league.ts'));
+
+const game = (week, home, away, homePoints, awayPoints) => ({
+  season: 2024,
+  week,
+  format: 'ppr',
+  mode: 'weekly',
+  home,
+  away,
+  homePoints,
+  awayPoints,
+  winner: homePoints > awayPoints ? 'home' : awayPoints > homePoints ? 'away' : 'tie',
+  timestamp: week,
+  league: 'test',
+});
+
+test('bracketOrder keeps top seeds apart until the final', () => {
+  assert.deepEqual(bracketOrder(2), [1, 2]);
+  assert.deepEqual(bracketOrder(4), [1, 4, 2, 3]);
+  assert.deepEqual(bracketOrder(8), [1, 8, 4, 5, 2, 7, 3, 6]);
+});
+
+test('seedStandings breaks ties by head-to-head before points-for', () => {
+  const records = [game(1, 'A', 'B', 40, 50), game(2, 'C', 'D', 100, 10), game(3, 'A', 'D', 60, 5), game(4, 'B', 'C', 10, 20)];
+  const standings = computeStandings(records, ['A', 'B', 'C', 'D']);
+  const byPoints = seedStandings(standings, { tiebreakers: ['points-for'] });
+  assert.deepEqual(byPoints.slice(0, 3).map((row) => row.school), ['C', 'A', 'B']);
+  const byHeadToHead = seedStandings(standings, { tiebreakers: ['head-to-head', 'points-for'] });
+  assert.deepEqual(byHeadToHead.slice(0, 3).map((row) => row.school), ['C', 'B', 'A']);
+});
+
+test('seedStandings can favour division winners', () => {
+  const records = [game(1, 'A', 'C', 30, 10), game(1, 'B', 'D', 90, 80), game(2, 'B', 'A', 95, 20), game(2, 'D', 'C', 85, 15)];
+  const standings = computeStandings(records, ['A', 'B', 'C', 'D']);
+  const divisions = { East: ['A', 'C'], West: ['B', 'D'] };
+  const seeds = seedStandings(standings, { tiebreakers: ['division', 'points-for'], divisions });
+  // A and D are both 1-1; D scored more but A won the East.
+  const east = seeds.find((row) => row.school === 'A');
+  assert.equal(east.division, 'East');
+  assert.equal(east.divisionWinner, true);
+  assert.equal(seeds.find((row) => row.school === 'D').divisionWinner, false);
+  assert.ok(east.seed < seeds.find((row) => row.school === 'D').seed);
+});
+
+test('parsePlayoffOptions validates team counts and tiebreakers', () => {
+  assert.deepEqual(parsePlayoffOptions({ teams: 6, tiebreakers: ['points-for', 'points-for'] }), {
+    teams: 6,
+    tiebreakers: ['points-for'],
+  });
+  assert.throws(() => parsePlayoffOptions({ teams: 12 }), (error) => error.status === 400);
+  assert.throws(() => parsePlayoffOptions({ tiebreakers: ['coin-flip'] }), (error) => error.status === 400);
+});
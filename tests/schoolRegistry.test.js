@@ -0,0 +1,51 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const { conferenceFor, listSchools, resolveSchool, sameSchool, schoolDisplayName, schoolSlug } = loadTsModule(
+  path.resolve(__dirname, '../lib/schoolRegistry.ts'),
+);
+const { normalizeSchool } = loadTsModule(path.resolve(__dirname, '../utils/schoolNames.ts'));
+
+test('resolveSchool matches names, slugs, ids and aliases', () => {
+  assert.equal(resolveSchool('miami-fl').name, 'Miami (FL)');
+  assert.equal(resolveSchool('Miami').id, 'miami-fl');
+  assert.equal(resolveSchool('Miami (Ohio)').name, 'Miami (OH)');
+  assert.equal(resolveSchool('Southern California').name, 'USC');
+  assert.equal(resolveSchool('Ohio St.').name, 'Ohio State');
+  assert.equal(resolveSchool('Mississippi').name, 'Ole Miss');
+  assert.equal(resolveSchool('Louisiana-Monroe').name, 'UL Monroe');
+  assert.equal(resolveSchool('North Dakota St.').level, 'FCS');
+  assert.equal(resolveSchool('Nowhere Tech'), null);
+  assert.equal(schoolDisplayName('  Nowhere   Tech '), 'Nowhere Tech');
+  assert.equal(normalizeSchool('texas-a-m'), 'Texas A&M');
+});
+
+test('registry ids and slugs are unique', () => {
+  const schools = listSchools();
+  assert.equal(new Set(schools.map((school) => school.id)).size, schools.length);
+  assert.equal(new Set(schools.map((school) => school.slug)).size, schools.length);
+  for (const school of schools) assert.equal(schoolSlug(school.name), school.slug);
+});
+
+test('conferenceFor follows realignment by season', () => {
+  assert.equal(conferenceFor('Texas', 2023), 'Big 12');
+  assert.equal(conferenceFor('Texas', 2024), 'SEC');
+  assert.equal(conferenceFor('Utah', 2010), 'Mountain West');
+  assert.equal(conferenceFor('Utah', 2015), 'Pac-12');
+  assert.equal(conferenceFor('UTSA', 2011), null);
+  assert.equal(conferenceFor('Boise State', 2025), 'Mountain West');
+  assert.equal(conferenceFor('Boise State', 2026), 'Pac-12');
+  assert.equal(conferenceFor('Sam Houston State', 2022), 'WAC');
+  assert.equal(conferenceFor('Sam Houston State', 2023), 'Conference USA');
+  assert.equal(conferenceFor('UMass', 2025), 'MAC');
+  assert.equal(conferenceFor('Nowhere Tech', 2024), null);
+});
+
+test('sameSchool compares through the registry', () => {
+  assert.equal(sameSchool('Pitt', 'Pittsburgh'), true);
+  assert.equal(sameSchool('Miami', 'Miami (OH)'), false);
+  assert.equal(sameSchool('Some College', 'some college'), true);
+});
@@ -5,6 +5,7 @@ const path = require('node:path');
 const { loadTsModule } = require('./helpers/loadTsModule');
 
 const { aggregateByCollegeMode } = loadTsModule(path.resolve(__dirname, '../lib/scoring.ts'));
+const { allocateCollegeCredit, lookupCollegeHistory } = loadTsModule(path.resolve(__dirname, '../lib/collegeAllocation.ts'));
 
 test('aggregateByCollegeMode splits semicolon-separated colleges', async () => {
   const leaders = [
@@ -122,3 +123,162 @@ test('aggregateByCollegeMode normalizes school names consistently', async () =>
     'expected Miami performers to use normalized name',
   );
 });
+
+test('aggregateByCollegeMode fills lineup templates and reports slots', async () => {
+  const leaders = [
+    { player_id: '300', full_name: 'QB One', position: 'QB', team: 'BUF', points: 24, college: 'Template U' },
+    { player_id: '301', full_name: 'QB Two', position: 'QB', team: 'BUF', points: 18, college: 'Template U' },
+    { player_id: '302', full_name: 'RB One', position: 'RB', team: 'BUF', points: 12, college: 'Template U' },
+    { player_id: '303', full_name: 'RB Two', position: 'RB', team: 'BUF', points: 8, college: 'Template U' },
+    { player_id: '304', full_name: 'WR One', position: 'WR', team: 'BUF', points: 15, college: 'Template U' },
+    { player_id: '305', full_name: 'WR Two', position: 'WR', team: 'BUF', points: 11, college: 'Template U' },
+    { player_id: '306', full_name: 'WR Three', position: 'WR', team: 'BUF', points: 9, college: 'Template U' },
+    { player_id: '307', full_name: 'TE One', position: 'TE', team: 'BUF', points: 5, college: 'Template U' },
+    { player_id: '308', full_name: 'Kicker', position: 'K', team: 'BUF', points: 7, college: 'Template U' },
+  ];
+
+  const [standard] = await aggregateByCollegeMode(leaders, 1, 'ppr', 'weekly', undefined, {
+    includeK: true,
+    defense: 'none',
+  });
+  assert.equal(standard.totalPoints, 91);
+  assert.deepEqual(
+    standard.performers.map((player) => `${player.slot}:${player.name}`),
+    ['QB:QB One', 'TE:TE One', 'WR:WR One', 'WR:WR Two', 'RB:RB One', 'RB:RB Two', 'K:Kicker', 'FLEX:WR Three'],
+  );
+
+  const [superflex] = await aggregateByCollegeMode(leaders, 1, 'ppr', 'weekly', undefined, {
+    includeK: false,
+    defense: 'none',
+    lineup: 'superflex',
+  });
+  assert.equal(superflex.totalPoints, 102);
+  const superflexSlot = superflex.performers.find((player) => player.slot === 'SUPERFLEX');
+  assert.equal(superflexSlot?.name, 'QB Two');
+  assert.equal(superflex.performers.some((player) => player.position === 'K'), false);
+
+  const [bestBall] = await aggregateByCollegeMode(leaders, 1, 'ppr', 'weekly', undefined, {
+    includeK: true,
+    defense: 'none',
+    lineup: 'bestball-10',
+  });
+  assert.equal(bestBall.performers.length, 9);
+  assert.ok(bestBall.performers.every((player) => player.slot === 'BEST'));
+});
+
+test('aggregateByCollegeMode solves overlapping flex slots optimally', async () => {
+  // Filling "R/W" first with the best eligible player (the WR) strands "W/T"
+  // with the TE; the optimal lineup moves the WR to "W/T" and starts the RB.
+  const lineup = {
+    name: 'overlap',
+    slots: [
+      { slot: 'R/W', eligible: ['RB', 'WR'], count: 1 },
+      { slot: 'W/T', eligible: ['WR', 'TE'], count: 1 },
+    ],
+  };
+  const leaders = [
+    { player_id: '400', full_name: 'Overlap WR', position: 'WR', team: 'DET', points: 10, college: 'Overlap State' },
+    { player_id: '401', full_name: 'Overlap RB', position: 'RB', team: 'DET', points: 8, college: 'Overlap State' },
+    { player_id: '402', full_name: 'Overlap TE', position: 'TE', team: 'DET', points: 1, college: 'Overlap State' },
+  ];
+
+  const [row] = await aggregateByCollegeMode(leaders, 1, 'ppr', 'weekly', undefined, {
+    includeK: false,
+    defense: 'none',
+    lineup,
+  });
+  assert.equal(row.totalPoints, 18);
+  assert.deepEqual(
+    row.performers.map((player) => `${player.slot}:${player.name}`),
+    ['R/W:Overlap RB', 'W/T:Overlap WR'],
+  );
+});
+
+test('aggregateByCollegeMode solves slots on averages but totals weekly points', async () => {
+  // A best-first fill would put the TE (highest average) in FLEX and leave the
+  // dedicated TE slot empty.
+  const lineup = {
+    name: 'te-flex',
+    slots: [
+      { slot: 'TE', eligible: ['TE'], count: 1 },
+      { slot: 'FLEX', eligible: ['WR', 'TE'], count: 1 },
+    ],
+  };
+  const leaders = [
+    { player_id: '500', full_name: 'Only TE', position: 'TE', team: 'SEA', points: 2, college: 'Flex Tech' },
+    { player_id: '501', full_name: 'Flex WR', position: 'WR', team: 'SEA', points: 9, college: 'Flex Tech' },
+  ];
+  const averages = { '500': 14, '501': 3 };
+
+  const [row] = await aggregateByCollegeMode(leaders, 4, 'ppr', 'avg', averages, {
+    includeK: false,
+    defense: 'none',
+    lineup,
+  });
+  assert.deepEqual(
+    row.performers.map((player) => `${player.slot}:${player.name}`),
+    ['TE:Only TE', 'FLEX:Flex WR'],
+  );
+  assert.equal(row.totalPoints, 11);
+});
+
+test('aggregateByCollegeMode breaks ties by player_id', async () => {
+  const lineup = { name: 'one-wr', slots: [{ slot: 'WR', eligible: ['WR'], count: 1 }] };
+  const leaders = [
+    { player_id: '20', full_name: 'Later Id', position: 'WR', team: 'NYJ', points: 7, college: 'Tie U' },
+    { player_id: '3', full_name: 'Earlier Id', position: 'WR', team: 'NYJ', points: 7, college: 'Tie U' },
+  ];
+
+  const [row] = await aggregateByCollegeMode(leaders, 1, 'ppr', 'weekly', undefined, {
+    includeK: false,
+    defense: 'none',
+    lineup,
+  });
+  assert.equal(row.performers.length, 1);
+  assert.equal(row.performers[0].name, 'Earlier Id');
+
+  const [reversed] = await aggregateByCollegeMode([...leaders].reverse(), 1, 'ppr', 'weekly', undefined, {
+    includeK: false,
+    defense: 'none',
+    lineup,
+  });
+  assert.equal(reversed.performers[0].name, 'Earlier Id');
+});
+
+test('aggregateByCollegeMode applies the college allocation policy to transfers', async () => {
+  const leaders = [
+    { player_id: '1', full_name: 'Transfer QB', position: 'QB', team: 'PHI', points: 20, college: 'School A; School B' },
+    { player_id: '2', full_name: 'Runner A', position: 'RB', team: 'PHI', points: 10, college: 'School A' },
+    { player_id: '3', full_name: 'Runner B', position: 'RB', team: 'PHI', points: 12, college: 'School B' },
+  ];
+  const run = (allocation) =>
+    aggregateByCollegeMode(leaders, 1, 'ppr', 'weekly', undefined, { includeK: false, defense: 'none', allocation });
+
+  const final = await run('final');
+  assert.equal(final.find((row) => row.school === 'School A').totalPoints, 10);
+  assert.equal(final.find((row) => row.school === 'School B').totalPoints, 32);
+
+  const first = await run('first');
+  assert.equal(first.find((row) => row.school === 'School A').totalPoints, 30);
+
+  const fractional = await run('fractional');
+  const schoolA = fractional.find((row) => row.school === 'School A');
+  assert.equal(schoolA.totalPoints, 20);
+  const qb = schoolA.performers.find((player) => player.name === 'Transfer QB');
+  assert.equal(qb.points, 10);
+  assert.deepEqual(qb.meta.allocation, { policy: 'fractional', colleges: ['School A', 'School B'], share: 0.5 });
+});
+
+test('allocateCollegeCredit weights by games played from the history table', () => {
+  const history = [
+    { school: 'Alabama', games: 42 },
+    { school: 'Oklahoma', games: 14 },
+  ];
+  assert.deepEqual(allocateCollegeCredit(['Alabama', 'Oklahoma'], 'most-games', history), [{ college: 'Alabama', share: 1 }]);
+  assert.deepEqual(allocateCollegeCredit(['Alabama', 'Oklahoma'], 'most-games', null), [{ college: 'Oklahoma', share: 1 }]);
+  assert.deepEqual(
+    allocateCollegeCredit(['Alabama', 'Oklahoma'], 'fractional', history).map((entry) => entry.share),
+    [0.75, 0.25],
+  );
+  assert.equal(lookupCollegeHistory({ player_id: 'x', full_name: 'Jalen Hurts' }).length, 2);
+});
@@ -0,0 +1,95 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const {
+  scoreStatLine,
+  resolveScoringRules,
+  parseScoringParams,
+  scoringRulesKey,
+} = loadTsModule(path.resolve(__dirname, '../lib/scoringRules.ts'));
+
+const statLine = {
+  passing_yards: 310,
+  passing_tds: 2,
+  interceptions: 1,
+  rushing_yards: 20,
+  rushing_tds: 0,
+  rushing_first_downs: 2,
+  receptions: 6,
+  receiving_yards: 80,
+  receiving_tds: 1,
+  receiving_first_downs: 4,
+  fumbles_lost: 0,
+  field_goals_made: 0,
+  extra_points_made: 0,
+};
+
+test('preset formats apply their stat weights and bonuses', () => {
+  assert.equal(scoreStatLine(statLine, 'standard'), 34.4);
+  assert.equal(scoreStatLine(statLine, 'half-ppr'), 37.4);
+  assert.equal(scoreStatLine(statLine, 'ppr'), 40.4);
+  assert.equal(scoreStatLine(statLine, 'ppr-6pt-pass'), 44.4);
+  assert.equal(scoreStatLine(statLine, 'half-ppr-first-downs'), 40.4);
+  assert.equal(scoreStatLine(statLine, 'ppr-bonus'), 43.4);
+});
+
+test('position weights only apply to the matching position', () => {
+  assert.equal(scoreStatLine(statLine, 'te-premium', 'TE'), 43.4);
+  assert.equal(scoreStatLine(statLine, 'te-premium', 'WR'), 40.4);
+  assert.equal(scoreStatLine({ ...statLine, position: 'te' }, 'te-premium'), 43.4);
+});
+
+test('unknown formats are rejected with a 400', () => {
+  assert.throws(() => resolveScoringRules('superflex'), (error) => {
+    assert.equal(error.status, 400);
+    assert.equal(error.code, 'INVALID_SCORING_RULES');
+    assert.match(error.message, /format must be one of/);
+    return true;
+  });
+  const url = new URL('http://localhost/api/scores?format=bogus');
+  assert.throws(() => parseScoringParams(url), (error) => error.status === 400);
+});
+
+test('custom rules extend the requested preset', () => {
+  const rules = JSON.stringify({
+    weights: { passing_tds: 5 },
+    bonuses: [{ stat: 'receiving_yards', threshold: 75, points: 2 }],
+  });
+  const url = new URL(`http://localhost/api/scores?format=half-ppr&rules=${encodeURIComponent(rules)}`);
+  const parsed = parseScoringParams(url);
+  assert.equal(parsed.format, 'custom');
+  assert.equal(parsed.rules.weights.receptions, 0.5);
+  assert.equal(scoreStatLine(statLine, parsed.rules), 41.4);
+  assert.notEqual(scoringRulesKey(parsed.rules), 'custom');
+  assert.equal(scoringRulesKey(parsed.rules), scoringRulesKey(parseScoringParams(url).rules));
+  assert.equal(scoringRulesKey(resolveScoringRules('ppr')), 'ppr');
+
+  const invalid = new URL(`http://localhost/api/scores?rules=${encodeURIComponent('{"weights":{"tackles":1}}')}`);
+  assert.throws(() => parseScoringParams(invalid), (error) => error.status === 400);
+});
+
+test('conversions, return TDs, misses and kick distance are scoreable', () => {
+  const line = { receiving_2pt_conversions: 1, return_tds: 1, receptions: 2 };
+  assert.equal(scoreStatLine(line, 'ppr'), 2, 'existing presets ignore the new stats');
+  assert.equal(scoreStatLine(line, 'ppr-extras'), 2 + 2 + 6);
+
+  const kicker = {
+    position: 'K',
+    field_goals_made: 3,
+    field_goals_made_30_39: 1,
+    field_goals_made_40_49: 1,
+    field_goals_made_50_59: 1,
+    field_goals_missed: 1,
+    extra_points_made: 2,
+    extra_points_missed: 1,
+  };
+  assert.equal(scoreStatLine(kicker, 'standard'), 11);
+  const rules = JSON.stringify({
+    weights: { field_goals_made_40_49: 1, field_goals_made_50_59: 2, field_goals_missed: -1, extra_points_missed: -1 },
+  });
+  const parsed = parseScoringParams(new URL(`http://localhost/api/scores?rules=${encodeURIComponent(rules)}`));
+  assert.equal(scoreStatLine(kicker, parsed.rules), 11 + 1 + 2 - 1 - 1);
+});
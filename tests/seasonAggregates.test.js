@@ -0,0 +1,120 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const zlib = require('node:zlib');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+test('season aggregates are computed once and reloaded from disk', async (t) => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'season-aggregates-'));
+  const previousCacheDir = process.env.NFLVERSE_CACHE_DIR;
+  process.env.NFLVERSE_CACHE_DIR = tmpDir;
+
+  const httpModule = loadTsModule(path.resolve(__dirname, '../lib/http.ts'));
+  const statsCsv = [
+    'season,week,player_gsis_id,player_display_name,recent_team,position,passing_yards,passing_tds,interceptions,rushing_yards,rushing_tds,receptions,receiving_yards,receiving_tds,fumbles_lost,field_goals_made,extra_points_made',
+    '2025,1,alpha,Alpha Receiver,HOU,WR,0,0,0,0,0,7,110,1,0,0,0',
+    '2025,2,alpha,Alpha Receiver,HOU,WR,0,0,0,0,0,3,40,0,0,0,0',
+  ].join('\n');
+  const playersCsv = ['player_id,gsis_id,full_name,recent_team,college_name', 'alpha,,Alpha Receiver,HOU,Rice'].join('\n');
+  let statFetches = 0;
+  const originalFetchBuffer = httpModule.fetchBuffer;
+  httpModule.fetchBuffer = async (url, init) => {
+    if (url.includes('stats_player_week_2025')) {
+      if (init?.method === 'HEAD') return Buffer.alloc(0);
+      statFetches += 1;
+      return zlib.gzipSync(Buffer.from(statsCsv, 'utf8'));
+    }
+    if (url.includes('players.csv')) return Buffer.from(playersCsv, 'utf8');
+    throw new Error(`Unexpected fetchBuffer call for ${url}`);
+  };
+
+  t.after(() => {
+    httpModule.fetchBuffer = originalFetchBuffer;
+    if (previousCacheDir === undefined) delete process.env.NFLVERSE_CACHE_DIR;
+    else process.env.NFLVERSE_CACHE_DIR = previousCacheDir;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const { clearSeasonAggregateMemory, loadSeasonAggregates, loadWeekAggregates, seasonAggregateKey } = loadTsModule(
+    path.resolve(__dirname, '../lib/seasonAggregates.ts'),
+  );
+  const options = { season: 2025, format: 'ppr', mode: 'weekly', includeK: true, defense: 'none' };
+
+  const [week1, week2] = await loadSeasonAggregates(options, [1, 2]);
+  assert.equal(week1.revision, 1);
+  assert.equal(week1.rows.find((row) => row.school === 'Rice').totalPoints, 24);
+  assert.equal(week2.rows.find((row) => row.school === 'Rice').totalPoints, 7);
+  assert.equal(statFetches, 1);
+
+  assert.equal(await loadWeekAggregates(options, 1), week1, 'second read should come from memory');
+
+  const file = path.join(tmpDir, 'aggregates', '2025', seasonAggregateKey(options), 'week-1.json');
+  assert.ok(fs.existsSync(file), 'aggregate should be persisted to disk');
+  clearSeasonAggregateMemory();
+  const reloaded = await loadWeekAggregates(options, 1);
+  assert.equal(reloaded.computedAt, week1.computedAt);
+  assert.deepEqual(reloaded.rows, JSON.parse(JSON.stringify(week1.rows)));
+
+  const avg = await loadWeekAggregates({ ...options, mode: 'avg' }, 2);
+  assert.notEqual(seasonAggregateKey({ ...options, mode: 'avg' }), seasonAggregateKey(options));
+  assert.equal(avg.rows.find((row) => row.school === 'Rice').totalPoints, 7);
+});
+
+test('approx-defense aggregates are keyed by the week\'s team defense source', async (t) => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'season-aggregates-defense-'));
+  const previousCacheDir = process.env.NFLVERSE_CACHE_DIR;
+  const previousNextCacheDir = process.env.NEXT_CACHE_DIR;
+  process.env.NFLVERSE_CACHE_DIR = tmpDir;
+  process.env.NEXT_CACHE_DIR = tmpDir;
+
+  const httpModule = loadTsModule(path.resolve(__dirname, '../lib/http.ts'));
+  const statsCsv = [
+    'season,week,player_gsis_id,player_display_name,recent_team,position,receptions,receiving_yards,receiving_tds',
+    '2024,1,alpha,Alpha Receiver,HOU,WR,7,110,1',
+    '2024,2,alpha,Alpha Receiver,HOU,WR,3,40,0',
+  ].join('\n');
+  const teamUrl = 'https://example.com/stats_team_week_2024.csv';
+  const teamCsv = [
+    'season,week,team,sacks,interceptions,fumble_recoveries,safeties,defensive_touchdowns,return_touchdowns,points_allowed',
+    '2024,1,HOU,3,1,0,0,0,0,10',
+  ].join('\n');
+  const originalFetchBuffer = httpModule.fetchBuffer;
+  const originalFetch = global.fetch;
+  httpModule.fetchBuffer = async (url, init) => {
+    if (init?.method === 'HEAD') return Buffer.alloc(0);
+    if (url.includes('stats_player_week_2024')) return zlib.gzipSync(Buffer.from(statsCsv, 'utf8'));
+    if (url.includes('/releases/tags/stats_team')) {
+      return Buffer.from(JSON.stringify({ assets: [{ name: 'stats_team_week_2024.csv', browser_download_url: teamUrl }] }));
+    }
+    if (url === teamUrl) return Buffer.from(teamCsv, 'utf8');
+    if (url.includes('snap_counts_2024')) return Buffer.from('season,week,pfr_player_id,player,team,position,defense_snaps\n');
+    if (url.includes('players.csv')) return Buffer.from('player_id,gsis_id,full_name,recent_team,college_name\n');
+    throw new Error(`Unexpected fetchBuffer call for ${url}`);
+  };
+  // The opponent-offense approximation has nothing for week 2 either.
+  global.fetch = async () => new Response('', { status: 404 });
+
+  t.after(() => {
+    httpModule.fetchBuffer = originalFetchBuffer;
+    global.fetch = originalFetch;
+    if (previousCacheDir === undefined) delete process.env.NFLVERSE_CACHE_DIR;
+    else process.env.NFLVERSE_CACHE_DIR = previousCacheDir;
+    if (previousNextCacheDir === undefined) delete process.env.NEXT_CACHE_DIR;
+    else process.env.NEXT_CACHE_DIR = previousNextCacheDir;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const { loadWeekAggregates } = loadTsModule(path.resolve(__dirname, '../lib/seasonAggregates.ts'));
+  const options = { season: 2024, format: 'ppr', mode: 'weekly', includeK: true, defense: 'approx' };
+
+  const week1 = await loadWeekAggregates(options, 1);
+  assert.match(week1.statsKey, /:dstats_team:[0-9a-f]{16}$/);
+  const week2 = await loadWeekAggregates(options, 2);
+  assert.match(week2.statsKey, /:dopponent-offense$/);
+
+  const noDefense = await loadWeekAggregates({ ...options, defense: 'none' }, 1);
+  assert.doesNotMatch(noDefense.statsKey, /:d/);
+});
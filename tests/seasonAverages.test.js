@@ -0,0 +1,41 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const { averagesAsOf, buildCumulativeTable, parseAveragingWindow } = loadTsModule(
+  path.resolve(__dirname, '../lib/seasonAverages.ts'),
+);
+
+const weeks = new Map([
+  [1, [{ player_id: 'a', points: 10 }, { player_id: 'b', points: 4 }]],
+  [2, [{ player_id: 'a', points: 20 }]],
+  [3, [{ player_id: 'a', points: 0 }, { player_id: 'b', points: 8 }]],
+  [4, [{ player_id: 'a', points: 30 }]],
+]);
+const table = buildCumulativeTable(weeks, (stat) => stat.points);
+
+test('averagesAsOf reads season-to-date averages from running totals', () => {
+  assert.deepEqual(averagesAsOf(table, 1), {});
+  assert.deepEqual(averagesAsOf(table, 2), { a: 10, b: 4 });
+  assert.deepEqual(averagesAsOf(table, 4), { a: 10, b: 6 });
+  assert.deepEqual(averagesAsOf(table, 5), { a: 15, b: 6 });
+});
+
+test('averaging windows cover last-N weeks, EWMA and median', () => {
+  assert.deepEqual(averagesAsOf(table, 5, parseAveragingWindow('last-2')), { a: 15, b: 8 });
+  assert.deepEqual(averagesAsOf(table, 3, parseAveragingWindow('last-1')), { a: 20 });
+  assert.deepEqual(averagesAsOf(table, 5, parseAveragingWindow('median')), { a: 15, b: 6 });
+  // 10 -> 15 -> 7.5 -> 18.75 with alpha 0.5
+  assert.deepEqual(averagesAsOf(table, 5, parseAveragingWindow('ewma')), { a: 18.75, b: 6 });
+  assert.equal(averagesAsOf(table, 5, parseAveragingWindow('ewma-0.25')).a, 14.53);
+});
+
+test('parseAveragingWindow rejects unknown windows', () => {
+  assert.deepEqual(parseAveragingWindow('season'), { type: 'season' });
+  assert.deepEqual(parseAveragingWindow('last3'), { type: 'last', weeks: 3 });
+  assert.throws(() => parseAveragingWindow('last-0'), (error) => error.status === 400);
+  assert.throws(() => parseAveragingWindow('ewma-2'), (error) => error.status === 400);
+  assert.throws(() => parseAveragingWindow('mean'), (error) => error.status === 400);
+});
@@ -0,0 +1,69 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const { computeAllPlayStandings } = loadTsModule(path.resolve(__dirname, '../lib/seasonSummary.ts'));
+
+test('computeAllPlayStandings compares every school each week and against the median', () => {
+  const { medians, rows } = computeAllPlayStandings([
+    {
+      week: 1,
+      totals: [
+        { school: 'Alabama', points: 120 },
+        { school: 'Georgia', points: 90 },
+        { school: 'LSU', points: 60 },
+        { school: 'Ohio State', points: 30 },
+      ],
+    },
+    {
+      week: 2,
+      totals: [
+        { school: 'Alabama', points: 50 },
+        { school: 'Georgia', points: 100 },
+        { school: 'LSU', points: 70 },
+      ],
+    },
+  ]);
+
+  assert.deepEqual(medians, [
+    { week: 1, median: 75 },
+    { week: 2, median: 70 },
+  ]);
+  assert.deepEqual(
+    rows.map((row) => row.school),
+    ['Georgia', 'Alabama', 'LSU', 'Ohio State'],
+  );
+  const georgia = rows[0];
+  assert.deepEqual(georgia.allPlay, { wins: 4, losses: 1, ties: 0 });
+  assert.deepEqual(georgia.median, { wins: 2, losses: 0, ties: 0 });
+  assert.equal(georgia.weeks, 2);
+  assert.equal(georgia.pointsFor, 190);
+
+  const lsu = rows.find((row) => row.school === 'LSU');
+  assert.deepEqual(lsu.allPlay, { wins: 2, losses: 3, ties: 0 });
+  assert.deepEqual(lsu.median, { wins: 0, losses: 1, ties: 1 });
+});
+
+test('computeAllPlayStandings leaves Unknown and unregistered schools out', () => {
+  const { medians, rows } = computeAllPlayStandings([
+    {
+      week: 1,
+      totals: [
+        { school: 'Unknown', points: 300 },
+        { school: 'Alabama', points: 120 },
+        { school: 'Georgia', points: 90 },
+        { school: 'Not A Real College', points: 80 },
+        { school: 'LSU', points: 60 },
+      ],
+    },
+  ]);
+
+  assert.deepEqual(medians, [{ week: 1, median: 90 }]);
+  assert.deepEqual(
+    rows.map((row) => row.school),
+    ['Alabama', 'Georgia', 'LSU'],
+  );
+  assert.deepEqual(rows[0].allPlay, { wins: 2, losses: 0, ties: 0 });
+});
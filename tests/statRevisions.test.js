@@ -0,0 +1,164 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs/promises');
+const os = require('node:os');
+const path = require('node:path');
+
+const { loadTsModule } = require('./helpers/loadTsModule');
+
+const {
+  diffStatRows,
+  getWeekRevisionHistory,
+  listPointChanges,
+  recordStatRevisions,
+  resetStatRevisionCache,
+  snapshotStatLine,
+} = loadTsModule(path.resolve(__dirname, '../lib/statRevisions.ts'));
+const { createStatLineScorer } = loadTsModule(path.resolve(__dirname, '../lib/nflverse.ts'));
+const { DEFAULT_IDP_WEIGHTS } = loadTsModule(path.resolve(__dirname, '../lib/idp.ts'));
+
+const stat = (player_id, overrides = {}) => ({
+  player_id,
+  name: player_id.toUpperCase(),
+  team: 'DET',
+  position: 'WR',
+  receptions: 5,
+  receiving_yards: 60,
+  ...overrides,
+});
+
+test('diffStatRows reports added, removed and changed rows', () => {
+  const before = { a: snapshotStatLine(stat('a')), b: snapshotStatLine(stat('b')) };
+  const after = { a: snapshotStatLine(stat('a', { receiving_yards: 72 })), c: snapshotStatLine(stat('c')) };
+  const changes = diffStatRows(before, after);
+  assert.deepEqual(
+    changes.map((change) => [change.player_id, change.kind]),
+    [
+      ['a', 'changed'],
+      ['b', 'removed'],
+      ['c', 'added'],
+    ],
+  );
+});
+
+test('recordStatRevisions bumps only weeks whose rows changed', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'stat-revisions-'));
+  const previous = process.env.NFLVERSE_REVISIONS_DIR;
+  process.env.NFLVERSE_REVISIONS_DIR = dir;
+  resetStatRevisionCache();
+  try {
+    const first = await recordStatRevisions(2024, 'hash-1', new Map([[1, [stat('a'), stat('b')]], [2, [stat('a')]]]), 1);
+    assert.deepEqual(Object.fromEntries(first), { 1: 1, 2: 1 });
+
+    const same = await recordStatRevisions(2024, 'hash-1', new Map(), 2);
+    assert.deepEqual(Object.fromEntries(same), { 1: 1, 2: 1 });
+
+    resetStatRevisionCache();
+    const corrected = await recordStatRevisions(
+      2024,
+      'hash-2',
+      new Map([[1, [stat('a', { receiving_tds: 1 }), stat('b')]], [2, [stat('a')]]]),
+      3,
+    );
+    assert.deepEqual(Object.fromEntries(corrected), { 1: 2, 2: 1 });
+
+    const diff = await listPointChanges(2024, 1, 'ppr');
+    assert.equal(diff.revision, 2);
+    assert.equal(diff.from, 1);
+    assert.deepEqual(
+      diff.changes.map((change) => [change.player_id, change.kind, change.before, change.after, change.delta]),
+      [['a', 'changed', 11, 17, 6]],
+    );
+    assert.deepEqual((await listPointChanges(2024, 2, 'ppr')).changes, []);
+  } finally {
+    resetStatRevisionCache();
+    if (previous === undefined) delete process.env.NFLVERSE_REVISIONS_DIR;
+    else process.env.NFLVERSE_REVISIONS_DIR = previous;
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('recordStatRevisions re-baselines snapshots from another schema version', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'stat-revisions-'));
+  const previous = process.env.NFLVERSE_REVISIONS_DIR;
+  process.env.NFLVERSE_REVISIONS_DIR = dir;
+  resetStatRevisionCache();
+  try {
+    // Written before snapshots were versioned, with fewer fields per row.
+    const legacyRows = { a: { player_id: 'a', name: 'A', team: 'DET', receptions: 5 } };
+    await fs.writeFile(
+      path.join(dir, 'player_stats_2023.json'),
+      JSON.stringify({
+        season: 2023,
+        assetHash: 'hash-old',
+        checkedAt: 1,
+        weeks: { 1: { revision: 3, hash: 'legacy', rows: legacyRows, history: [] } },
+      }),
+    );
+
+    const rebaselined = await recordStatRevisions(2023, 'hash-old', new Map([[1, [stat('a')]]]), 2);
+    assert.deepEqual(Object.fromEntries(rebaselined), { 1: 3 }, 'a schema change is not a correction');
+    assert.deepEqual((await listPointChanges(2023, 1, 'ppr')).changes, []);
+
+    resetStatRevisionCache();
+    const corrected = await recordStatRevisions(2023, 'hash-new', new Map([[1, [stat('a', { receiving_tds: 1 })]]]), 3);
+    assert.deepEqual(Object.fromEntries(corrected), { 1: 4 });
+    assert.deepEqual(
+      (await listPointChanges(2023, 1, 'ppr')).changes.map((change) => [change.player_id, change.delta]),
+      [['a', 6]],
+    );
+  } finally {
+    resetStatRevisionCache();
+    if (previous === undefined) delete process.env.NFLVERSE_REVISIONS_DIR;
+    else process.env.NFLVERSE_REVISIONS_DIR = previous;
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('listPointChanges scores defenders with the IDP weights the views use', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'stat-revisions-'));
+  const previous = process.env.NFLVERSE_REVISIONS_DIR;
+  process.env.NFLVERSE_REVISIONS_DIR = dir;
+  resetStatRevisionCache();
+  try {
+    const linebacker = (overrides) => stat('lb', { position: 'LB', receptions: 0, receiving_yards: 0, ...overrides });
+    await recordStatRevisions(2024, 'hash-1', new Map([[1, [linebacker({ def_tackles_solo: 5 })]]]), 1);
+    await recordStatRevisions(2024, 'hash-2', new Map([[1, [linebacker({ def_tackles_solo: 6, def_sacks: 1 })]]]), 2);
+
+    assert.deepEqual((await listPointChanges(2024, 1, 'ppr')).changes, [], 'offensive rules ignore tackles');
+    const score = await createStatLineScorer(2024, 1, 'ppr', DEFAULT_IDP_WEIGHTS);
+    assert.deepEqual(
+      (await listPointChanges(2024, 1, score)).changes.map((change) => [change.player_id, change.before, change.after]),
+      [['lb', 5, 8]],
+    );
+  } finally {
+    resetStatRevisionCache();
+    if (previous === undefined) delete process.env.NFLVERSE_REVISIONS_DIR;
+    else process.env.NFLVERSE_REVISIONS_DIR = previous;
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('recordStatRevisions keeps the cached state when the write fails', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'stat-revisions-'));
+  const previous = process.env.NFLVERSE_REVISIONS_DIR;
+  process.env.NFLVERSE_REVISIONS_DIR = dir;
+  resetStatRevisionCache();
+  try {
+    await recordStatRevisions(2024, 'hash-1', new Map([[1, [stat('a')]]]), 1);
+
+    // A regular file where the directory should be makes the next write fail.
+    const blocked = path.join(dir, 'blocked');
+    await fs.writeFile(blocked, '');
+    process.env.NFLVERSE_REVISIONS_DIR = path.join(blocked, 'revisions');
+    await assert.rejects(recordStatRevisions(2024, 'hash-2', new Map([[1, [stat('a', { receiving_tds: 1 })]]]), 2));
+
+    assert.equal((await getWeekRevisionHistory(2024, 1)).revision, 1);
+    assert.deepEqual((await listPointChanges(2024, 1, 'ppr')).changes, []);
+  } finally {
+    resetStatRevisionCache();
+    if (previous === undefined) delete process.env.NFLVERSE_REVISIONS_DIR;
+    else process.env.NFLVERSE_REVISIONS_DIR = previous;
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
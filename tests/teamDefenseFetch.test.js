@@ -71,4 +71,5 @@ test('team defense loader retries cache after gzip failure', async (t) => {
   assert.equal(rows.length, 1, 'expected a team defense row');
   assert.equal(rows[0].team, 'PHI');
   assert.equal(rows[0].defensive_tds, 1);
+  assert.deepEqual(rows[0].provenance, { source: 'stats_team', url: assetUrl });
 });
@@ -6,6 +6,8 @@ const { loadTsModule } = require('./helpers/loadTsModule');
 
 const {
   buildNflWeekWindows,
+  cfpRoundFromNotes,
+  mapCfbPostseasonGame,
   mapCfbWeekToSingleNflWeek,
   mapKickoffToNflWeek,
 } = loadTsModule(path.resolve(__dirname, '../utils/weekMapping.ts'));
@@ -69,6 +71,50 @@ test('mapKickoffToNflWeek respects Tuesday cutoff', () => {
   assert.deepEqual(afterCutoff, { season: 2024, week: 1 });
 });
 
+test('cfpRoundFromNotes reads the playoff round from game notes', () => {
+  assert.equal(cfpRoundFromNotes('CFP First Round Game'), 'first-round');
+  assert.equal(cfpRoundFromNotes('College Football Playoff Quarterfinal at the Rose Bowl'), 'quarterfinal');
+  assert.equal(cfpRoundFromNotes('CFP Semi-Final at the Orange Bowl'), 'semifinal');
+  assert.equal(cfpRoundFromNotes('CFP National Championship'), 'championship');
+  assert.equal(cfpRoundFromNotes('Pop-Tarts Bowl'), null);
+  assert.equal(cfpRoundFromNotes(null), null);
+});
+
+test('mapCfbPostseasonGame maps bowls by kickoff and CFP rounds by policy', () => {
+  const windows = buildNflWeekWindows([
+    { season: 2024, week: 17, gameType: 'REG', kickoffISO: '2024-12-29T18:00:00Z' },
+    { season: 2024, week: 18, gameType: 'REG', kickoffISO: '2025-01-05T18:00:00Z' },
+    { season: 2024, week: 19, gameType: 'WC', kickoffISO: '2025-01-14T01:15:00Z' },
+    { season: 2024, week: 20, gameType: 'DIV', kickoffISO: '2025-01-19T23:00:00Z' },
+    { season: 2024, week: 21, gameType: 'CON', kickoffISO: '2025-01-26T23:30:00Z' },
+    { season: 2024, week: 22, gameType: 'SB', kickoffISO: '2025-02-09T23:30:00Z' },
+  ]);
+  const bowl = { season: 2024, kickoffISO: '2024-12-28T20:00:00Z', notes: 'Pop-Tarts Bowl' };
+  const semifinal = { season: 2024, kickoffISO: '2025-01-10T00:30:00Z', notes: 'CFP Semifinal at the Orange Bowl' };
+  const title = { season: 2024, kickoffISO: '2025-01-21T00:30:00Z', notes: 'CFP National Championship' };
+
+  assert.deepEqual(mapCfbPostseasonGame(bowl, windows, 'kickoff'), {
+    season: 2024,
+    week: 17,
+    rule: 'kickoff-window',
+    cfpRound: null,
+  });
+  assert.deepEqual(mapCfbPostseasonGame(bowl, windows, 'playoff-rounds'), mapCfbPostseasonGame(bowl, windows, 'kickoff'));
+  assert.equal(mapCfbPostseasonGame(semifinal, windows, 'kickoff').week, 19);
+  assert.equal(mapCfbPostseasonGame(title, windows, 'kickoff').week, 20);
+  assert.deepEqual(mapCfbPostseasonGame(semifinal, windows, 'playoff-rounds'), {
+    season: 2024,
+    week: 21,
+    rule: 'cfp-round',
+    cfpRound: 'semifinal',
+  });
+  assert.equal(mapCfbPostseasonGame(title, windows, 'playoff-rounds').week, 22);
+  // Without schedule windows CFP rounds still land on the season's playoff weeks.
+  assert.equal(mapCfbPostseasonGame(title, [], 'playoff-rounds').week, 22);
+  assert.equal(mapCfbPostseasonGame({ ...title, season: 2019 }, [], 'playoff-rounds').week, 21);
+  assert.equal(mapCfbPostseasonGame(bowl, [], 'kickoff'), null);
+});
+
 test('normalizeSchool maps common synonyms', () => {
   assert.equal(normalizeSchool('Miami'), 'Miami (FL)');
   assert.equal(normalizeSchool('Texas A&M'), 'Texas A&M');
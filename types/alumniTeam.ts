@@ -12,7 +12,7 @@ export type SlateDiagnostics = {
   requestedTeamOriginal: string;
   requestedTeam: string;
   normalizedTeam: string;
-  provider: "cfbd";
+  provider: "cfbd" | "espn" | "file";
   filter: {
     input: string;
     normalized: string;
@@ -0,0 +1,280 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { parseCsv } from "@/lib/csv";
+import {
+  CfbdRequestError,
+  createCfbdCfbScheduleProvider,
+  sortCfbSlate,
+  type CfbGame,
+  type SeasonType,
+} from "./cfbd";
+import { createEspnCfbScheduleProvider } from "./espn";
+import { normalizeSchool } from "./schoolNames";
+
+/**
+ * CFB schedule sources, resolved by `getCfbScheduleProvider`.
+ * `CFB_SCHEDULE_PROVIDER` picks `cfbd` (default, needs `CFBD_API_KEY`),
+ * `espn`, or `file`, which serves season slates snapshotted by
+ * `npm run schedule:import` from `CFB_SCHEDULE_DIR` so schedules work offline
+ * and in tests.
+ */
+export interface CfbScheduleProvider {
+  kind: CfbScheduleProviderKind;
+  /** Every game of one season type, sorted by week then kickoff. */
+  getSeasonSlate(season: number, seasonType: SeasonType): Promise<CfbGame[]>;
+  getWeekGames(season: number, week: number, seasonType: SeasonType): Promise<CfbGame[]>;
+}
+
+export const CFB_SCHEDULE_PROVIDERS = ["cfbd", "espn", "file"] as const;
+
+export type CfbScheduleProviderKind = (typeof CFB_SCHEDULE_PROVIDERS)[number];
+
+export const CFB_SLATE_FILE_FORMATS = ["json", "csv"] as const;
+
+export type CfbSlateFileFormat = (typeof CFB_SLATE_FILE_FORMATS)[number];
+
+/** Column order for CSV slates; matches the `CfbGame` fields. */
+const CSV_COLUMNS = [
+  "id",
+  "season",
+  "week",
+  "seasonType",
+  "home",
+  "away",
+  "homePoints",
+  "awayPoints",
+  "venue",
+  "neutralSite",
+  "conferenceGame",
+  "startTimeTBD",
+  "excitementIndex",
+  "highlights",
+  "notes",
+  "kickoffISO",
+] as const satisfies readonly (keyof CfbGame)[];
+
+/** `CFB_SCHEDULE_PROVIDER` when it names a provider, otherwise `cfbd`. */
+export function cfbScheduleProviderKind(): CfbScheduleProviderKind {
+  const raw = process.env.CFB_SCHEDULE_PROVIDER?.trim().toLowerCase();
+  if (raw && (CFB_SCHEDULE_PROVIDERS as readonly string[]).includes(raw)) return raw as CfbScheduleProviderKind;
+  if (raw) {
+    // eslint-disable-next-line no-console
+    console.warn(`[cfbSchedule] Unknown CFB_SCHEDULE_PROVIDER "${raw}", falling back to cfbd`);
+  }
+  return "cfbd";
+}
+
+export const cfbScheduleDir = (): string => process.env.CFB_SCHEDULE_DIR || "data/cfb-schedules";
+
+export const cfbSlateFileName = (season: number, seasonType: SeasonType, format: CfbSlateFileFormat): string =>
+  `${season}-${seasonType}.${format}`;
+
+const isErrno = (error: unknown, code: string): boolean =>
+  typeof error === "object" && error !== null && (error as { code?: string }).code === code;
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+};
+
+const numberOrNull = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const booleanOrNull = (value: unknown): boolean | null => {
+  if (typeof value === "boolean") return value;
+  const text = String(value ?? "").trim().toLowerCase();
+  if (text === "true") return true;
+  if (text === "false") return false;
+  return null;
+};
+
+const stringOrNull = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length ? trimmed : null;
+};
+
+const isoOrNull = (value: unknown): string | null => {
+  const text = stringOrNull(value);
+  if (!text) return null;
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * One file row (a JSON object or CSV record) as a `CfbGame`, or null when it
+ * has no teams or week. Rows without a season or season type take the file's.
+ */
+const toCfbGame = (row: Record<string, unknown>, season: number, seasonType: SeasonType): CfbGame | null => {
+  const home = stringOrNull(row.home);
+  const away = stringOrNull(row.away);
+  const week = numberOrNull(row.week);
+  if (!home || !away || week === null) return null;
+  const rowSeasonType = row.seasonType === "regular" || row.seasonType === "postseason" ? row.seasonType : seasonType;
+  return {
+    id: numberOrNull(row.id),
+    season: numberOrNull(row.season) ?? season,
+    week,
+    seasonType: rowSeasonType,
+    home: normalizeSchool(home),
+    away: normalizeSchool(away),
+    homePoints: numberOrNull(row.homePoints),
+    awayPoints: numberOrNull(row.awayPoints),
+    venue: stringOrNull(row.venue),
+    neutralSite: booleanOrNull(row.neutralSite),
+    conferenceGame: booleanOrNull(row.conferenceGame),
+    startTimeTBD: booleanOrNull(row.startTimeTBD),
+    excitementIndex: numberOrNull(row.excitementIndex),
+    highlights: stringOrNull(row.highlights),
+    notes: stringOrNull(row.notes),
+    kickoffISO: isoOrNull(row.kickoffISO),
+  };
+};
+
+/** Parses a slate file's contents; JSON must be an array of `CfbGame` objects. */
+export function parseCfbSlate(
+  text: string,
+  format: CfbSlateFileFormat,
+  season: number,
+  seasonType: SeasonType,
+): CfbGame[] {
+  let rows: Record<string, unknown>[];
+  if (format === "csv") {
+    rows = parseCsv(text);
+  } else {
+    const parsed = JSON.parse(text) as unknown;
+    if (!Array.isArray(parsed)) throw new Error("Expected a JSON array of games");
+    rows = parsed as Record<string, unknown>[];
+  }
+  const slate: CfbGame[] = [];
+  for (const row of rows) {
+    const game = row && typeof row === "object" ? toCfbGame(row, season, seasonType) : null;
+    if (game && game.season === season && game.seasonType === seasonType) slate.push(game);
+  }
+  return slate.sort(sortCfbSlate);
+}
+
+export function formatCfbSlate(slate: CfbGame[], format: CfbSlateFileFormat): string {
+  const sorted = slate.slice().sort(sortCfbSlate);
+  if (format === "json") return `${JSON.stringify(sorted, null, 2)}\n`;
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const game of sorted) lines.push(CSV_COLUMNS.map((column) => csvCell(game[column])).join(","));
+  return `${lines.join("\n")}\n`;
+}
+
+/** Writes a slate snapshot the file provider can read; returns the file path. */
+export async function writeCfbSlateFile(
+  slate: CfbGame[],
+  options: { season: number; seasonType: SeasonType; format?: CfbSlateFileFormat; dir?: string },
+): Promise<string> {
+  const { season, seasonType, format = "json", dir = cfbScheduleDir() } = options;
+  await fs.mkdir(path.resolve(dir), { recursive: true });
+  const file = path.join(dir, cfbSlateFileName(season, seasonType, format));
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, formatCfbSlate(slate, format), "utf-8");
+  try {
+    await fs.rename(tmp, file);
+  } catch (error) {
+    await fs.rm(tmp, { force: true });
+    throw error;
+  }
+  return file;
+}
+
+/**
+ * Reads `<dir>/<season>-<seasonType>.json` (or `.csv`). A missing file is an
+ * error rather than an empty slate, so an incomplete snapshot is not mistaken
+ * for a season without games.
+ */
+export function createFileCfbScheduleProvider(dir: string = cfbScheduleDir()): CfbScheduleProvider {
+  const readSlate = async (season: number, seasonType: SeasonType): Promise<CfbGame[]> => {
+    for (const format of CFB_SLATE_FILE_FORMATS) {
+      const file = path.join(dir, cfbSlateFileName(season, seasonType, format));
+      let text: string;
+      try {
+        text = await fs.readFile(file, "utf-8");
+      } catch (error) {
+        if (isErrno(error, "ENOENT")) continue;
+        throw error;
+      }
+      try {
+        return parseCfbSlate(text, format, season, seasonType);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid CFB schedule file ${file}: ${message}`);
+      }
+    }
+    throw new Error(
+      `No CFB schedule file for ${season} ${seasonType} in ${dir} (expected ${cfbSlateFileName(season, seasonType, "json")} or .csv)`,
+    );
+  };
+
+  return {
+    kind: "file",
+    getSeasonSlate: readSlate,
+    async getWeekGames(season, week, seasonType) {
+      const slate = await readSlate(season, seasonType);
+      return slate.filter((game) => game.week === week);
+    },
+  };
+}
+
+/** The provider for `kind`, by default the one `CFB_SCHEDULE_PROVIDER` selects. */
+export function getCfbScheduleProvider(
+  kind: CfbScheduleProviderKind = cfbScheduleProviderKind(),
+  options: { debug?: boolean } = {},
+): CfbScheduleProvider {
+  switch (kind) {
+    case "cfbd":
+      return createCfbdCfbScheduleProvider(options);
+    case "espn":
+      return createEspnCfbScheduleProvider();
+    case "file":
+      return createFileCfbScheduleProvider();
+  }
+}
+
+export type CfbSeasonSlateResult = {
+  slate: CfbGame[];
+  provider: CfbScheduleProviderKind;
+  error?: string;
+  status?: number;
+};
+
+/** ESPN has no season endpoint, so `CFB_SCHEDULE_PROVIDER=espn` still reads slates from CFBD. */
+const defaultSlateProvider = (): CfbScheduleProviderKind => (cfbScheduleProviderKind() === "file" ? "file" : "cfbd");
+
+/**
+ * Full slate for a season type from `provider` (by default CFBD, or the file
+ * provider when `CFB_SCHEDULE_PROVIDER=file`). Failures come back as `error`
+ * with an empty slate.
+ */
+export async function getCfbSeasonSlate(
+  season: number,
+  seasonTypeOrDebug: SeasonType | boolean = "regular",
+  maybeDebug = false,
+  provider: CfbScheduleProviderKind = defaultSlateProvider(),
+): Promise<CfbSeasonSlateResult> {
+  const seasonType = typeof seasonTypeOrDebug === "boolean" ? "regular" : seasonTypeOrDebug;
+  const debug = typeof seasonTypeOrDebug === "boolean" ? seasonTypeOrDebug : maybeDebug;
+  try {
+    const slate = await getCfbScheduleProvider(provider, { debug }).getSeasonSlate(season, seasonType);
+    if (debug) {
+      // eslint-disable-next-line no-console
+      console.log("[cfbSchedule] slate summary", { season, seasonType, provider, slateLength: slate.length, error: undefined });
+    }
+    return { slate, provider };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = error instanceof CfbdRequestError ? error.status : undefined;
+    if (debug) {
+      // eslint-disable-next-line no-console
+      console.log("[cfbSchedule] slate summary", { season, seasonType, provider, slateLength: 0, status, error: message });
+    }
+    return { slate: [], provider, error: message, status };
+  }
+}
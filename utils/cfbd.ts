@@ -1,4 +1,5 @@
 import { kvGet, kvSet } from "@/lib/kv";
+import type { CfbScheduleProvider } from "./cfbScheduleProvider";
 import { canonicalTeam, normalizeSchool } from "./schoolNames";
 
 export type SeasonType = "regular" | "postseason";
@@ -25,7 +26,8 @@ export type CfbGame = {
 const CFBD_API_BASE = "https://api.collegefootballdata.com";
 const CACHE_TTL_SECONDS = 60 * 60 * 24 * 30;
 
-const sortGames = (a: CfbGame, b: CfbGame) => {
+/** Week, then kickoff; games without a kickoff sort last in their week. */
+export const sortCfbSlate = (a: CfbGame, b: CfbGame) => {
   if (a.week !== b.week) return a.week - b.week;
   if (a.kickoffISO && b.kickoffISO) return a.kickoffISO.localeCompare(b.kickoffISO);
   if (a.kickoffISO) return -1;
@@ -146,32 +148,24 @@ const mapGame = (
 
 const buildCacheKey = (season: number, seasonType: SeasonType) => `cfb:slate:${season}:${seasonType}`;
 
-export async function getCfbSeasonSlate(
-  season: number,
-  seasonTypeOrDebug: SeasonType | boolean = "regular",
-  maybeDebug = false,
-): Promise<{ slate: CfbGame[]; provider: "cfbd"; error?: string; status?: number }> {
-  const seasonType = typeof seasonTypeOrDebug === "boolean" ? "regular" : seasonTypeOrDebug;
-  const debug = typeof seasonTypeOrDebug === "boolean" ? seasonTypeOrDebug : maybeDebug;
+/** A failed CFBD request; `status` is unset when no request was sent. */
+export class CfbdRequestError extends Error {
+  status?: number;
 
-  const cacheKey = buildCacheKey(season, seasonType);
-  const cached = await kvGet<CfbGame[]>(cacheKey);
-  if (cached?.length) {
-    const copy = [...cached];
-    copy.sort(sortGames);
-    if (debug) {
-      // eslint-disable-next-line no-console
-      console.log("[cfbd] slate summary", {
-        season,
-        seasonType,
-        slateLength: copy.length,
-        status: "cache",
-        error: undefined,
-      });
-    }
-    return { slate: copy, provider: "cfbd" };
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "CfbdRequestError";
+    this.status = status;
   }
+}
 
+/** Games of a season type, or of one `week` of it, from the CFBD API. */
+async function fetchCfbdGames(
+  season: number,
+  seasonType: SeasonType,
+  options: { week?: number; debug?: boolean } = {},
+): Promise<CfbGame[]> {
+  const { week, debug = false } = options;
   const apiKey = process.env.CFBD_API_KEY?.trim();
   if (!apiKey) {
     const error = "Missing CFBD_API_KEY";
@@ -179,10 +173,12 @@ export async function getCfbSeasonSlate(
       // eslint-disable-next-line no-console
       console.error("CFBD slate fetch skipped", { season, seasonType, error });
     }
-    return { slate: [], provider: "cfbd", error };
+    throw new CfbdRequestError(error);
   }
 
-  const params = new URLSearchParams({ year: String(season), seasonType });
+  const params = new URLSearchParams({ year: String(season) });
+  if (week !== undefined) params.set("week", String(week));
+  params.set("seasonType", seasonType);
   const url = `${CFBD_API_BASE}/games?${params.toString()}`;
   const res = await fetch(url, {
     headers: { Authorization: `Bearer ${apiKey}` },
@@ -196,17 +192,9 @@ export async function getCfbSeasonSlate(
     sampleBody = text.slice(0, 200);
     if (debug) {
       // eslint-disable-next-line no-console
-      console.error("CFBD slate fetch failed", { season, seasonType, status, sampleBody });
-      // eslint-disable-next-line no-console
-      console.log("[cfbd] slate summary", {
-        season,
-        seasonType,
-        slateLength: 0,
-        status,
-        error: `CFBD ${status}: ${sampleBody}`,
-      });
+      console.error("CFBD slate fetch failed", { season, seasonType, week, status, sampleBody });
     }
-    return { slate: [], provider: "cfbd", error: `CFBD ${status}: ${sampleBody}`, status };
+    throw new CfbdRequestError(`CFBD ${status}: ${sampleBody}`, status);
   }
 
   const raw = (await res.json().catch(() => [])) as unknown;
@@ -216,6 +204,7 @@ export async function getCfbSeasonSlate(
     console.log("CFBD slate fetch", {
       season,
       seasonType,
+      week,
       status,
       sample: Array.isArray(sampleBody) ? sampleBody : [sampleBody],
     });
@@ -246,23 +235,24 @@ export async function getCfbSeasonSlate(
       slate.push(mapped);
     }
   }
+  return slate.sort(sortCfbSlate);
+}
 
-  if (slate.length) {
-    const sorted = [...slate];
-    sorted.sort(sortGames);
-    await kvSet(cacheKey, sorted, CACHE_TTL_SECONDS);
-  }
-
-  if (debug) {
-    // eslint-disable-next-line no-console
-    console.log("[cfbd] slate summary", {
-      season,
-      seasonType,
-      slateLength: slate.length,
-      status,
-      error: undefined,
-    });
-  }
-
-  return { slate, provider: "cfbd", status };
+/** The CFBD provider; season slates are cached in KV, single weeks are fetched live. */
+export function createCfbdCfbScheduleProvider(options: { debug?: boolean } = {}): CfbScheduleProvider {
+  const { debug = false } = options;
+  return {
+    kind: "cfbd",
+    async getSeasonSlate(season, seasonType) {
+      const cacheKey = buildCacheKey(season, seasonType);
+      const cached = await kvGet<CfbGame[]>(cacheKey);
+      if (cached?.length) return [...cached].sort(sortCfbSlate);
+      const slate = await fetchCfbdGames(season, seasonType, { debug });
+      if (slate.length) await kvSet(cacheKey, slate, CACHE_TTL_SECONDS);
+      return slate;
+    },
+    getWeekGames(season, week, seasonType) {
+      return fetchCfbdGames(season, seasonType, { week, debug });
+    },
+  };
 }
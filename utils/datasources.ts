@@ -15,7 +15,20 @@ import {
   type PlayersMasterLookup,
   type PlayersMasterRow,
 } from "@/lib/playersMaster";
+import {
+  loadCollegeOverrideIndex,
+  resolveCollegeOverride,
+  staticCollegeByName,
+  type CollegeOverrideIndex,
+} from "@/lib/collegeOverrides";
+import { parseCsv } from "@/lib/csv";
+import { resolveSchool, schoolSlug } from "@/lib/schoolRegistry";
 import type { PlayerWeekly } from "./compute";
+import {
+  cfbScheduleProviderKind,
+  getCfbScheduleProvider,
+  type CfbScheduleProviderKind,
+} from "./cfbScheduleProvider";
 
 export type SeasonType = "regular" | "postseason";
 
@@ -26,7 +39,7 @@ export type CfbGame = {
   home: string;
   away: string;
   kickoffISO: string;
-  provider: "cfbd" | "espn";
+  provider: CfbScheduleProviderKind;
 };
 
 export type WeeklyStatsRow = {
@@ -75,15 +88,8 @@ export type CfbWeekContext = {
   seasonType: SeasonType;
 };
 
-const CFBD_API_BASE = "https://api.collegefootballdata.com";
-const ESPN_SCOREBOARD_BASE = "https://site.api.espn.com/apis/site/v2/sports/football/college-football/scoreboard";
 const NFL_SCHEDULE_BASE = "https://github.com/nflverse/nflverse-data/releases/download/schedules";
 
-const parseProvider = (): "cfbd" | "espn" => {
-  const raw = process.env.CFB_SCHEDULE_PROVIDER?.trim().toLowerCase();
-  return raw === "espn" ? "espn" : "cfbd";
-};
-
 const cfbScheduleCache = new Map<string, CfbGame[]>();
 
 const scheduleCacheKey = (season: number, week: number, seasonType: SeasonType, provider: string) =>
@@ -202,65 +208,12 @@ const normalizeCfbdKickoff = (game: Record<string, unknown>, season: number): st
   return fallback.toISOString();
 };
 
-const normalizeEspnKickoff = (event: Record<string, unknown>): string => {
-  const dateValue =
-    typeof (event as { date?: unknown }).date === "string"
-      ? (event as { date?: string }).date
-      : typeof (event as { startDate?: unknown }).startDate === "string"
-        ? (event as { startDate?: string }).startDate
-        : undefined;
-  const parsed = parseIso(dateValue);
-  if (parsed) return parsed.toISOString();
-  return new Date().toISOString();
-};
-
-const SCHOOL_SYNONYMS: Record<string, string> = {
-  "miami": "Miami (FL)",
-  "miami-fl": "Miami (FL)",
-  "miami-fla": "Miami (FL)",
-  "miami-oh": "Miami (OH)",
-  "ohio-state-buckeyes": "Ohio State",
-  "the-ohio-state": "Ohio State",
-  "utsa": "UTSA",
-  "uab": "UAB",
-  "ucf": "UCF",
-  "usc": "USC",
-  "ole-miss": "Ole Miss",
-  "pitt": "Pittsburgh",
-  "pittsburgh": "Pittsburgh",
-  "smu": "SMU",
-  "tcu": "TCU",
-  "texas-am": "Texas A&M",
-  "texas-a-m": "Texas A&M",
-  "appalachian-st": "Appalachian State",
-  "appalachian-state": "Appalachian State",
-  "louisiana-lafayette": "Louisiana",
-  "louisiana": "Louisiana",
-  "nevada-las-vegas": "UNLV",
-  "unlv": "UNLV",
-  "florida-intl": "FIU",
-  "florida-international": "FIU",
-  "florida-atlantic": "FAU",
-  "fau": "FAU",
-  "lsu": "LSU",
-  "byu": "BYU",
-  "alabama-crimson-tide": "Alabama",
-  "st-johns": "St. John's",
-  "saint-johns": "St. John's",
-  "southern-cal": "USC",
-  "southern-california": "USC",
-  "utexas-san-antonio": "UTSA",
-};
-
-const slug = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
-
-export const slugifySchool = (name: string): string => slug(name.trim());
+export const slugifySchool = (name: string): string => schoolSlug(name);
 
 export const normalizeSchool = (name: string): string => {
   const trimmed = name?.trim() ?? "";
   if (!trimmed) return trimmed;
-  const key = slug(trimmed);
-  return SCHOOL_SYNONYMS[key] ?? trimmed;
+  return resolveSchool(trimmed)?.name ?? trimmed;
 };
 
 export class StatsNotAvailableError extends Error {
@@ -275,7 +228,7 @@ export class StatsNotAvailableError extends Error {
   }
 }
 
-const mapCfbdGame = (season: number, week: number, seasonType: SeasonType, provider: "cfbd" | "espn", game: Record<string, unknown>): CfbGame => ({
+const mapCfbdGame = (season: number, week: number, seasonType: SeasonType, provider: CfbScheduleProviderKind, game: Record<string, unknown>): CfbGame => ({
   season,
   week,
   seasonType,
@@ -285,94 +238,25 @@ const mapCfbdGame = (season: number, week: number, seasonType: SeasonType, provi
   provider,
 });
 
-const mapEspnGame = (season: number, week: number, seasonType: SeasonType, event: Record<string, unknown>): CfbGame | null => {
-  const competitions = Array.isArray((event as { competitions?: unknown }).competitions)
-    ? ((event as { competitions?: unknown }).competitions as unknown[])
-    : [];
-  const competition = (competitions[0] ?? null) as Record<string, unknown> | null;
-  if (!competition) return null;
-  const competitors = Array.isArray((competition as { competitors?: unknown }).competitors)
-    ? ((competition as { competitors?: unknown }).competitors as Record<string, unknown>[])
-    : [];
-  const home = competitors.find((entry) => String((entry as { homeAway?: unknown }).homeAway ?? "").toLowerCase() === "home");
-  const away = competitors.find((entry) => String((entry as { homeAway?: unknown }).homeAway ?? "").toLowerCase() === "away");
-  if (!home || !away) return null;
-  const homeName = String((home as { team?: { displayName?: unknown; location?: unknown; name?: unknown } }).team?.displayName
-    ?? (home as { team?: { location?: unknown } }).team?.location
-    ?? (home as { team?: { name?: unknown } }).team?.name
-    ?? "");
-  const awayName = String((away as { team?: { displayName?: unknown; location?: unknown; name?: unknown } }).team?.displayName
-    ?? (away as { team?: { location?: unknown } }).team?.location
-    ?? (away as { team?: { name?: unknown } }).team?.name
-    ?? "");
-  if (!homeName || !awayName) return null;
-  const kickoffISO = normalizeEspnKickoff(competition ?? event);
-  return {
-    season,
-    week,
-    seasonType,
-    home: normalizeSchool(homeName),
-    away: normalizeSchool(awayName),
-    kickoffISO,
-    provider: "espn",
-  };
-};
-
-async function getCfbWeekGamesFromCfbd(season: number, week: number, seasonType: SeasonType): Promise<CfbGame[]> {
-  const apiKey = process.env.CFBD_API_KEY?.trim();
-  if (!apiKey) {
-    throw new Error("Missing CFBD_API_KEY environment variable");
-  }
-  const params = new URLSearchParams({ year: String(season), week: String(week), seasonType });
-  const url = `${CFBD_API_BASE}/games?${params.toString()}`;
-  const res = await fetch(url, {
-    headers: { Authorization: `Bearer ${apiKey}` },
-    cache: "no-store",
-  });
-  if (!res.ok) {
-    throw new Error(`CFBD schedule fetch failed: ${res.status}`);
-  }
-  const data = (await res.json()) as Record<string, unknown>[];
-  return data.map((game) => mapCfbdGame(season, week, seasonType, "cfbd", game));
-}
-
-async function getCfbWeekGamesFromEspn(season: number, week: number, seasonType: SeasonType): Promise<CfbGame[]> {
-  const seasontypeParam = seasonType === "postseason" ? "3" : "2";
-  const params = new URLSearchParams({
-    week: String(week),
-    seasontype: seasontypeParam,
-    groups: "80",
-    limit: "400",
-    year: String(season),
-  });
-  const url = `${ESPN_SCOREBOARD_BASE}?${params.toString()}`;
-  const res = await fetch(url, { cache: "no-store" });
-  if (!res.ok) {
-    throw new Error(`ESPN schedule fetch failed: ${res.status}`);
-  }
-  const payload = (await res.json()) as Record<string, unknown>;
-  const events = Array.isArray(payload.events) ? (payload.events as Record<string, unknown>[]) : [];
-  const games: CfbGame[] = [];
-  for (const event of events) {
-    const mapped = mapEspnGame(season, week, seasonType, event);
-    if (mapped) games.push(mapped);
-  }
-  return games;
-}
-
+/** One week's games from `provider`, by default the one `CFB_SCHEDULE_PROVIDER` selects. */
 export async function getCfbWeekGames(
   season: number,
   week: number,
   seasonType: SeasonType = "regular",
+  provider: CfbScheduleProviderKind = cfbScheduleProviderKind(),
 ): Promise<CfbGame[]> {
-  const provider = parseProvider();
   const cacheKey = scheduleCacheKey(season, week, seasonType, provider);
   if (cfbScheduleCache.has(cacheKey)) {
     return cfbScheduleCache.get(cacheKey)!.map((game) => ({ ...game }));
   }
-  const games = provider === "espn"
-    ? await getCfbWeekGamesFromEspn(season, week, seasonType)
-    : await getCfbWeekGamesFromCfbd(season, week, seasonType);
+  const slate = await getCfbScheduleProvider(provider).getWeekGames(season, week, seasonType);
+  const games = slate.map((game) =>
+    mapCfbdGame(season, week, seasonType, provider, {
+      home: game.home,
+      away: game.away,
+      start_date: game.kickoffISO ?? undefined,
+    }),
+  );
   cfbScheduleCache.set(cacheKey, games);
   return games.map((game) => ({ ...game }));
 }
@@ -446,7 +330,13 @@ const resolveCollege = (
   stat: WeeklyStatsRow,
   roster: RosterCollegeLookup,
   master: { lookup: PlayersMasterLookup; colleges: ReturnType<typeof buildCollegeMaps> },
+  overrides: CollegeOverrideIndex,
 ): string | undefined => {
+  const overridden = resolveCollegeOverride(
+    { player_id: stat.player_id, alt_ids: stat.alt_ids, name: stat.name, team: stat.team },
+    overrides,
+  );
+  if (overridden) return overridden;
   const rosterCollege = resolveCollegeFromRoster(
     {
       player_id: stat.player_id,
@@ -480,18 +370,18 @@ const resolveCollege = (
     { player_id: stat.player_id, player_name: stat.name, team: stat.team },
     master.colleges,
   );
-  return resolved && resolved !== "Unknown" ? resolved : undefined;
+  return resolved && resolved !== "Unknown" ? resolved : staticCollegeByName(stat.name);
 };
 
 export async function joinStatsToColleges(
   stats: WeeklyStatsResult,
   roster: RosterWithColleges,
 ): Promise<JoinedWeeklyResult> {
-  const master = await ensurePlayersMaster();
+  const [master, overrides] = await Promise.all([ensurePlayersMaster(), loadCollegeOverrideIndex()]);
   const rows: PlayerWeekly[] = [];
   const missing: WeeklyStatsRow[] = [];
   for (const stat of stats.rows) {
-    const college = resolveCollege(stat, roster.lookup, master);
+    const college = resolveCollege(stat, roster.lookup, master, overrides);
     const normalized = college ? normalizeSchool(college) : undefined;
     if (!normalized) {
       missing.push(stat);
@@ -510,58 +400,6 @@ export async function joinStatsToColleges(
 
 const nflScheduleCache = new Map<number, NflScheduleGame[]>();
 
-const parseCsv = (text: string): Record<string, string>[] => {
-  const rows: string[][] = [];
-  const normalized = text.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
-  let current: string[] = [];
-  let value = "";
-  let inQuotes = false;
-  for (let i = 0; i < normalized.length; i += 1) {
-    const char = normalized[i];
-    if (inQuotes) {
-      if (char === "\"") {
-        if (normalized[i + 1] === "\"") {
-          value += "\"";
-          i += 1;
-        } else {
-          inQuotes = false;
-        }
-      } else {
-        value += char;
-      }
-    } else if (char === "\"") {
-      inQuotes = true;
-    } else if (char === ",") {
-      current.push(value);
-      value = "";
-    } else if (char === "\n") {
-      current.push(value);
-      rows.push(current);
-      current = [];
-      value = "";
-    } else {
-      value += char;
-    }
-  }
-  if (value.length > 0 || current.length > 0) {
-    current.push(value);
-    rows.push(current);
-  }
-  if (!rows.length) return [];
-  const headers = (rows.shift() ?? []).map((header) => header.replace(/^\uFEFF/, "").trim());
-  return rows
-    .filter((row) => row.some((cell) => cell && cell.trim().length))
-    .map((row) => {
-      const obj: Record<string, string> = {};
-      for (let i = 0; i < headers.length; i += 1) {
-        const key = headers[i];
-        if (!key) continue;
-        obj[key] = (row[i] ?? "").trim();
-      }
-      return obj;
-    });
-};
-
 const parseNflKickoff = (row: Record<string, string>, season: number): string => {
   const isoCandidates = [
     row.start_time,
@@ -0,0 +1,110 @@
+import { resolveSchool } from "@/lib/schoolRegistry";
+import { sortCfbSlate, type CfbGame, type SeasonType } from "./cfbd";
+import type { CfbScheduleProvider } from "./cfbScheduleProvider";
+
+const ESPN_SCOREBOARD_BASE = "https://site.api.espn.com/apis/site/v2/sports/football/college-football/scoreboard";
+
+const normalizeSchool = (name: string): string => {
+  const trimmed = name.trim();
+  return resolveSchool(trimmed)?.name ?? trimmed;
+};
+
+const normalizeEspnKickoff = (event: Record<string, unknown>): string | null => {
+  const dateValue =
+    typeof (event as { date?: unknown }).date === "string"
+      ? (event as { date?: string }).date
+      : typeof (event as { startDate?: unknown }).startDate === "string"
+        ? (event as { startDate?: string }).startDate
+        : undefined;
+  if (!dateValue?.trim()) return null;
+  const parsed = new Date(dateValue.trim());
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+};
+
+const mapEspnGame = (
+  season: number,
+  week: number,
+  seasonType: SeasonType,
+  event: Record<string, unknown>,
+): CfbGame | null => {
+  const competitions = Array.isArray((event as { competitions?: unknown }).competitions)
+    ? ((event as { competitions?: unknown }).competitions as unknown[])
+    : [];
+  const competition = (competitions[0] ?? null) as Record<string, unknown> | null;
+  if (!competition) return null;
+  const competitors = Array.isArray((competition as { competitors?: unknown }).competitors)
+    ? ((competition as { competitors?: unknown }).competitors as Record<string, unknown>[])
+    : [];
+  const home = competitors.find((entry) => String((entry as { homeAway?: unknown }).homeAway ?? "").toLowerCase() === "home");
+  const away = competitors.find((entry) => String((entry as { homeAway?: unknown }).homeAway ?? "").toLowerCase() === "away");
+  if (!home || !away) return null;
+  const homeName = String((home as { team?: { displayName?: unknown; location?: unknown; name?: unknown } }).team?.displayName
+    ?? (home as { team?: { location?: unknown } }).team?.location
+    ?? (home as { team?: { name?: unknown } }).team?.name
+    ?? "");
+  const awayName = String((away as { team?: { displayName?: unknown; location?: unknown; name?: unknown } }).team?.displayName
+    ?? (away as { team?: { location?: unknown } }).team?.location
+    ?? (away as { team?: { name?: unknown } }).team?.name
+    ?? "");
+  if (!homeName || !awayName) return null;
+  return {
+    id: null,
+    season,
+    week,
+    seasonType,
+    home: normalizeSchool(homeName),
+    away: normalizeSchool(awayName),
+    homePoints: null,
+    awayPoints: null,
+    venue: null,
+    neutralSite: null,
+    conferenceGame: null,
+    startTimeTBD: null,
+    excitementIndex: null,
+    highlights: null,
+    notes: null,
+    kickoffISO: normalizeEspnKickoff(competition ?? event),
+  };
+};
+
+async function getEspnWeekGames(season: number, week: number, seasonType: SeasonType): Promise<CfbGame[]> {
+  const seasontypeParam = seasonType === "postseason" ? "3" : "2";
+  const params = new URLSearchParams({
+    week: String(week),
+    seasontype: seasontypeParam,
+    groups: "80",
+    limit: "400",
+    year: String(season),
+  });
+  const url = `${ESPN_SCOREBOARD_BASE}?${params.toString()}`;
+  const res = await fetch(url, { cache: "no-store" });
+  if (!res.ok) {
+    throw new Error(`ESPN schedule fetch failed: ${res.status}`);
+  }
+  const payload = (await res.json()) as Record<string, unknown>;
+  const events = Array.isArray(payload.events) ? (payload.events as Record<string, unknown>[]) : [];
+  const games: CfbGame[] = [];
+  for (const event of events) {
+    const mapped = mapEspnGame(season, week, seasonType, event);
+    if (mapped) games.push(mapped);
+  }
+  return games;
+}
+
+/** ESPN has no season endpoint; these are the weeks walked for each season type. */
+const ESPN_WEEKS: Record<SeasonType, number> = { regular: 16, postseason: 1 };
+
+/** The ESPN scoreboard provider; games carry teams, weeks, and kickoffs only. */
+export function createEspnCfbScheduleProvider(): CfbScheduleProvider {
+  return {
+    kind: "espn",
+    async getSeasonSlate(season, seasonType) {
+      const slate: CfbGame[] = [];
+      for (let week = 1; week <= ESPN_WEEKS[seasonType]; week += 1) {
+        slate.push(...(await getEspnWeekGames(season, week, seasonType)));
+      }
+      return slate.sort(sortCfbSlate);
+    },
+    getWeekGames: getEspnWeekGames,
+  };
+}
@@ -50,6 +50,8 @@ export type DefenseRow = {
   interceptions: number;
   fumbles_recovered: number;
   score: number;
+  /** `stats_team` or `opponent-offense`. */
+  source?: string;
 };
 
 export type DefenseApiResponse = {
@@ -103,6 +105,9 @@ export async function fetchDefense(season = 2025, week?: number): Promise<Defens
           interceptions: toNumber(row.interceptions),
           fumbles_recovered: toNumber(row.fumbles_recovered),
           score: toNumber(row.score),
+          source: typeof (row.provenance as { source?: unknown } | undefined)?.source === "string"
+            ? String((row.provenance as { source: string }).source)
+            : undefined,
         }))
         .filter((row) => row.team.length > 0)
     : [];
@@ -1,4 +1,5 @@
 export const REGULAR_SEASON_WEEKS = 18;
+const LEGACY_REGULAR_SEASON_WEEKS = 17;
 const MS_PER_WEEK = 7 * 24 * 60 * 60 * 1000;
 
 const MODERN_MAX_PRESEASON_WEEK = 3;
@@ -7,6 +8,53 @@ const LEGACY_MAX_PRESEASON_WEEK = 4;
 export const preseasonWeekCapForSeason = (season: number): number =>
   season >= 2021 ? MODERN_MAX_PRESEASON_WEEK : LEGACY_MAX_PRESEASON_WEEK;
 
+export const regularSeasonWeeksForSeason = (season: number): number =>
+  season >= 2021 ? REGULAR_SEASON_WEEKS : LEGACY_REGULAR_SEASON_WEEKS;
+
+/**
+ * Playoff rounds in order. nflverse keeps numbering weeks past the regular
+ * season, so they are weeks 19–22 since 2021 (18–21 before). `code` matches
+ * the schedule's `game_type`.
+ */
+export const POSTSEASON_ROUNDS = [
+  { code: "WC", label: "Wild Card" },
+  { code: "DIV", label: "Divisional" },
+  { code: "CON", label: "Conference Championships" },
+  { code: "SB", label: "Super Bowl" },
+] as const;
+
+export type PostseasonRound = (typeof POSTSEASON_ROUNDS)[number];
+
+/** The Super Bowl week of the current format; the highest week any season has. */
+export const MAX_NFL_WEEK = REGULAR_SEASON_WEEKS + POSTSEASON_ROUNDS.length;
+
+export const lastNflWeekForSeason = (season: number): number =>
+  regularSeasonWeeksForSeason(season) + POSTSEASON_ROUNDS.length;
+
+export const isPostseasonWeek = (season: number, week: number): boolean =>
+  week > regularSeasonWeeksForSeason(season) && week <= lastNflWeekForSeason(season);
+
+export const postseasonRound = (season: number, week: number): PostseasonRound | null =>
+  isPostseasonWeek(season, week) ? POSTSEASON_ROUNDS[week - regularSeasonWeeksForSeason(season) - 1] : null;
+
+/** "Week 5" / "Wild Card", or "W5" / "WC" when `short`. */
+export function nflWeekLabel(season: number, week: number, options: { short?: boolean } = {}): string {
+  const round = postseasonRound(season, week);
+  if (round) return options.short ? round.code : round.label;
+  return options.short ? `W${week}` : `Week ${week}`;
+}
+
+// The Super Bowl is played two weekends after the conference championships,
+// so it sits one calendar week later than its week number.
+export const calendarWeekForNflWeek = (season: number, week: number): number =>
+  week >= lastNflWeekForSeason(season) ? week + 1 : week;
+
+const nflWeekForCalendarWeek = (season: number, calendarWeek: number): number => {
+  const last = lastNflWeekForSeason(season);
+  if (calendarWeek > last) return last;
+  return calendarWeek === last ? last - 1 : calendarWeek;
+};
+
 const toUtcDate = (year: number, monthIndex: number, day: number, hours = 0): Date => {
   const date = new Date(Date.UTC(year, monthIndex, day, hours, 0, 0, 0));
   return date;
@@ -28,10 +76,11 @@ const weekOneTuesdayCutoff = (season: number): Date => {
   return cutoff;
 };
 
-const clampWeek = (week: number): number => {
+const clampWeek = (season: number, week: number): number => {
   if (!Number.isFinite(week)) return 1;
   if (week < 1) return 1;
-  if (week > REGULAR_SEASON_WEEKS) return REGULAR_SEASON_WEEKS;
+  const last = lastNflWeekForSeason(season);
+  if (week > last) return last;
   return Math.trunc(week);
 };
 
@@ -52,12 +101,12 @@ export function lastCompletedNflWeek(now: Date = new Date()): LastCompletedWeek
   }
 
   if (currentUtc < cutoff) {
-    return { season: season - 1, week: REGULAR_SEASON_WEEKS };
+    return { season: season - 1, week: lastNflWeekForSeason(season - 1) };
   }
 
   const msSinceCutoff = currentUtc.getTime() - cutoff.getTime();
   const weeksSince = Math.floor(msSinceCutoff / (7 * 24 * 60 * 60 * 1000)) + 1;
-  const week = clampWeek(weeksSince);
+  const week = nflWeekForCalendarWeek(season, weeksSince);
   return { season, week };
 }
 
@@ -65,9 +114,9 @@ export function nflWeekWindowUtc(
   season: number,
   week: number,
 ): { startISO: string; endISO: string } {
-  const clampedWeek = clampWeek(week);
+  const clampedWeek = clampWeek(season, week);
   const cutoff = weekOneTuesdayCutoff(season);
-  const end = new Date(cutoff.getTime() + (clampedWeek - 1) * MS_PER_WEEK);
+  const end = new Date(cutoff.getTime() + (calendarWeekForNflWeek(season, clampedWeek) - 1) * MS_PER_WEEK);
   const start = new Date(end.getTime() - MS_PER_WEEK);
   return { startISO: start.toISOString(), endISO: end.toISOString() };
 }
@@ -84,7 +133,7 @@ export function estimateNflWeekForDate(
   kickoff: Date,
   fallbackWeek = 1,
 ): EstimatedNflWeek {
-  const fallback = clampWeek(fallbackWeek);
+  const fallback = clampWeek(season, fallbackWeek);
   if (Number.isNaN(kickoff.getTime())) {
     const window = nflWeekWindowUtc(season, fallback);
     return { week: fallback, rawWeek: Number.NaN, startISO: window.startISO, endISO: window.endISO };
@@ -94,7 +143,7 @@ export function estimateNflWeekForDate(
   const weekOneStart = new Date(weekOneWindow.startISO);
   const rawWeek = Math.floor((kickoff.getTime() - weekOneStart.getTime()) / MS_PER_WEEK) + 1;
   if (rawWeek >= 1) {
-    const week = clampWeek(rawWeek);
+    const week = nflWeekForCalendarWeek(season, rawWeek);
     const { startISO, endISO } = nflWeekWindowUtc(season, week);
     return { week, rawWeek, startISO, endISO };
   }
@@ -1,5 +1,5 @@
 import type { CfbGame, SeasonType } from "./cfbd";
-import { getCfbSeasonSlate } from "./cfbd";
+import { getCfbSeasonSlate } from "./cfbScheduleProvider";
 import { canonicalTeam, normalizeSchool } from "./schoolNames";
 
 export { canonicalTeam, canonicalize, normalizeSchool, sameSchool } from "./schoolNames";
@@ -13,6 +13,9 @@ type Options = {
   enabled: boolean;
 };
 
+/** Any team scored from the opponent-offense approximation earns the badge. */
+const isApproximate = (mode?: string) => mode === "approx-opponent-offense" || mode === "mixed";
+
 export function useDefenseStatus({ season, week, enabled }: Options): DefenseStatus {
   const [status, setStatus] = useState<DefenseStatus>({ message: null, showApproxBadge: false });
 
@@ -38,7 +41,7 @@ export function useDefenseStatus({ season, week, enabled }: Options): DefenseSta
         if (requestedWeek && result.week > 0 && requestedWeek !== result.week) {
           setStatus({
             message: `Defense data available for Week ${result.week}, not Week ${requestedWeek}.`,
-            showApproxBadge: result.mode === "approx-opponent-offense",
+            showApproxBadge: isApproximate(result.mode),
           });
           return;
         }
@@ -48,11 +51,11 @@ export function useDefenseStatus({ season, week, enabled }: Options): DefenseSta
         }
         const allZero = rows.every((row) => Number(row.score) === 0);
         if (allZero) {
-          console.warn("[alumni] DEF approx returned zero scores", { season, week, teams: rows.length });
-          setStatus({ message: null, showApproxBadge: result.mode === "approx-opponent-offense" });
+          console.warn("[alumni] DEF returned zero scores", { season, week, teams: rows.length });
+          setStatus({ message: null, showApproxBadge: isApproximate(result.mode) });
           return;
         }
-        setStatus({ message: null, showApproxBadge: result.mode === "approx-opponent-offense" });
+        setStatus({ message: null, showApproxBadge: isApproximate(result.mode) });
       } catch (error) {
         if (cancelled) return;
         console.warn("[alumni] DEF fetch failed", error);
@@ -1,4 +1,5 @@
 import type { NflScheduleGame } from "./datasources";
+import { POSTSEASON_ROUNDS, regularSeasonWeeksForSeason, type PostseasonRound } from "./nflWeek";
 
 export type NflWeekWindow = {
   season: number;
@@ -163,3 +164,76 @@ export function mapCfbGamesToNflWeeks(
     return { ...mapped, kickoffISO: game.kickoffISO, home: game.home, away: game.away };
   });
 }
+
+/**
+ * How bowl and CFP games pick an NFL week. `kickoff` uses the NFL week whose
+ * window contains the kickoff. `playoff-rounds` lines CFP rounds up with NFL
+ * playoff rounds (first round → Wild Card, quarterfinals → Divisional,
+ * semifinals → Conference Championships, title game → Super Bowl); other
+ * bowls still map by kickoff.
+ */
+export const CFB_POSTSEASON_POLICIES = ["kickoff", "playoff-rounds"] as const;
+
+export type CfbPostseasonPolicy = (typeof CFB_POSTSEASON_POLICIES)[number];
+
+export const DEFAULT_CFB_POSTSEASON_POLICY: CfbPostseasonPolicy = "kickoff";
+
+export const CFP_ROUNDS = ["first-round", "quarterfinal", "semifinal", "championship"] as const;
+
+export type CfpRound = (typeof CFP_ROUNDS)[number];
+
+const CFP_ROUND_NFL_ROUND: Record<CfpRound, PostseasonRound["code"]> = {
+  "first-round": "WC",
+  quarterfinal: "DIV",
+  semifinal: "CON",
+  championship: "SB",
+};
+
+/** The CFP round named in a game's notes ("CFP Semifinal at the Orange Bowl"), or null for other bowls. */
+export function cfpRoundFromNotes(notes?: string | null): CfpRound | null {
+  const text = String(notes ?? "").toLowerCase();
+  if (!/\bcfp\b|college football playoff/.test(text)) return null;
+  if (/national championship|title game/.test(text)) return "championship";
+  if (/semi-?final/.test(text)) return "semifinal";
+  if (/quarter-?final/.test(text)) return "quarterfinal";
+  if (/first round|opening round/.test(text)) return "first-round";
+  return null;
+}
+
+export type CfbPostseasonMapping = NflWeekReference & {
+  rule: "cfp-round" | "kickoff-window";
+  cfpRound: CfpRound | null;
+};
+
+const windowStart = (window: NflWeekWindow) => new Date(window.windowEndUTC).getTime() - 7 * DAY_MS;
+
+/**
+ * The NFL week for one bowl or CFP game under `policy`, or null when the
+ * kickoff falls outside every window (the caller then estimates from the
+ * date). CFP rounds map to the NFL season's playoff week even without a
+ * schedule window for it.
+ */
+export function mapCfbPostseasonGame(
+  game: { season: number; kickoffISO: string | null; notes?: string | null },
+  windows: NflWeekWindow[],
+  policy: CfbPostseasonPolicy = DEFAULT_CFB_POSTSEASON_POLICY,
+): CfbPostseasonMapping | null {
+  const cfpRound = cfpRoundFromNotes(game.notes);
+  const sortedWindows = sortWindows(windows);
+  if (policy === "playoff-rounds" && cfpRound) {
+    const code = CFP_ROUND_NFL_ROUND[cfpRound];
+    const window = sortedWindows.find(
+      (candidate) => candidate.season === game.season && candidate.gameTypes.includes(code),
+    );
+    const roundIndex = POSTSEASON_ROUNDS.findIndex((round) => round.code === code);
+    const week = window?.week ?? regularSeasonWeeksForSeason(game.season) + roundIndex + 1;
+    return { season: game.season, week, rule: "cfp-round", cfpRound };
+  }
+  if (!game.kickoffISO) return null;
+  const kickoff = new Date(game.kickoffISO).getTime();
+  if (Number.isNaN(kickoff)) return null;
+  const window = sortedWindows.find(
+    (candidate) => windowStart(candidate) <= kickoff && kickoff < new Date(candidate.windowEndUTC).getTime(),
+  );
+  return window ? { season: window.season, week: window.week, rule: "kickoff-window", cfpRound } : null;
+}